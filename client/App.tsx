@@ -8,6 +8,17 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
+import Trips from "./pages/Trips";
+import TripDetail from "./pages/TripDetail";
+import Fleet from "./pages/Fleet";
+import VehicleDashboard from "./pages/VehicleDashboard";
+import SafetyReport from "./pages/SafetyReport";
+import Settings from "./pages/Settings";
+import Login from "./pages/Login";
+import RequireRole from "./components/RequireRole";
+import { AuthProvider } from "./hooks/use-auth";
+import { REQUIRED_ROLES } from "./lib/auth";
+import { registerServiceWorker } from "./lib/service-worker";
 
 const queryClient = new QueryClient();
 
@@ -17,14 +28,32 @@ const App = () => (
       <Toaster />
       <Sonner />
       <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
+        <AuthProvider>
+          <Routes>
+            <Route path="/login" element={<Login />} />
+            <Route element={<RequireRole role={REQUIRED_ROLES.viewData} />}>
+              <Route path="/" element={<Index />} />
+              <Route path="/trips" element={<Trips />} />
+              <Route path="/trips/:id" element={<TripDetail />} />
+              <Route path="/fleet" element={<Fleet />} />
+              <Route
+                path="/vehicles/:vehicleId"
+                element={<VehicleDashboard />}
+              />
+              <Route path="/report" element={<SafetyReport />} />
+            </Route>
+            <Route element={<RequireRole role={REQUIRED_ROLES.editSettings} />}>
+              <Route path="/settings" element={<Settings />} />
+            </Route>
+            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </AuthProvider>
       </BrowserRouter>
     </TooltipProvider>
   </QueryClientProvider>
 );
 
+registerServiceWorker();
+
 createRoot(document.getElementById("root")!).render(<App />);
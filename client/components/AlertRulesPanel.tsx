@@ -0,0 +1,374 @@
+import { useEffect, useState } from "react";
+import { Plus, RotateCcw, Save, Trash2 } from "lucide-react";
+import {
+  alertRuleSchema,
+  BOOLEAN_RULE_FIELDS,
+  RULE_FIELD_LABELS,
+  RULE_FIELDS,
+  RULE_OPERATORS,
+  type AlertRule,
+  type RuleCondition,
+  type RuleField,
+} from "@/lib/alert-rules";
+import { fromKmh, SPEED_UNIT_LABELS, toKmh, type SpeedUnit } from "@/lib/units";
+import { cn } from "@/lib/utils";
+
+interface AlertRulesPanelProps {
+  rules: AlertRule[];
+  onSave: (rules: AlertRule[]) => void;
+  onReset: () => void;
+  /** Speed conditions are stored in km/h but edited in this unit */
+  speedUnit?: SpeedUnit;
+}
+
+const inputClass =
+  "bg-slate-900 border border-slate-600 rounded px-2 py-1 text-sm text-slate-100";
+
+const fieldLabel = (field: RuleField, speedUnit: SpeedUnit) =>
+  field === "speed"
+    ? `Speed (${SPEED_UNIT_LABELS[speedUnit]})`
+    : RULE_FIELD_LABELS[field];
+
+const defaultValue = (field: RuleField) =>
+  BOOLEAN_RULE_FIELDS.includes(field) ? true : 0;
+
+const newRule = (): AlertRule => ({
+  id: `rule-${Date.now()}`,
+  name: "New rule",
+  enabled: true,
+  severity: "warning",
+  target: "speed",
+  conditions: [{ field: "speed", operator: ">", value: 100 }],
+  forMs: 0,
+  clearAfterMs: 0,
+  cooldownMs: 0,
+});
+
+const SecondsInput = ({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  onChange: (ms: number) => void;
+}) => (
+  <label className="flex flex-col gap-1 text-xs text-slate-400">
+    {label}
+    <input
+      type="number"
+      min={0}
+      step={0.5}
+      value={value / 1000}
+      onChange={(e) => onChange(Math.max(0, Number(e.target.value)) * 1000)}
+      className={cn(inputClass, "w-24")}
+    />
+  </label>
+);
+
+const ConditionRow = ({
+  condition,
+  speedUnit,
+  onChange,
+  onRemove,
+}: {
+  condition: RuleCondition;
+  speedUnit: SpeedUnit;
+  onChange: (condition: RuleCondition) => void;
+  onRemove?: () => void;
+}) => {
+  const isBoolean = BOOLEAN_RULE_FIELDS.includes(condition.field);
+  const isSpeed = condition.field === "speed";
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        value={condition.field}
+        onChange={(e) => {
+          const field = e.target.value as RuleField;
+          onChange({
+            field,
+            operator: BOOLEAN_RULE_FIELDS.includes(field) ? "==" : ">",
+            value: defaultValue(field),
+          });
+        }}
+        className={inputClass}
+      >
+        {RULE_FIELDS.map((field) => (
+          <option key={field} value={field}>
+            {fieldLabel(field, speedUnit)}
+          </option>
+        ))}
+      </select>
+      <select
+        value={condition.operator}
+        onChange={(e) =>
+          onChange({
+            ...condition,
+            operator: e.target.value as RuleCondition["operator"],
+          })
+        }
+        className={inputClass}
+      >
+        {RULE_OPERATORS.filter(
+          (operator) => !isBoolean || operator === "==" || operator === "!=",
+        ).map((operator) => (
+          <option key={operator} value={operator}>
+            {operator}
+          </option>
+        ))}
+      </select>
+      {isBoolean ? (
+        <select
+          value={String(condition.value)}
+          onChange={(e) =>
+            onChange({ ...condition, value: e.target.value === "true" })
+          }
+          className={inputClass}
+        >
+          <option value="true">true</option>
+          <option value="false">false</option>
+        </select>
+      ) : (
+        <input
+          type="number"
+          value={
+            isSpeed
+              ? fromKmh(Number(condition.value), speedUnit)
+              : Number(condition.value)
+          }
+          onChange={(e) => {
+            const value = Number(e.target.value);
+            onChange({
+              ...condition,
+              value: isSpeed ? toKmh(value, speedUnit) : value,
+            });
+          }}
+          className={cn(inputClass, "w-24")}
+        />
+      )}
+      {onRemove && (
+        <button
+          onClick={onRemove}
+          className="text-slate-400 hover:text-red-400"
+          aria-label="Remove condition"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default function AlertRulesPanel({
+  rules,
+  onSave,
+  onReset,
+  speedUnit = "kmh",
+}: AlertRulesPanelProps) {
+  const [draft, setDraft] = useState(rules);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  useEffect(() => setDraft(rules), [rules]);
+
+  const updateRule = (index: number, patch: Partial<AlertRule>) =>
+    setDraft((prev) =>
+      prev.map((rule, i) => (i === index ? { ...rule, ...patch } : rule)),
+    );
+
+  const save = () => {
+    const nextErrors: Record<string, string> = {};
+    draft.forEach((rule) => {
+      const result = alertRuleSchema.safeParse(rule);
+      if (!result.success) {
+        const issue = result.error.issues[0];
+        nextErrors[rule.id] = `${issue.path.join(".")}: ${issue.message}`;
+      }
+    });
+    setErrors(nextErrors);
+    if (Object.keys(nextErrors).length === 0) onSave(draft);
+  };
+
+  const dirty = JSON.stringify(draft) !== JSON.stringify(rules);
+
+  return (
+    <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-4 space-y-4">
+      {draft.map((rule, index) => (
+        <div
+          key={rule.id}
+          className={cn(
+            "rounded-lg border p-3 space-y-3",
+            rule.enabled ? "border-slate-600" : "border-slate-700 opacity-60",
+          )}
+        >
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="checkbox"
+              checked={rule.enabled}
+              onChange={(e) => updateRule(index, { enabled: e.target.checked })}
+              aria-label="Enabled"
+            />
+            <input
+              value={rule.name}
+              onChange={(e) => updateRule(index, { name: e.target.value })}
+              className={cn(inputClass, "flex-1 min-w-48")}
+            />
+            <select
+              value={rule.severity}
+              onChange={(e) =>
+                updateRule(index, {
+                  severity: e.target.value as AlertRule["severity"],
+                })
+              }
+              className={inputClass}
+            >
+              <option value="warning">Warning</option>
+              <option value="danger">Danger</option>
+            </select>
+            <label className="flex items-center gap-1 text-xs text-slate-400">
+              Card
+              <select
+                value={rule.target}
+                onChange={(e) =>
+                  updateRule(index, { target: e.target.value as RuleField })
+                }
+                className={inputClass}
+              >
+                {RULE_FIELDS.map((field) => (
+                  <option key={field} value={field}>
+                    {fieldLabel(field, speedUnit)}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <button
+              onClick={() =>
+                setDraft((prev) => prev.filter((_, i) => i !== index))
+              }
+              className="text-slate-400 hover:text-red-400"
+              aria-label="Delete rule"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="space-y-2 pl-6">
+            {rule.conditions.map((condition, conditionIndex) => (
+              <ConditionRow
+                key={conditionIndex}
+                condition={condition}
+                speedUnit={speedUnit}
+                onChange={(next) =>
+                  updateRule(index, {
+                    conditions: rule.conditions.map((c, i) =>
+                      i === conditionIndex ? next : c,
+                    ),
+                  })
+                }
+                onRemove={
+                  rule.conditions.length > 1
+                    ? () =>
+                        updateRule(index, {
+                          conditions: rule.conditions.filter(
+                            (_, i) => i !== conditionIndex,
+                          ),
+                        })
+                    : undefined
+                }
+              />
+            ))}
+            <button
+              onClick={() =>
+                updateRule(index, {
+                  conditions: [
+                    ...rule.conditions,
+                    { field: "speed", operator: ">", value: 0 },
+                  ],
+                })
+              }
+              className="text-xs text-blue-300 hover:text-blue-200 flex items-center gap-1"
+            >
+              <Plus className="w-3 h-3" /> Add condition (AND)
+            </button>
+          </div>
+
+          <div className="flex flex-wrap gap-4 pl-6">
+            <SecondsInput
+              label="Hold for (s)"
+              value={rule.forMs}
+              onChange={(forMs) => updateRule(index, { forMs })}
+            />
+            <SecondsInput
+              label="Clear after (s)"
+              value={rule.clearAfterMs}
+              onChange={(clearAfterMs) => updateRule(index, { clearAfterMs })}
+            />
+            <SecondsInput
+              label="Cooldown (s)"
+              value={rule.cooldownMs}
+              onChange={(cooldownMs) => updateRule(index, { cooldownMs })}
+            />
+            <label className="flex flex-col gap-1 text-xs text-slate-400">
+              Occurrences
+              <input
+                type="number"
+                min={0}
+                value={rule.occurrences?.count ?? 0}
+                onChange={(e) => {
+                  const count = Number(e.target.value);
+                  updateRule(index, {
+                    occurrences:
+                      count >= 2
+                        ? {
+                            count,
+                            windowMs: rule.occurrences?.windowMs ?? 60000,
+                          }
+                        : undefined,
+                  });
+                }}
+                className={cn(inputClass, "w-24")}
+              />
+            </label>
+            {rule.occurrences && (
+              <SecondsInput
+                label="Within (s)"
+                value={rule.occurrences.windowMs}
+                onChange={(windowMs) =>
+                  updateRule(index, {
+                    occurrences: { ...rule.occurrences, windowMs },
+                  })
+                }
+              />
+            )}
+          </div>
+
+          {errors[rule.id] && (
+            <p className="text-xs text-red-400 pl-6">{errors[rule.id]}</p>
+          )}
+        </div>
+      ))}
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={() => setDraft((prev) => [...prev, newRule()])}
+          className="px-3 py-1 rounded border border-slate-600 text-sm flex items-center gap-1"
+        >
+          <Plus className="w-4 h-4" /> Add rule
+        </button>
+        <button
+          onClick={save}
+          disabled={!dirty}
+          className="px-3 py-1 rounded bg-blue-600 text-sm flex items-center gap-1 disabled:opacity-50"
+        >
+          <Save className="w-4 h-4" /> Save rules
+        </button>
+        <button
+          onClick={onReset}
+          className="px-3 py-1 rounded border border-slate-600 text-sm flex items-center gap-1"
+        >
+          <RotateCcw className="w-4 h-4" /> Restore defaults
+        </button>
+      </div>
+    </div>
+  );
+}
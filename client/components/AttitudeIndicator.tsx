@@ -0,0 +1,53 @@
+import { Canvas } from "@react-three/fiber";
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * The vehicle seen from behind and above, tilted by its roll and pitch.
+ * Three.js is large, so the dashboard loads this component lazily.
+ */
+export default function AttitudeIndicator({
+  roll,
+  pitch,
+  className,
+}: {
+  /** Degrees, right side down positive */
+  roll: number;
+  /** Degrees, nose up positive */
+  pitch: number;
+  className?: string;
+}) {
+  return (
+    <div className={className}>
+      <Canvas
+        // Redrawn only when the attitude changes
+        frameloop="demand"
+        camera={{ position: [3.5, 2.5, 5], fov: 40 }}
+        aria-label={`Roll ${roll.toFixed(1)}°, pitch ${pitch.toFixed(1)}°`}
+      >
+        <ambientLight intensity={0.6} />
+        <directionalLight position={[4, 6, 5]} intensity={1.2} />
+        <gridHelper
+          args={[8, 16, "#475569", "#1e293b"]}
+          position={[0, -0.6, 0]}
+        />
+        {/* Forward is -Z: pitch turns about X, roll about Z */}
+        <group rotation={[toRadians(pitch), 0, -toRadians(roll)]}>
+          <mesh>
+            <boxGeometry args={[1.6, 0.6, 3.2]} />
+            <meshStandardMaterial color="#60a5fa" />
+          </mesh>
+          <mesh position={[0, 0.5, 0.3]}>
+            <boxGeometry args={[1.3, 0.45, 1.6]} />
+            <meshStandardMaterial color="#93c5fd" />
+          </mesh>
+          {/* Windscreen edge so the front is recognizable */}
+          <mesh position={[0, 0.5, -0.52]}>
+            <boxGeometry args={[1.25, 0.38, 0.05]} />
+            <meshStandardMaterial color="#0f172a" />
+          </mesh>
+        </group>
+      </Canvas>
+    </div>
+  );
+}
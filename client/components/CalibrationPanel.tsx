@@ -0,0 +1,273 @@
+import { useEffect, useState } from "react";
+import { Plus, RotateCcw, Save, Trash2 } from "lucide-react";
+import {
+  calibratedSpeed,
+  calibrationProfileSchema,
+  mechanicalKmhPerRpm,
+  type CalibrationKind,
+  type CalibrationProfile,
+} from "@/lib/calibration";
+import {
+  formatSpeed,
+  SPEED_UNIT_LABELS,
+  SPEED_UNITS,
+  type SpeedUnit,
+} from "@/lib/units";
+import { cn } from "@/lib/utils";
+
+interface CalibrationPanelProps {
+  calibration: CalibrationProfile;
+  onSave: (calibration: CalibrationProfile) => void;
+  onReset: () => void;
+  speedUnit: SpeedUnit;
+  onSpeedUnitChange: (unit: SpeedUnit) => void;
+}
+
+const inputClass =
+  "bg-slate-900 border border-slate-600 rounded px-2 py-1 text-sm text-slate-100";
+
+const KIND_LABELS: Record<CalibrationKind, string> = {
+  factor: "Fixed factor",
+  mechanical: "Wheel and gearing",
+  table: "Measured table",
+};
+
+// Switching kinds starts from a profile equivalent to the current factor
+const convertProfile = (
+  profile: CalibrationProfile,
+  kind: CalibrationKind,
+): CalibrationProfile => {
+  const kmhPerRpm = calibratedSpeed(1000, profile) / 1000;
+  switch (kind) {
+    case "factor":
+      return { kind, kmhPerRpm: Number(kmhPerRpm.toFixed(4)) };
+    case "mechanical": {
+      const mechanical = { wheelRadiusM: 0.06, gearRatio: 1, lossFactor: 0 };
+      return {
+        kind,
+        ...mechanical,
+        gearRatio: Number(
+          (mechanicalKmhPerRpm(mechanical) / kmhPerRpm).toFixed(3),
+        ),
+      };
+    }
+    case "table":
+      return {
+        kind,
+        points: [
+          [0, 0],
+          [1000, Math.round(kmhPerRpm * 1000)],
+        ],
+      };
+  }
+};
+
+const NumberField = ({
+  label,
+  value,
+  step,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  step: number;
+  onChange: (value: number) => void;
+}) => (
+  <label className="flex flex-col gap-1 text-xs text-slate-400">
+    {label}
+    <input
+      type="number"
+      min={0}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className={cn(inputClass, "w-28")}
+    />
+  </label>
+);
+
+export default function CalibrationPanel({
+  calibration,
+  onSave,
+  onReset,
+  speedUnit,
+  onSpeedUnitChange,
+}: CalibrationPanelProps) {
+  const [draft, setDraft] = useState(calibration);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => setDraft(calibration), [calibration]);
+
+  const save = () => {
+    const result = calibrationProfileSchema.safeParse(draft);
+    if (result.success) {
+      setError(null);
+      onSave(draft);
+    } else {
+      const issue = result.error.issues[0];
+      setError(
+        issue.path.length > 0
+          ? `${issue.path.join(".")}: ${issue.message}`
+          : issue.message,
+      );
+    }
+  };
+
+  const dirty = JSON.stringify(draft) !== JSON.stringify(calibration);
+  const preview = calibrationProfileSchema.safeParse(draft).success
+    ? formatSpeed(calibratedSpeed(1000, draft), speedUnit)
+    : null;
+
+  return (
+    <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-4 space-y-4 text-sm">
+      <div className="flex flex-wrap items-end gap-4">
+        <label className="flex flex-col gap-1 text-xs text-slate-400">
+          Speed unit
+          <select
+            value={speedUnit}
+            onChange={(e) => onSpeedUnitChange(e.target.value as SpeedUnit)}
+            className={inputClass}
+          >
+            {SPEED_UNITS.map((unit) => (
+              <option key={unit} value={unit}>
+                {SPEED_UNIT_LABELS[unit]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-slate-400">
+          Speed calibration
+          <select
+            value={draft.kind}
+            onChange={(e) =>
+              setDraft(convertProfile(draft, e.target.value as CalibrationKind))
+            }
+            className={inputClass}
+          >
+            {(Object.keys(KIND_LABELS) as CalibrationKind[]).map((kind) => (
+              <option key={kind} value={kind}>
+                {KIND_LABELS[kind]}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {draft.kind === "factor" && (
+          <NumberField
+            label="km/h per rpm"
+            value={draft.kmhPerRpm}
+            step={0.0001}
+            onChange={(kmhPerRpm) => setDraft({ ...draft, kmhPerRpm })}
+          />
+        )}
+        {draft.kind === "mechanical" && (
+          <>
+            <NumberField
+              label="Wheel radius (m)"
+              value={draft.wheelRadiusM}
+              step={0.01}
+              onChange={(wheelRadiusM) => setDraft({ ...draft, wheelRadiusM })}
+            />
+            <NumberField
+              label="Gear ratio"
+              value={draft.gearRatio}
+              step={0.1}
+              onChange={(gearRatio) => setDraft({ ...draft, gearRatio })}
+            />
+            <NumberField
+              label="Loss (%)"
+              value={Math.round(draft.lossFactor * 100)}
+              step={1}
+              onChange={(percent) =>
+                setDraft({ ...draft, lossFactor: percent / 100 })
+              }
+            />
+          </>
+        )}
+      </div>
+
+      {draft.kind === "table" && (
+        <div className="space-y-2">
+          <div className="grid grid-cols-[7rem_7rem_auto] gap-2 text-xs text-slate-400">
+            <span>RPM</span>
+            <span>Speed (km/h)</span>
+          </div>
+          {draft.points.map(([rpm, kmh], index) => (
+            <div
+              key={index}
+              className="grid grid-cols-[7rem_7rem_auto] gap-2 items-center"
+            >
+              {[rpm, kmh].map((value, axis) => (
+                <input
+                  key={axis}
+                  type="number"
+                  min={0}
+                  value={value}
+                  onChange={(e) =>
+                    setDraft({
+                      ...draft,
+                      points: draft.points.map((point, i) => {
+                        if (i !== index) return point;
+                        const next = [...point] as [number, number];
+                        next[axis] = Number(e.target.value);
+                        return next;
+                      }),
+                    })
+                  }
+                  className={inputClass}
+                />
+              ))}
+              {draft.points.length > 2 && (
+                <button
+                  onClick={() =>
+                    setDraft({
+                      ...draft,
+                      points: draft.points.filter((_, i) => i !== index),
+                    })
+                  }
+                  className="text-slate-400 hover:text-red-400"
+                  aria-label="Remove point"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          ))}
+          <button
+            onClick={() => {
+              const [lastRpm, lastKmh] = draft.points[draft.points.length - 1];
+              setDraft({
+                ...draft,
+                points: [...draft.points, [lastRpm + 500, lastKmh]],
+              });
+            }}
+            className="text-xs text-blue-300 hover:text-blue-200 flex items-center gap-1"
+          >
+            <Plus className="w-3 h-3" /> Add point
+          </button>
+        </div>
+      )}
+
+      {preview && (
+        <p className="text-xs text-slate-500">1000 rpm ≈ {preview}</p>
+      )}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={save}
+          disabled={!dirty}
+          className="px-3 py-1 rounded bg-blue-600 text-sm flex items-center gap-1 disabled:opacity-50"
+        >
+          <Save className="w-4 h-4" /> Save calibration
+        </button>
+        <button
+          onClick={onReset}
+          className="px-3 py-1 rounded border border-slate-600 text-sm flex items-center gap-1"
+        >
+          <RotateCcw className="w-4 h-4" /> Restore default
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+import { useState } from "react";
+import { BellRing, CheckCheck, MessageSquare, RotateCw } from "lucide-react";
+import { COMMAND_LIMITS } from "@shared/api";
+import type { VehicleCommands } from "@/hooks/use-vehicle-commands";
+import type { ActiveAlert } from "@/lib/alert-rules";
+import {
+  COMMAND_STATUS_LABELS,
+  describeCommand,
+  isCommandPending,
+  type CommandLogStatus,
+} from "@/lib/commands";
+import { cn } from "@/lib/utils";
+
+const BUZZER_DURATIONS = [1000, 3000, 5000];
+
+const STATUS_STYLES: Record<CommandLogStatus, string> = {
+  sending: "bg-slate-700 text-slate-200",
+  failed: "bg-red-900/60 text-red-200",
+  queued: "bg-blue-900/60 text-blue-200",
+  delivered: "bg-indigo-900/60 text-indigo-200",
+  acknowledged: "bg-green-900/60 text-green-200",
+};
+
+interface CommandPanelProps {
+  commands: VehicleCommands;
+  /** Alerts currently active on the vehicle, offered for acknowledgement */
+  alerts: ActiveAlert[];
+}
+
+export default function CommandPanel({ commands, alerts }: CommandPanelProps) {
+  const { entries, logError, operator, setOperator, signedInAs, send, retry } =
+    commands;
+  const [buzzerMs, setBuzzerMs] = useState(BUZZER_DURATIONS[0]);
+  const [message, setMessage] = useState("");
+
+  const sendMessage = () => {
+    const text = message.trim();
+    if (!text) return;
+    send({ type: "message", text });
+    setMessage("");
+  };
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div className="flex flex-wrap items-center gap-3">
+        {signedInAs ? (
+          <span className="text-slate-300">
+            Sent by <span className="font-semibold">{signedInAs}</span>
+          </span>
+        ) : (
+          <label className="flex items-center gap-2 text-slate-300">
+            Sent by
+            <input
+              value={operator}
+              onChange={(e) => setOperator(e.target.value)}
+              placeholder="Your name"
+              maxLength={64}
+              className="bg-slate-900 border border-slate-600 rounded px-2 py-1 text-slate-100 w-40"
+            />
+          </label>
+        )}
+        <div className="flex items-center gap-1">
+          <select
+            value={buzzerMs}
+            onChange={(e) => setBuzzerMs(Number(e.target.value))}
+            className="bg-slate-900 border border-slate-600 rounded px-2 py-1 text-slate-100"
+            aria-label="Buzzer duration"
+          >
+            {BUZZER_DURATIONS.map((ms) => (
+              <option key={ms} value={ms}>
+                {ms / 1000}s
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => send({ type: "buzzer", durationMs: buzzerMs })}
+            className="px-3 py-1 rounded bg-amber-600 hover:bg-amber-500 flex items-center gap-1"
+          >
+            <BellRing className="w-4 h-4" /> Sound buzzer
+          </button>
+        </div>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            sendMessage();
+          }}
+          className="flex items-center gap-1 flex-1 min-w-60"
+        >
+          <input
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            placeholder="Message to the driver"
+            maxLength={COMMAND_LIMITS.messageLength}
+            className="bg-slate-900 border border-slate-600 rounded px-2 py-1 text-slate-100 flex-1"
+          />
+          <button
+            type="submit"
+            disabled={!message.trim()}
+            className="px-3 py-1 rounded bg-blue-600 hover:bg-blue-500 flex items-center gap-1 disabled:opacity-50"
+          >
+            <MessageSquare className="w-4 h-4" /> Send
+          </button>
+        </form>
+      </div>
+
+      {alerts.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {alerts.map((alert) => (
+            <button
+              key={alert.ruleId}
+              onClick={() =>
+                send({
+                  type: "acknowledgeAlert",
+                  ruleId: alert.ruleId,
+                  alertName: alert.name,
+                })
+              }
+              className={cn(
+                "px-2 py-1 rounded text-xs font-semibold flex items-center gap-1",
+                alert.severity === "danger"
+                  ? "bg-red-700 hover:bg-red-600"
+                  : "bg-yellow-700 hover:bg-yellow-600",
+              )}
+            >
+              <CheckCheck className="w-3 h-3" /> Acknowledge “{alert.name}”
+            </button>
+          ))}
+        </div>
+      )}
+
+      {logError && (
+        <p className="text-xs text-amber-400">
+          Could not load the command log: {String(logError.message)}
+        </p>
+      )}
+      {entries.length === 0 ? (
+        <p className="text-slate-400">No commands sent.</p>
+      ) : (
+        <div className="max-h-64 overflow-y-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="text-left text-xs text-slate-400">
+                <th className="font-medium py-1">Sent</th>
+                <th className="font-medium py-1">By</th>
+                <th className="font-medium py-1">Command</th>
+                <th className="font-medium py-1">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map((entry) => (
+                <tr key={entry.id} className="border-t border-slate-700">
+                  <td className="py-1 font-mono text-xs">
+                    {new Date(entry.sentAt).toLocaleTimeString()}
+                  </td>
+                  <td className="py-1">{entry.sentBy}</td>
+                  <td className="py-1">{describeCommand(entry.command)}</td>
+                  <td className="py-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span
+                        className={cn(
+                          "px-2 py-0.5 rounded text-xs font-semibold",
+                          STATUS_STYLES[entry.status],
+                          isCommandPending(entry) && "animate-pulse",
+                        )}
+                        title={
+                          entry.acknowledgedAt
+                            ? `Acknowledged at ${new Date(entry.acknowledgedAt).toLocaleTimeString()}`
+                            : undefined
+                        }
+                      >
+                        {COMMAND_STATUS_LABELS[entry.status]}
+                      </span>
+                      {entry.attempts > 0 && (
+                        <span className="text-xs text-slate-400">
+                          attempt {entry.attempts + 1}
+                        </span>
+                      )}
+                      {entry.error && (
+                        <span className="text-xs text-red-300">
+                          {entry.error}
+                        </span>
+                      )}
+                      {entry.status === "failed" && (
+                        <button
+                          onClick={() => retry(entry.id)}
+                          className="px-2 py-0.5 rounded border border-slate-600 text-xs flex items-center gap-1"
+                        >
+                          <RotateCw className="w-3 h-3" /> Retry
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import type { ReactNode } from "react";
+import type { ConnectionState } from "@/lib/telemetry-connection";
+import { cn } from "@/lib/utils";
+
+export const CONNECTION_LABELS: Record<ConnectionState, string> = {
+  connecting: "Connecting",
+  live: "Live",
+  stale: "Stale",
+  backoff: "Reconnecting",
+  offline: "Offline",
+};
+
+export const CONNECTION_COLORS: Record<ConnectionState, string> = {
+  connecting: "bg-blue-500",
+  live: "bg-green-500",
+  stale: "bg-yellow-500",
+  backoff: "bg-orange-500",
+  offline: "bg-red-500",
+};
+
+export default function ConnectionIndicator({
+  state,
+  since,
+  children,
+}: {
+  state: ConnectionState;
+  /** Epoch ms the connection was lost, shown while not connected */
+  since?: number | null;
+  /** Extra details after the label */
+  children?: ReactNode;
+}) {
+  return (
+    <div className="flex items-center gap-2">
+      <div
+        className={cn(
+          "w-2 h-2 rounded-full animate-pulse",
+          CONNECTION_COLORS[state],
+        )}
+      />
+      <span className="text-sm text-slate-400">
+        {CONNECTION_LABELS[state]}
+        {since != null && ` since ${new Date(since).toLocaleTimeString()}`}
+        {children}
+      </span>
+    </div>
+  );
+}
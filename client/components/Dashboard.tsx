@@ -1,423 +1,667 @@
-import { useEffect, useState, useRef } from "react";
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
 import {
   Activity,
-  AlertTriangle,
-  Eye,
-  Gauge,
-  Smartphone,
-  AlertCircle,
   CheckCircle,
-  Zap,
+  LineChart,
+  SlidersHorizontal,
+  Bell,
+  BellOff,
+  Volume2,
+  VolumeX,
+  ShieldCheck,
+  Printer,
+  History,
+  Send,
+  Map as MapIcon,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import {
+  describeTelemetrySource,
+  resolveTelemetrySource,
+  scopeToVehicle,
+  withAccessToken,
+} from "@/lib/telemetry-source";
+import {
+  evaluateFrames,
+  getSpeedThresholds,
+  type AlertRule,
+} from "@/lib/alert-rules";
+import { useAlertRules } from "@/hooks/use-alert-rules";
+import { useAlarms } from "@/hooks/use-alarms";
+import { useFreshnessSettings } from "@/hooks/use-freshness-settings";
+import { useCalibration } from "@/hooks/use-calibration";
+import { useAppSettings } from "@/hooks/use-app-settings";
+import { getCommandUrl, getStreamUrl } from "@/lib/app-settings";
+import { useSpeedUnit } from "@/hooks/use-speed-unit";
+import type { SpeedUnit } from "@/lib/units";
+import type { MetricContext } from "@/lib/metrics";
+import type { CalibrationProfile } from "@/lib/calibration";
+import { formatDuration } from "@/lib/trip-summary";
+import { detectIncidents } from "@/lib/incidents";
+import { extractTrack } from "@/lib/geo";
+import FreshnessSettingsPanel from "@/components/FreshnessSettingsPanel";
+import CalibrationPanel from "@/components/CalibrationPanel";
+import PageLayout from "@/components/PageLayout";
+import ConnectionIndicator from "@/components/ConnectionIndicator";
+import TelemetryCharts from "@/components/TelemetryCharts";
+import TripMap from "@/components/TripMap";
+import AlertRulesPanel from "@/components/AlertRulesPanel";
+import ExportMenu from "@/components/ExportMenu";
+import SafetyScoreGauge from "@/components/SafetyScoreGauge";
+import IncidentLog from "@/components/IncidentLog";
+import PlaybackBar from "@/components/PlaybackBar";
+import StatusCards from "@/components/StatusCards";
+import HistoryList from "@/components/HistoryList";
+import ExtraSensorsPanel from "@/components/ExtraSensorsPanel";
+import VehicleDynamicsPanel from "@/components/VehicleDynamicsPanel";
+import DataQualityPanel from "@/components/DataQualityPanel";
+import { usePlayback } from "@/hooks/use-playback";
+import type { SessionFrame } from "@/lib/playback";
+import SafetyScoreBreakdown from "@/components/SafetyScoreBreakdown";
+import CommandPanel from "@/components/CommandPanel";
+import { useVehicleCommands } from "@/hooks/use-vehicle-commands";
+import { useAuth } from "@/hooks/use-auth";
+import { REQUIRED_ROLES } from "@/lib/auth";
+import {
+  useTelemetrySession,
+  type TelemetrySession,
+} from "@/hooks/use-telemetry-session";
+import { useTelemetryStore } from "@/hooks/use-telemetry-store";
+import type {
+  HistoricalEntry,
+  TelemetrySnapshot,
+  TelemetryStore,
+} from "@/lib/telemetry-store";
+import type { ExportEntry } from "@/lib/telemetry-export";
+import { useStoredFrames, type HistoryRange } from "@/hooks/use-trip-storage";
+import { DEFAULT_VEHICLE_ID } from "@shared/api";
+
+// Stored ranges can hold thousands of frames; only this many rows are rendered
+const MAX_STORED_ROWS = 200;
+const NO_RECORDING: SessionFrame[] = [];
+
+const HISTORY_PRESETS: { label: string; durationMs: number }[] = [
+  { label: "15 min", durationMs: 15 * 60 * 1000 },
+  { label: "1 hour", durationMs: 60 * 60 * 1000 },
+  { label: "24 hours", durationMs: 24 * 60 * 60 * 1000 },
+];
+
+// Evenly spaced subset that always keeps the first and last entry
+const sampleEntries = <T,>(entries: T[], max: number): T[] => {
+  if (entries.length <= max) return entries;
+  const step = (entries.length - 1) / (max - 1);
+  return Array.from({ length: max }, (_, i) => entries[Math.round(i * step)]);
+};
 
-interface DashboardData {
-  eyeDrowsy?: boolean | null;
-  steerInactive?: boolean | null;
-  rpm?: string | number | null;
-  rolloverDetected?: boolean | null;
-  speed?: number | null;
-}
+const toDateTimeInput = (timestamp: number) => {
+  const date = new Date(timestamp - new Date().getTimezoneOffset() * 60000);
+  return date.toISOString().slice(0, 16);
+};
 
-interface HistoricalEntry {
-  timestamp: number;
-  data: DashboardData;
-}
+// The sections below subscribe to their own slice of the store, so a frame
+// re-renders only the parts of the page it changed
+
+const SessionStatus = ({
+  store,
+  replayPosition,
+  sourceLabel,
+}: {
+  store: TelemetryStore;
+  replayPosition: number | null;
+  sourceLabel: string | null;
+}) => {
+  const connection = useTelemetryStore(store, (state) => state.connection);
+  const usingFallback = useTelemetryStore(
+    store,
+    (state) => state.usingFallback,
+  );
+  const lastUpdate = useTelemetryStore(store, (state) =>
+    state.lastUpdate === null
+      ? "Never"
+      : new Date(state.lastUpdate).toLocaleTimeString(),
+  );
+  const malformedFrames = useTelemetryStore(
+    store,
+    (state) => state.quality.malformedFrames,
+  );
 
-const API_URL =
-  import.meta.env.VITE_API_URL ||
-  "https://esp32-server-sage.vercel.app/dashboard/stream";
-const MAX_HISTORY_ENTRIES = 50;
-const HISTORY_ADD_INTERVAL = 3000;
-const CONNECTION_TIMEOUT = 5000;
-
-// Fallback data when server is not responding
-const FALLBACK_DATA: DashboardData = {
-  eyeDrowsy: false,
-  steerInactive: false,
-  rpm: "0",
-  rolloverDetected: false,
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <ConnectionIndicator
+        state={connection?.state ?? "connecting"}
+        since={connection?.disconnectedSince}
+      >
+        {connection?.state === "backoff" &&
+          ` (attempt ${connection.retryCount})`}
+        {usingFallback && " • Fallback"}
+      </ConnectionIndicator>
+      {replayPosition !== null && (
+        <span className="text-xs font-bold uppercase bg-purple-600 text-white px-2 py-0.5 rounded">
+          Replay • {new Date(replayPosition).toLocaleTimeString()}
+        </span>
+      )}
+      {sourceLabel && (
+        <span className="text-xs font-medium bg-purple-900/50 text-purple-200 px-2 py-0.5 rounded">
+          {sourceLabel}
+        </span>
+      )}
+      <p className="text-xs text-slate-500">Last update: {lastUpdate}</p>
+      {malformedFrames > 0 && (
+        <p className="text-xs text-amber-400">
+          {malformedFrames} malformed frame
+          {malformedFrames === 1 ? "" : "s"}
+        </p>
+      )}
+    </div>
+  );
 };
 
-// RPM to km/h: 0.0158 factor accounts for 6cm wheel radius + 30% mechanical loss
-const rpmToKmh = (rpm: number | string | null): number | null => {
-  if (rpm === null || rpm === undefined) return null;
-  const rpmNum = typeof rpm === "string" ? parseFloat(rpm) : rpm;
-  return isNaN(rpmNum) ? null : Math.round(rpmNum * 0.0158);
+const SafetyScoreSection = ({
+  store,
+  reportUrl,
+}: {
+  store: TelemetryStore;
+  reportUrl: string;
+}) => {
+  const safetyScore = useTelemetryStore(store, (state) => state.score);
+  if (!safetyScore) return null;
+
+  return (
+    <div className="mb-8 sm:mb-12">
+      <div className="flex items-center justify-between gap-3 mb-4 sm:mb-6">
+        <h2 className="text-xl sm:text-2xl font-bold flex items-center gap-2">
+          <ShieldCheck className="w-6 h-6" />
+          Safety Score
+        </h2>
+        <Link
+          to={reportUrl}
+          target="_blank"
+          className="px-3 py-1 rounded border border-slate-600 text-slate-300 text-sm flex items-center gap-1"
+        >
+          <Printer className="w-4 h-4" />
+          Session report
+        </Link>
+      </div>
+      <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-4 flex flex-col sm:flex-row items-center gap-6">
+        <div className="text-center">
+          <SafetyScoreGauge score={safetyScore.score} className="w-48" />
+          <p className="text-xs text-slate-400">
+            This session • {formatDuration(safetyScore.monitoredMs)} monitored
+          </p>
+        </div>
+        <SafetyScoreBreakdown
+          penalties={safetyScore.penalties}
+          className="text-slate-200 flex-1"
+        />
+      </div>
+    </div>
+  );
 };
 
-export default function Dashboard() {
-  const [currentData, setCurrentData] = useState<DashboardData | null>(null);
-  const [history, setHistory] = useState<HistoricalEntry[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [isConnected, setIsConnected] = useState(false);
-  const [usingFallback, setUsingFallback] = useState(false);
-  const [lastUpdate, setLastUpdate] = useState<string>("Never");
-  const eventSourceRef = useRef<EventSource | null>(null);
-  const lastHistoryAddRef = useRef<number>(0);
-  const connectionEstablishedRef = useRef<boolean>(false);
-
-  // Check if data is valid and not empty
-  const isValidData = (data: DashboardData): boolean => {
-    return (
-      data.speed != null ||
-      data.rpm != null ||
-      data.eyeDrowsy != null ||
-      data.steerInactive != null ||
-      data.rolloverDetected != null
-    );
-  };
+const TrendsSection = ({
+  store,
+  rules,
+  speedUnit,
+  calibration,
+}: {
+  store: TelemetryStore;
+  rules: AlertRule[];
+  speedUnit: SpeedUnit;
+  calibration: CalibrationProfile;
+}) => {
+  const chartFrames = useTelemetryStore(store, (state) => state.chartFrames);
+  if (chartFrames.length <= 1) return null;
 
-  const updateData = (data: DashboardData, isFromFallback: boolean = false) => {
-    const calculatedSpeed = rpmToKmh(data.rpm);
-    const dataWithSpeed = { ...data, speed: calculatedSpeed };
-
-    setCurrentData(dataWithSpeed);
-    setLoading(false);
-    setLastUpdate(new Date().toLocaleTimeString());
-
-    // Add to history only if data is valid and NOT from fallback
-    if (isValidData(data) && !isFromFallback) {
-      const now = Date.now();
-      if (now - lastHistoryAddRef.current >= HISTORY_ADD_INTERVAL) {
-        setHistory((prev) => {
-          const updated = [...prev, { timestamp: now, data: dataWithSpeed }];
-          return updated.length > MAX_HISTORY_ENTRIES ? updated.slice(1) : updated;
-        });
-        lastHistoryAddRef.current = now;
-      }
+  return (
+    <div className="mb-8 sm:mb-12">
+      <h2 className="text-xl sm:text-2xl font-bold mb-4 sm:mb-6 flex items-center gap-2">
+        <LineChart className="w-6 h-6" />
+        Trends
+      </h2>
+      <TelemetryCharts
+        frames={chartFrames}
+        speedThresholds={getSpeedThresholds(rules)}
+        speedUnit={speedUnit}
+        calibration={calibration}
+      />
+    </div>
+  );
+};
+
+const MapSection = ({ store }: { store: TelemetryStore }) => {
+  const chartFrames = useTelemetryStore(store, (state) => state.chartFrames);
+  const incidents = useTelemetryStore(store, (state) => state.incidents);
+  const track = useMemo(() => extractTrack(chartFrames), [chartFrames]);
+  if (track.length === 0) return null;
+
+  return (
+    <div className="mb-8 sm:mb-12">
+      <h2 className="text-xl sm:text-2xl font-bold mb-4 sm:mb-6 flex items-center gap-2">
+        <MapIcon className="w-6 h-6" />
+        Route
+      </h2>
+      <TripMap track={track} events={incidents} />
+    </div>
+  );
+};
+
+const RejectedValues = ({ store }: { store: TelemetryStore }) => {
+  const quality = useTelemetryStore(store, (state) => state.quality);
+  return quality.malformedFrames > 0 ? (
+    <DataQualityPanel quality={quality} />
+  ) : null;
+};
+
+const HistorySection = ({
+  session,
+  rules,
+  context,
+}: {
+  session: TelemetrySession;
+  rules: AlertRule[];
+  context: MetricContext;
+}) => {
+  const { store, isOwnFrame } = session;
+  const history = useTelemetryStore(store, (state) => state.history);
+  const incidents = useTelemetryStore(store, (state) => state.incidents);
+  // null shows the live in-memory list, otherwise frames are read from storage
+  const [historyRange, setHistoryRange] = useState<HistoryRange | null>(null);
+  const storedFrames = useStoredFrames(historyRange);
+
+  const storedHistory = useMemo(() => {
+    const frames = (storedFrames.data ?? []).filter(isOwnFrame);
+    // Stored ranges hold every frame, so durations and cooldowns can be replayed exactly
+    const alerts = evaluateFrames(rules, frames);
+    return frames.map((stored, i) => ({
+      timestamp: stored.timestamp,
+      data: stored.frame,
+      alerts: alerts[i],
+    }));
+  }, [storedFrames.data, rules, isOwnFrame]);
+
+  const storedIncidents = useMemo(
+    () => detectIncidents((storedFrames.data ?? []).filter(isOwnFrame)),
+    [storedFrames.data, isOwnFrame],
+  );
+  const displayedIncidents = historyRange ? storedIncidents : incidents;
+
+  const displayedHistory: HistoricalEntry[] = useMemo(
+    () =>
+      historyRange ? sampleEntries(storedHistory, MAX_STORED_ROWS) : history,
+    [historyRange, storedHistory, history],
+  );
+
+  // Everything received since the page was opened, or the selected range in full
+  const loadExportEntries = async (): Promise<ExportEntry[]> => {
+    if (historyRange) {
+      return storedHistory.map(({ timestamp, data, alerts }) => ({
+        timestamp,
+        frame: data,
+        alerts,
+      }));
     }
+    const frames = await session.getSessionFrames();
+    const alerts = evaluateFrames(rules, frames);
+    return frames.map(({ timestamp, frame }, i) => ({
+      timestamp,
+      frame,
+      alerts: alerts[i],
+    }));
   };
 
-  useEffect(() => {
-    let isMounted = true;
-    let fallbackTimeout: NodeJS.Timeout;
-
-    const connectSSE = () => {
-      try {
-        const eventSource = new EventSource(API_URL);
+  if (history.length === 0 && !historyRange) return null;
 
-        eventSource.onopen = () => {
-          if (isMounted) {
-            connectionEstablishedRef.current = true;
-            setIsConnected(true);
-            setUsingFallback(false);
-            if (fallbackTimeout) clearTimeout(fallbackTimeout);
-          }
-        };
-
-        eventSource.onmessage = (event) => {
-          if (!isMounted) return;
-          try {
-            const data = JSON.parse(event.data);
-            // Only update if we received actual data from the API (not empty)
-            if (data && typeof data === 'object' && Object.keys(data).length > 0) {
-              // Check if all fields are empty/null
-              if (!isValidData(data)) {
-                // All fields are empty, switch to fallback state
-                if (isMounted) {
-                  updateData(FALLBACK_DATA, true);
-                  setUsingFallback(true);
-                }
-              } else {
-                updateData(data, false);
+  return (
+    <div>
+      <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-3 mb-4 sm:mb-6">
+        <h2 className="text-xl sm:text-2xl font-bold flex items-center gap-2">
+          <CheckCircle className="w-6 h-6" />
+          Historical Data ({displayedHistory.length} entries)
+        </h2>
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <button
+            onClick={() => setHistoryRange(null)}
+            className={cn(
+              "px-3 py-1 rounded border",
+              !historyRange
+                ? "bg-blue-600 border-blue-500"
+                : "border-slate-600 text-slate-300",
+            )}
+          >
+            Live
+          </button>
+          {HISTORY_PRESETS.map((preset) => (
+            <button
+              key={preset.label}
+              onClick={() =>
+                setHistoryRange({
+                  kind: "preset",
+                  durationMs: preset.durationMs,
+                })
               }
-            }
-          } catch (err) {
-            console.error("Failed to parse message:", err);
-          }
-        };
-
-        eventSource.onerror = () => {
-          if (isMounted) {
-            setIsConnected(false);
-            setUsingFallback(true);
-            updateData(FALLBACK_DATA, true);
-            eventSource.close();
+              className={cn(
+                "px-3 py-1 rounded border",
+                historyRange?.kind === "preset" &&
+                  historyRange.durationMs === preset.durationMs
+                  ? "bg-blue-600 border-blue-500"
+                  : "border-slate-600 text-slate-300",
+              )}
+            >
+              {preset.label}
+            </button>
+          ))}
+          <button
+            onClick={() => {
+              const to = Date.now();
+              setHistoryRange({
+                kind: "custom",
+                from: to - 60 * 60 * 1000,
+                to,
+              });
+            }}
+            className={cn(
+              "px-3 py-1 rounded border",
+              historyRange?.kind === "custom"
+                ? "bg-blue-600 border-blue-500"
+                : "border-slate-600 text-slate-300",
+            )}
+          >
+            Custom
+          </button>
+          {historyRange?.kind === "custom" && (
+            <>
+              <input
+                type="datetime-local"
+                value={toDateTimeInput(historyRange.from)}
+                onChange={(e) => {
+                  const from = new Date(e.target.value).getTime();
+                  if (!isNaN(from)) setHistoryRange({ ...historyRange, from });
+                }}
+                className="bg-slate-800 border border-slate-600 rounded px-2 py-1 text-slate-200"
+              />
+              <span className="text-slate-500">to</span>
+              <input
+                type="datetime-local"
+                value={toDateTimeInput(historyRange.to)}
+                onChange={(e) => {
+                  const to = new Date(e.target.value).getTime();
+                  if (!isNaN(to)) setHistoryRange({ ...historyRange, to });
+                }}
+                className="bg-slate-800 border border-slate-600 rounded px-2 py-1 text-slate-200"
+              />
+            </>
+          )}
+          <ExportMenu
+            label={historyRange ? "range" : "session"}
+            loadEntries={loadExportEntries}
+          />
+        </div>
+      </div>
+
+      {historyRange && (
+        <p className="text-xs text-slate-500 mb-3">
+          {storedFrames.isLoading
+            ? "Loading stored frames…"
+            : storedFrames.isError
+              ? "Stored history is not available in this browser"
+              : `${storedFrames.data?.length ?? 0} stored frames in range` +
+                ((storedFrames.data?.length ?? 0) > MAX_STORED_ROWS
+                  ? `, showing ${MAX_STORED_ROWS} evenly spaced samples`
+                  : "")}
+        </p>
+      )}
+
+      <h3 className="text-sm font-semibold text-slate-300 mb-2">
+        Incidents ({displayedIncidents.length})
+      </h3>
+      <div className="mb-6">
+        <IncidentLog
+          incidents={displayedIncidents}
+          speedUnit={context.speedUnit}
+          showDate={!!historyRange}
+        />
+      </div>
+
+      <h3 className="text-sm font-semibold text-slate-300 mb-2">Samples</h3>
+      <HistoryList
+        entries={displayedHistory}
+        context={context}
+        showDate={!!historyRange}
+      />
+    </div>
+  );
+};
+
+interface DashboardProps {
+  /** Show only this vehicle's frames and use its alert rules; without one, the frames that carry no vehicle id */
+  vehicleId?: string;
+}
+
+export default function Dashboard({ vehicleId }: DashboardProps) {
+  const { settings: freshness, setSettings: setFreshness } =
+    useFreshnessSettings();
+  const { calibration, setCalibration, resetCalibration } =
+    useCalibration(vehicleId);
+  const { settings: appSettings } = useAppSettings();
+  const streamUrl = getStreamUrl(appSettings);
+  const { unit: speedUnit, setUnit: setSpeedUnit } = useSpeedUnit();
+  const { rules, setRules, resetRules } = useAlertRules(vehicleId);
+  const metricContext = useMemo(
+    () => ({ speedUnit, calibration }),
+    [speedUnit, calibration],
+  );
+  const { token, can } = useAuth();
+  // Frames of several vehicles would mix into one set of cards and trips
+  const scope = vehicleId ?? DEFAULT_VEHICLE_ID;
+  // Changing the stream in the settings or signing in again reconnects without a reload
+  const source = useMemo(() => {
+    const resolved = resolveTelemetrySource(window.location.search, streamUrl);
+    return withAccessToken(scopeToVehicle(resolved, scope), token);
+  }, [streamUrl, scope, token]);
+  const sourceLabel = describeTelemetrySource(source);
+  const session = useTelemetrySession({
+    source,
+    vehicleId: scope,
+    rules,
+    calibration,
+    freshness,
+    appSettings,
+  });
+  const { store } = session;
+  // A snapshot of the recording while replaying, null when showing live data
+  const [replayFrames, setReplayFrames] = useState<SessionFrame[] | null>(null);
+  const playback = usePlayback(replayFrames ?? NO_RECORDING);
+  const replaying = replayFrames !== null;
+  const replay: TelemetrySnapshot | null = useMemo(
+    () =>
+      replaying
+        ? {
+            readings: playback.readings,
+            now: playback.position,
+            alerts: playback.alerts,
           }
-        };
+        : null,
+    [replaying, playback.readings, playback.position, playback.alerts],
+  );
+  const canReplay = useTelemetryStore(store, (state) => state.frameCount >= 2);
+  const [showRules, setShowRules] = useState(false);
+  // Thresholds and calibration change what everyone sees
+  const canEditSettings = can(REQUIRED_ROLES.editSettings);
+  const activeAlerts = useTelemetryStore(store, (state) => state.alerts);
+  const alarms = useAlarms(activeAlerts);
+  const commands = useVehicleCommands(scope, getCommandUrl(appSettings));
 
-        eventSourceRef.current = eventSource;
-      } catch (err) {
-        if (isMounted) setIsConnected(false);
+  return (
+    <PageLayout
+      title={vehicleId ? `Vehicle ${vehicleId}` : "Vehicle Safety Dashboard"}
+      subtitle={
+        vehicleId
+          ? "Real-time monitoring • Fleet vehicle"
+          : "Real-time monitoring"
       }
-    };
-
-    // Fallback to default data if no connection within timeout
-    fallbackTimeout = setTimeout(() => {
-      if (isMounted && !connectionEstablishedRef.current) {
-        updateData(FALLBACK_DATA, true);
-        setUsingFallback(true);
-        setIsConnected(false);
+      footer={`Live updates every 500ms • Historical data every ${appSettings.historyAddIntervalMs / 1000} seconds • Last ${appSettings.maxHistoryEntries} entries kept live, every frame stored on this device`}
+      status={
+        <SessionStatus
+          store={store}
+          replayPosition={replaying ? playback.position : null}
+          sourceLabel={sourceLabel}
+        />
       }
-    }, CONNECTION_TIMEOUT);
-
-    connectSSE();
-
-    return () => {
-      isMounted = false;
-      clearTimeout(fallbackTimeout);
-      eventSourceRef.current?.close();
-    };
-  }, []);
-
-  const getSpeedStatus = (speed: number | null): "safe" | "warning" | "danger" => {
-    if (speed === null) return "safe";
-    if (speed > 120) return "danger";
-    if (speed > 80) return "warning";
-    return "safe";
-  };
+    >
+      {/* Current Status */}
+      <div className="mb-8 sm:mb-12">
+        <div className="flex items-center justify-between gap-3 mb-4 sm:mb-6">
+          <h2 className="text-xl sm:text-2xl font-bold flex items-center gap-2">
+            <Activity className="w-6 h-6" />
+            {replaying ? "Replayed Status" : "Current Status"}
+          </h2>
+          <div className="flex items-center gap-2">
+            {!replaying && (
+              <button
+                onClick={() => setReplayFrames(session.getRecording())}
+                disabled={!canReplay}
+                className="px-3 py-1 rounded border border-slate-600 text-slate-300 text-sm flex items-center gap-1 disabled:opacity-50"
+                title="Play back what the dashboard showed during this session"
+              >
+                <History className="w-4 h-4" />
+                Replay
+              </button>
+            )}
+            <button
+              onClick={() => alarms.setMuted(!alarms.muted)}
+              className="px-2 py-1 rounded border border-slate-600 text-slate-300"
+              aria-label={alarms.muted ? "Unmute alarms" : "Mute alarms"}
+              title={alarms.muted ? "Alarm sounds off" : "Alarm sounds on"}
+            >
+              {alarms.muted ? (
+                <VolumeX className="w-4 h-4" />
+              ) : (
+                <Volume2 className="w-4 h-4" />
+              )}
+            </button>
+            {alarms.permission && alarms.permission !== "granted" && (
+              <button
+                onClick={alarms.requestNotifications}
+                disabled={alarms.permission === "denied"}
+                className="px-3 py-1 rounded border border-slate-600 text-slate-300 text-sm flex items-center gap-1 disabled:opacity-50"
+                title={
+                  alarms.permission === "denied"
+                    ? "Notifications are blocked in the browser settings"
+                    : "Notify me while this tab is in the background"
+                }
+              >
+                {alarms.permission === "denied" ? (
+                  <BellOff className="w-4 h-4" />
+                ) : (
+                  <Bell className="w-4 h-4" />
+                )}
+                Notifications
+              </button>
+            )}
+            {canEditSettings && (
+              <button
+                onClick={() => setShowRules((prev) => !prev)}
+                className={cn(
+                  "px-3 py-1 rounded border text-sm flex items-center gap-1",
+                  showRules
+                    ? "bg-blue-600 border-blue-500"
+                    : "border-slate-600 text-slate-300",
+                )}
+              >
+                <SlidersHorizontal className="w-4 h-4" />
+                Settings
+              </button>
+            )}
+          </div>
+        </div>
 
-  const DataCard = ({
-    icon,
-    label,
-    value,
-    unit = "",
-    status,
-  }: {
-    icon: React.ReactNode;
-    label: string;
-    value: any;
-    unit?: string;
-    status?: "safe" | "warning" | "danger";
-  }) => {
-    const statusColors = {
-      safe: "border-green-200 bg-green-50",
-      warning: "border-yellow-200 bg-yellow-50",
-      danger: "border-red-200 bg-red-50",
-    };
-
-    const displayValue =
-      value === null || value === undefined ? "N/A" : String(value);
-
-    return (
-      <div
-        className={cn(
-          "rounded-lg border-2 p-4 sm:p-6 backdrop-blur-sm transition-all",
-          status ? statusColors[status] : "border-slate-200 bg-white"
+        {replaying && (
+          <PlaybackBar
+            playback={playback}
+            onExit={() => setReplayFrames(null)}
+          />
         )}
-      >
-        <div className="flex items-start justify-between">
-          <div>
-            <p className="text-sm text-slate-600 font-medium">{label}</p>
-            <p className="mt-2 text-2xl sm:text-3xl font-bold text-slate-900">
-              {displayValue}
-              {unit && <span className="text-lg ml-1">{unit}</span>}
-            </p>
+
+        {showRules && canEditSettings && (
+          <div className="mb-6 space-y-4">
+            <FreshnessSettingsPanel
+              settings={freshness}
+              onChange={setFreshness}
+            />
+            <CalibrationPanel
+              calibration={calibration}
+              onSave={setCalibration}
+              onReset={resetCalibration}
+              speedUnit={speedUnit}
+              onSpeedUnitChange={setSpeedUnit}
+            />
+            <AlertRulesPanel
+              rules={rules}
+              onSave={setRules}
+              onReset={resetRules}
+              speedUnit={speedUnit}
+            />
+            <Link
+              to={`/settings${vehicleId ? `?${new URLSearchParams({ vehicleId })}` : ""}`}
+              className="inline-block text-sm text-blue-400 hover:underline"
+            >
+              Endpoints, history and profiles are on the Settings page
+            </Link>
           </div>
-          <div className="text-slate-400">{icon}</div>
-        </div>
+        )}
+
+        <StatusCards
+          store={store}
+          replay={replay}
+          staleAfterMs={freshness.staleAfterMs}
+          context={metricContext}
+        />
       </div>
-    );
-  };
 
-  return (
-    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 text-white">
-      {/* Header */}
-      <header className="border-b border-slate-700 bg-slate-900/50 backdrop-blur-md sticky top-0 z-10">
-        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 sm:py-6">
-          <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
-            <div className="flex items-center gap-3">
-              <div className="w-10 h-10 sm:w-12 sm:h-12 bg-gradient-to-br from-blue-400 to-blue-600 rounded-lg flex items-center justify-center">
-                <Smartphone className="w-6 h-6 sm:w-7 sm:h-7" />
-              </div>
-              <div>
-                <h1 className="text-2xl sm:text-3xl font-bold">Vehicle Safety Dashboard</h1>
-                <p className="text-slate-400 text-xs sm:text-sm mt-1">Real-time monitoring</p>
-              </div>
-            </div>
-            <div className="flex flex-col items-end gap-1">
-              <div className="flex items-center gap-2">
-                <div
-                  className={cn(
-                    "w-2 h-2 rounded-full animate-pulse",
-                    isConnected ? "bg-green-500" : usingFallback ? "bg-orange-500" : "bg-red-500"
-                  )}
-                />
-                <span className="text-sm text-slate-400">
-                  {isConnected ? "Live" : usingFallback ? "Fallback" : "Offline"}
-                </span>
-              </div>
-              <p className="text-xs text-slate-500">Last update: {lastUpdate}</p>
+      {/* Vehicle Commands */}
+      {commands.available &&
+        source.kind === "stream" &&
+        can(REQUIRED_ROLES.sendCommands) && (
+          <div className="mb-8 sm:mb-12">
+            <h2 className="text-xl sm:text-2xl font-bold mb-4 sm:mb-6 flex items-center gap-2">
+              <Send className="w-6 h-6" />
+              Vehicle Commands
+            </h2>
+            <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-4">
+              <CommandPanel commands={commands} alerts={activeAlerts} />
             </div>
           </div>
-        </div>
-      </header>
-
-      {/* Main Content */}
-      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8">
-        {/* Current Status */}
-        <div className="mb-8 sm:mb-12">
-          <h2 className="text-xl sm:text-2xl font-bold mb-4 sm:mb-6 flex items-center gap-2">
-            <Activity className="w-6 h-6" />
-            Current Status
-          </h2>
+        )}
 
-          {loading && !currentData ? (
-            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6">
-              {[1, 2, 3, 4].map((i) => (
-                <div key={i} className="h-32 bg-slate-700 rounded-lg animate-pulse" />
-              ))}
-            </div>
-          ) : currentData ? (
-            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6">
-              <DataCard
-                icon={<Gauge className="w-6 h-6" />}
-                label="Vehicle Speed"
-                value={currentData.speed ?? "N/A"}
-                unit={typeof currentData.speed === "number" ? "km/h" : ""}
-                status={getSpeedStatus(currentData.speed ?? null)}
-              />
+      <SafetyScoreSection
+        store={store}
+        reportUrl={`/report?${new URLSearchParams({
+          from: String(session.sessionStart),
+          ...(vehicleId && { vehicleId }),
+        })}`}
+      />
 
-              <DataCard
-                icon={<Eye className="w-6 h-6" />}
-                label="Driver Drowsiness"
-                value={
-                  currentData.eyeDrowsy === null || currentData.eyeDrowsy === undefined
-                    ? "Unknown"
-                    : currentData.eyeDrowsy
-                      ? "Drowsy"
-                      : "Alert"
-                }
-                status={
-                  currentData.eyeDrowsy === true
-                    ? "danger"
-                    : currentData.eyeDrowsy === false
-                      ? "safe"
-                      : undefined
-                }
-              />
+      <VehicleDynamicsPanel
+        store={store}
+        replay={replay}
+        staleAfterMs={freshness.staleAfterMs}
+      />
 
-              <DataCard
-                icon={<Activity className="w-6 h-6" />}
-                label="Steering Status"
-                value={
-                  currentData.steerInactive === null || currentData.steerInactive === undefined
-                    ? "Unknown"
-                    : currentData.steerInactive
-                      ? "Inactive"
-                      : "Active"
-                }
-                status={
-                  currentData.steerInactive === true
-                    ? "warning"
-                    : currentData.steerInactive === false
-                      ? "safe"
-                      : undefined
-                }
-              />
+      <ExtraSensorsPanel store={store} staleAfterMs={freshness.staleAfterMs} />
 
-              <DataCard
-                icon={<AlertTriangle className="w-6 h-6" />}
-                label="Rollover Detection"
-                value={
-                  currentData.rolloverDetected === null || currentData.rolloverDetected === undefined
-                    ? "Unknown"
-                    : currentData.rolloverDetected
-                      ? "Detected"
-                      : "Normal"
-                }
-                status={
-                  currentData.rolloverDetected === true
-                    ? "danger"
-                    : currentData.rolloverDetected === false
-                      ? "safe"
-                      : undefined
-                }
-              />
+      <TrendsSection
+        store={store}
+        rules={rules}
+        speedUnit={speedUnit}
+        calibration={calibration}
+      />
 
-              {currentData.rpm !== null && currentData.rpm !== undefined && (
-                <DataCard
-                  icon={<Zap className="w-6 h-6" />}
-                  label="Engine RPM"
-                  value={currentData.rpm}
-                  unit="RPM"
-                />
-              )}
-            </div>
-          ) : (
-            <div className="bg-slate-700/30 border border-slate-600 rounded-lg p-8 text-center">
-              <AlertCircle className="w-12 h-12 text-slate-400 mx-auto mb-3" />
-              <p className="text-slate-400">No data available</p>
-            </div>
-          )}
-        </div>
+      <MapSection store={store} />
 
-        {/* Historical Data */}
-        {history.length > 0 && (
-          <div>
-            <h2 className="text-xl sm:text-2xl font-bold mb-4 sm:mb-6 flex items-center gap-2">
-              <CheckCircle className="w-6 h-6" />
-              Historical Data ({history.length} entries)
-            </h2>
+      <RejectedValues store={store} />
 
-            <div className="space-y-3 max-h-96 overflow-y-auto">
-              {history
-                .slice()
-                .reverse()
-                .map((entry, idx) => (
-                  <div
-                    key={idx}
-                    className="bg-slate-800/50 border border-slate-700 rounded-lg p-3 sm:p-4"
-                  >
-                    <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3">
-                      <p className="text-xs sm:text-sm text-slate-400 font-mono">
-                        {new Date(entry.timestamp).toLocaleTimeString()}
-                      </p>
-                      <div className="flex flex-wrap gap-2 text-xs">
-                        {entry.data.speed !== null && entry.data.speed !== undefined && (
-                          <span className="bg-blue-900/50 text-blue-200 px-2 py-1 rounded">
-                            Speed: {entry.data.speed} km/h
-                          </span>
-                        )}
-                        {entry.data.eyeDrowsy !== null && entry.data.eyeDrowsy !== undefined && (
-                          <span
-                            className={cn(
-                              "px-2 py-1 rounded",
-                              entry.data.eyeDrowsy
-                                ? "bg-red-900/50 text-red-200"
-                                : "bg-green-900/50 text-green-200"
-                            )}
-                          >
-                            {entry.data.eyeDrowsy ? "Drowsy" : "Alert"}
-                          </span>
-                        )}
-                        {entry.data.steerInactive !== null &&
-                          entry.data.steerInactive !== undefined && (
-                            <span
-                              className={cn(
-                                "px-2 py-1 rounded",
-                                entry.data.steerInactive
-                                  ? "bg-yellow-900/50 text-yellow-200"
-                                  : "bg-green-900/50 text-green-200"
-                              )}
-                            >
-                              {entry.data.steerInactive ? "Steering Inactive" : "Steering Active"}
-                            </span>
-                          )}
-                        {entry.data.rolloverDetected === true && (
-                          <span className="bg-red-900/50 text-red-200 px-2 py-1 rounded font-semibold">
-                            ⚠️ Rollover!
-                          </span>
-                        )}
-                      </div>
-                    </div>
-                  </div>
-                ))}
-            </div>
-          </div>
-        )}
-      </main>
-
-      {/* Footer */}
-      <footer className="border-t border-slate-700 bg-slate-900/50 mt-8 sm:mt-12">
-        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8 text-center text-sm text-slate-400">
-          <p>Vehicle Safety Monitoring System</p>
-          <p className="mt-2 text-xs text-slate-500">
-            Live updates every 500ms • Historical data every 3 seconds • Last 50 entries kept
-          </p>
-        </div>
-      </footer>
-    </div>
+      <HistorySection session={session} rules={rules} context={metricContext} />
+    </PageLayout>
   );
 }
@@ -0,0 +1,77 @@
+import type { ReactNode } from "react";
+import { cn } from "@/lib/utils";
+import type { Freshness } from "@/lib/freshness";
+import type { StatusLevel } from "@/lib/telemetry";
+import { formatDuration } from "@/lib/trip-summary";
+
+export const STATUS_COLORS: Record<StatusLevel, string> = {
+  safe: "border-green-200 bg-green-50",
+  warning: "border-yellow-200 bg-yellow-50",
+  danger: "border-red-200 bg-red-50",
+};
+
+export interface DataCardProps {
+  icon: ReactNode;
+  label: string;
+  value: ReactNode;
+  unit?: string;
+  status?: StatusLevel;
+  /** Live cards only; stale and unknown values are greyed out */
+  freshness?: Freshness;
+  /** Age of the value, shown for stale cards */
+  ageMs?: number | null;
+}
+
+export default function DataCard({
+  icon,
+  label,
+  value,
+  unit = "",
+  status,
+  freshness = "fresh",
+  ageMs = null,
+}: DataCardProps) {
+  const displayValue = value === null || value === undefined ? "N/A" : value;
+  // A stale or unknown value says nothing about the current state, so it
+  // never gets a status color
+  const muted = freshness !== "fresh";
+
+  return (
+    <div
+      className={cn(
+        "rounded-lg border-2 p-4 sm:p-6 backdrop-blur-sm transition-all",
+        muted
+          ? "border-dashed border-slate-400 bg-slate-300"
+          : status
+            ? STATUS_COLORS[status]
+            : "border-slate-200 bg-white",
+      )}
+    >
+      <div className="flex items-start justify-between">
+        <div>
+          <p className="text-sm text-slate-600 font-medium">{label}</p>
+          <p
+            className={cn(
+              "mt-2 text-2xl sm:text-3xl font-bold",
+              muted ? "text-slate-500" : "text-slate-900",
+            )}
+          >
+            {displayValue}
+            {unit && <span className="text-lg ml-1">{unit}</span>}
+          </p>
+          {freshness === "stale" && (
+            <p className="text-xs text-slate-600 mt-1">
+              Stale • {formatDuration(ageMs ?? 0)} ago
+            </p>
+          )}
+          {freshness === "unknown" && (
+            <p className="text-xs text-slate-600 mt-1">
+              {ageMs !== null ? "Reported unavailable" : "No data received"}
+            </p>
+          )}
+        </div>
+        <div className="text-slate-400">{icon}</div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import { FileWarning } from "lucide-react";
+import type { DataQuality } from "@/lib/telemetry-store";
+
+/** Per-field counts of rejected sensor values and the last rejection */
+export default function DataQualityPanel({
+  quality,
+}: {
+  quality: DataQuality;
+}) {
+  return (
+    <div className="mb-8 sm:mb-12 bg-amber-900/20 border border-amber-700/50 rounded-lg p-4">
+      <h2 className="text-sm font-semibold text-amber-200 flex items-center gap-2">
+        <FileWarning className="w-4 h-4" />
+        Rejected sensor values
+      </h2>
+      <div className="mt-3 flex flex-wrap gap-2 text-xs">
+        {Object.entries(quality.fieldErrors).map(([field, count]) => (
+          <span
+            key={field}
+            className="bg-amber-900/50 text-amber-200 px-2 py-1 rounded font-mono"
+          >
+            {field}: {count}
+          </span>
+        ))}
+      </div>
+      {quality.lastError && (
+        <p className="mt-3 text-xs text-amber-300/80">
+          Last: <span className="font-mono">{quality.lastError.field}</span> —{" "}
+          {quality.lastError.message} (got{" "}
+          <span className="font-mono">
+            {JSON.stringify(quality.lastError.value)?.slice(0, 80)}
+          </span>
+          )
+        </p>
+      )}
+    </div>
+  );
+}
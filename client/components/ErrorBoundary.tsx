@@ -0,0 +1,30 @@
+import { Component, type ErrorInfo, type ReactNode } from "react";
+
+interface ErrorBoundaryProps {
+  /** Shown instead of `children` once they failed to render */
+  fallback: ReactNode;
+  children: ReactNode;
+}
+
+/**
+ * Keeps a failing part of a page, such as a lazy chunk that cannot be
+ * loaded offline, from taking the whole page down.
+ */
+export default class ErrorBoundary extends Component<
+  ErrorBoundaryProps,
+  { failed: boolean }
+> {
+  state = { failed: false };
+
+  static getDerivedStateFromError() {
+    return { failed: true };
+  }
+
+  componentDidCatch(error: Error, info: ErrorInfo) {
+    console.error("Failed to render:", error, info.componentStack);
+  }
+
+  render() {
+    return this.state.failed ? this.props.fallback : this.props.children;
+  }
+}
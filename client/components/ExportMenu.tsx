@@ -0,0 +1,70 @@
+import { useState } from "react";
+import { Download } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/hooks/use-auth";
+import { REQUIRED_ROLES } from "@/lib/auth";
+import {
+  downloadEntries,
+  EXPORT_FORMATS,
+  exportFileName,
+  type ExportEntry,
+  type ExportFormat,
+} from "@/lib/telemetry-export";
+
+interface ExportMenuProps {
+  /** Part of the file name, e.g. `session` or a trip id */
+  label: string;
+  /** Called on click so large ranges are only read when needed */
+  loadEntries: () => ExportEntry[] | Promise<ExportEntry[]>;
+}
+
+/** Download menu; only supervisors may take data off the dashboard */
+export default function ExportMenu({ label, loadEntries }: ExportMenuProps) {
+  const { can } = useAuth();
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [busy, setBusy] = useState(false);
+
+  const download = async () => {
+    setBusy(true);
+    try {
+      const entries = await loadEntries();
+      if (entries.length === 0) {
+        toast.warning("Nothing to export yet");
+        return;
+      }
+      downloadEntries(entries, format, exportFileName(label, format));
+    } catch (err) {
+      console.error("Export failed:", err);
+      toast.error("Export failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!can(REQUIRED_ROLES.exportData)) return null;
+
+  return (
+    <div className="flex items-center gap-1 text-sm">
+      <select
+        value={format}
+        onChange={(e) => setFormat(e.target.value as ExportFormat)}
+        className="bg-slate-900 border border-slate-600 rounded px-2 py-1 text-slate-100"
+        aria-label="Export format"
+      >
+        {EXPORT_FORMATS.map((option) => (
+          <option key={option} value={option}>
+            {option.toUpperCase()}
+          </option>
+        ))}
+      </select>
+      <button
+        onClick={download}
+        disabled={busy}
+        className="px-3 py-1 rounded border border-slate-600 text-slate-300 flex items-center gap-1 disabled:opacity-50"
+      >
+        <Download className="w-4 h-4" />
+        Export
+      </button>
+    </div>
+  );
+}
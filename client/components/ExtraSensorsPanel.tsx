@@ -0,0 +1,79 @@
+import { Cpu } from "lucide-react";
+import type { TelemetryState, TelemetryStore } from "@/lib/telemetry-store";
+import { cn } from "@/lib/utils";
+import { useTelemetryStore } from "@/hooks/use-telemetry-store";
+
+interface ExtraSensor {
+  name: string;
+  value: unknown;
+  stale: boolean;
+}
+
+const selectSensors = (
+  state: TelemetryState,
+  staleAfterMs: number,
+): ExtraSensor[] =>
+  Object.entries(state.extras)
+    .map(([name, reading]) => ({
+      name,
+      value: reading.value,
+      stale: state.now - reading.receivedAt > staleAfterMs,
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+const sameSensors = (a: ExtraSensor[], b: ExtraSensor[]) =>
+  a.length === b.length &&
+  a.every(
+    (sensor, i) =>
+      sensor.name === b[i].name &&
+      sensor.value === b[i].value &&
+      sensor.stale === b[i].stale,
+  );
+
+const formatValue = (value: unknown) =>
+  value === null ? "Unavailable" : String(value);
+
+/**
+ * Fields a device sends that the dashboard has no metric for, shown as
+ * received so new sensors are visible before they get a card.
+ */
+export default function ExtraSensorsPanel({
+  store,
+  staleAfterMs,
+}: {
+  store: TelemetryStore;
+  staleAfterMs: number;
+}) {
+  const sensors = useTelemetryStore(
+    store,
+    (state) => selectSensors(state, staleAfterMs),
+    sameSensors,
+  );
+  if (sensors.length === 0) return null;
+
+  return (
+    <div className="mb-8 sm:mb-12">
+      <h2 className="text-xl sm:text-2xl font-bold mb-4 sm:mb-6 flex items-center gap-2">
+        <Cpu className="w-6 h-6" />
+        Extra Sensors
+      </h2>
+      <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-4 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-x-6 gap-y-2 text-sm">
+        {sensors.map(({ name, value, stale }) => (
+          <div
+            key={name}
+            className={cn(
+              "flex items-baseline justify-between gap-3 border-b border-slate-700/60 py-1",
+              stale && "opacity-50",
+            )}
+            title={stale ? "No recent value" : undefined}
+          >
+            <span className="font-mono text-slate-400 truncate">{name}</span>
+            <span className="font-mono text-slate-100 truncate">
+              {formatValue(value)}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import type { FreshnessSettings } from "@/lib/freshness";
+
+interface FreshnessSettingsPanelProps {
+  settings: FreshnessSettings;
+  onChange: (settings: FreshnessSettings) => void;
+}
+
+export default function FreshnessSettingsPanel({
+  settings,
+  onChange,
+}: FreshnessSettingsPanelProps) {
+  return (
+    <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-4 flex flex-wrap items-center gap-6 text-sm">
+      <label className="flex items-center gap-2 text-slate-300">
+        Mark values stale after
+        <input
+          type="number"
+          min={0.5}
+          step={0.5}
+          value={settings.staleAfterMs / 1000}
+          onChange={(e) => {
+            const seconds = Number(e.target.value);
+            if (seconds >= 0.5) {
+              onChange({ ...settings, staleAfterMs: seconds * 1000 });
+            }
+          }}
+          className="bg-slate-900 border border-slate-600 rounded px-2 py-1 text-slate-100 w-20"
+        />
+        s
+      </label>
+      <label className="flex items-center gap-2 text-slate-300">
+        <input
+          type="checkbox"
+          checked={settings.fallbackMode}
+          onChange={(e) =>
+            onChange({ ...settings, fallbackMode: e.target.checked })
+          }
+        />
+        Fallback mode
+        <span className="text-xs text-slate-500">
+          show placeholder safe values while disconnected
+        </span>
+      </label>
+    </div>
+  );
+}
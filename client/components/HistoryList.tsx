@@ -0,0 +1,85 @@
+import { memo } from "react";
+import { highestSeverity } from "@/lib/alert-rules";
+import type { HistoricalEntry } from "@/lib/telemetry-store";
+import {
+  formatMetric,
+  HISTORY_FIELDS,
+  METRICS,
+  type MetricContext,
+} from "@/lib/metrics";
+import { cn } from "@/lib/utils";
+
+const SEVERITY_BORDERS = {
+  warning: "border-yellow-500/60",
+  danger: "border-red-500/60",
+};
+
+interface HistoryListProps {
+  /** Oldest first; shown newest first */
+  entries: HistoricalEntry[];
+  context: MetricContext;
+  /** Stored ranges can span days, live entries are from today */
+  showDate?: boolean;
+}
+
+function HistoryList({ entries, context, showDate = false }: HistoryListProps) {
+  return (
+    <div className="space-y-3 max-h-96 overflow-y-auto">
+      {entries
+        .slice()
+        .reverse()
+        .map((entry) => {
+          const severity = highestSeverity(entry.alerts);
+          return (
+            <div
+              key={entry.timestamp}
+              className={cn(
+                "bg-slate-800/50 border rounded-lg p-3 sm:p-4",
+                severity ? SEVERITY_BORDERS[severity] : "border-slate-700",
+              )}
+            >
+              <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3">
+                <div>
+                  <p className="text-xs sm:text-sm text-slate-400 font-mono">
+                    {showDate
+                      ? new Date(entry.timestamp).toLocaleString()
+                      : new Date(entry.timestamp).toLocaleTimeString()}
+                  </p>
+                  {entry.alerts.length > 0 && (
+                    <p
+                      className={cn(
+                        "text-xs mt-1",
+                        severity === "danger"
+                          ? "text-red-300"
+                          : "text-yellow-300",
+                      )}
+                    >
+                      {entry.alerts.map((alert) => alert.name).join(" • ")}
+                    </p>
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-2 text-xs">
+                  {HISTORY_FIELDS.map((field) => {
+                    const value = entry.data[field];
+                    const { history } = METRICS[field];
+                    if (value === null || value === undefined) return null;
+                    if (history.show && !history.show(value)) return null;
+                    return (
+                      <span
+                        key={field}
+                        className={cn("px-2 py-1 rounded", history.className)}
+                      >
+                        {history.label}: {formatMetric(field, value, context)}
+                      </span>
+                    );
+                  })}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+    </div>
+  );
+}
+
+export default memo(HistoryList);
@@ -0,0 +1,71 @@
+import { STATUS_COLORS } from "@/components/DataCard";
+import type { Incident } from "@/lib/incidents";
+import {
+  formatDuration,
+  TRIP_EVENT_LABELS,
+  TRIP_EVENT_STATUS,
+} from "@/lib/trip-summary";
+import { formatSpeed, type SpeedUnit } from "@/lib/units";
+import { cn } from "@/lib/utils";
+
+interface IncidentLogProps {
+  incidents: Incident[];
+  speedUnit: SpeedUnit;
+  /** Show dates as well as times, for ranges longer than a day */
+  showDate?: boolean;
+}
+
+/** Incidents, newest first */
+export default function IncidentLog({
+  incidents,
+  speedUnit,
+  showDate = false,
+}: IncidentLogProps) {
+  const formatTime = (timestamp: number) =>
+    showDate
+      ? new Date(timestamp).toLocaleString()
+      : new Date(timestamp).toLocaleTimeString();
+
+  if (incidents.length === 0) {
+    return <p className="text-sm text-slate-400">No incidents.</p>;
+  }
+
+  return (
+    <ol className="space-y-2 max-h-80 overflow-y-auto">
+      {incidents
+        .slice()
+        .reverse()
+        .map((incident) => (
+          <li
+            key={incident.id}
+            className={cn(
+              "rounded-lg border-2 px-3 py-2 text-slate-900 flex flex-wrap items-center justify-between gap-2",
+              STATUS_COLORS[TRIP_EVENT_STATUS[incident.type]],
+            )}
+          >
+            <div className="flex items-center gap-2">
+              <p className="font-semibold">
+                {TRIP_EVENT_LABELS[incident.type]}
+              </p>
+              {incident.end === null && (
+                <span className="text-xs font-semibold uppercase bg-slate-900 text-white px-1.5 py-0.5 rounded animate-pulse">
+                  Ongoing
+                </span>
+              )}
+            </div>
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-slate-700 font-mono">
+              <span>
+                {formatTime(incident.start)}
+                {incident.end !== null && ` – ${formatTime(incident.end)}`}
+              </span>
+              <span>{formatDuration(incident.durationMs)}</span>
+              <span>peak {formatSpeed(incident.peakSpeed, speedUnit)}</span>
+              {incident.peakG !== undefined && (
+                <span>{incident.peakG.toFixed(2)} g</span>
+              )}
+            </div>
+          </li>
+        ))}
+    </ol>
+  );
+}
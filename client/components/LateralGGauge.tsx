@@ -0,0 +1,95 @@
+import { HARSH_EVENT_THRESHOLDS } from "@/lib/imu";
+
+// Half circle from -1 g (left) to +1 g (right) in a 100×60 box
+const RADIUS = 40;
+const CENTER = { x: 50, y: 50 };
+const MAX_G = 1;
+const ARC_PATH = `M 10 50 A ${RADIUS} ${RADIUS} 0 0 1 90 50`;
+
+// Point on the arc for a lateral g, clamped to the scale
+const arcPoint = (g: number, radius = RADIUS) => {
+  const clamped = Math.max(-MAX_G, Math.min(MAX_G, g));
+  const angle = (clamped / MAX_G) * (Math.PI / 2);
+  return {
+    x: CENTER.x + radius * Math.sin(angle),
+    y: CENTER.y - radius * Math.cos(angle),
+  };
+};
+
+const cornering = HARSH_EVENT_THRESHOLDS.harshCornering;
+
+/** Needle gauge of the lateral (Y) acceleration; harsh cornering is red */
+export default function LateralGGauge({
+  g,
+  className,
+}: {
+  /** `null` while unknown */
+  g: number | null;
+  className?: string;
+}) {
+  const needle = arcPoint(g ?? 0, RADIUS - 6);
+  const band = (from: number, to: number) => {
+    const start = arcPoint(from);
+    const end = arcPoint(to);
+    return `M ${start.x} ${start.y} A ${RADIUS} ${RADIUS} 0 0 1 ${end.x} ${end.y}`;
+  };
+
+  return (
+    <svg
+      viewBox="0 0 100 60"
+      className={className}
+      role="img"
+      aria-label={g === null ? "Lateral g unknown" : `Lateral ${g} g`}
+    >
+      <path
+        d={ARC_PATH}
+        fill="none"
+        stroke="currentColor"
+        strokeOpacity={0.15}
+        strokeWidth={6}
+      />
+      <path
+        d={band(-MAX_G, -cornering)}
+        fill="none"
+        stroke="#ef4444"
+        strokeOpacity={0.6}
+        strokeWidth={6}
+      />
+      <path
+        d={band(cornering, MAX_G)}
+        fill="none"
+        stroke="#ef4444"
+        strokeOpacity={0.6}
+        strokeWidth={6}
+      />
+      {g !== null && (
+        <line
+          x1={CENTER.x}
+          y1={CENTER.y}
+          x2={needle.x}
+          y2={needle.y}
+          stroke="currentColor"
+          strokeWidth={2.5}
+          strokeLinecap="round"
+        />
+      )}
+      <circle cx={CENTER.x} cy={CENTER.y} r={3} fill="currentColor" />
+      <text x={10} y={59} textAnchor="middle" fontSize={7} fill="currentColor">
+        L
+      </text>
+      <text x={90} y={59} textAnchor="middle" fontSize={7} fill="currentColor">
+        R
+      </text>
+      <text
+        x={50}
+        y={36}
+        textAnchor="middle"
+        fontSize={11}
+        fontWeight="bold"
+        fill="currentColor"
+      >
+        {g === null ? "–" : `${Math.abs(g).toFixed(2)} g`}
+      </text>
+    </svg>
+  );
+}
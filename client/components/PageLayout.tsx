@@ -0,0 +1,124 @@
+import type { ReactNode } from "react";
+import { NavLink } from "react-router-dom";
+import { LogOut, Smartphone, UserRound, WifiOff } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useOnlineStatus } from "@/hooks/use-online-status";
+import { REQUIRED_ROLES } from "@/lib/auth";
+import { cn } from "@/lib/utils";
+import type { UserRole } from "@shared/api";
+
+const NAV_LINKS: { to: string; label: string; role: UserRole }[] = [
+  { to: "/", label: "Dashboard", role: REQUIRED_ROLES.viewData },
+  { to: "/fleet", label: "Fleet", role: REQUIRED_ROLES.viewData },
+  { to: "/trips", label: "Trips", role: REQUIRED_ROLES.viewData },
+  { to: "/settings", label: "Settings", role: REQUIRED_ROLES.editSettings },
+];
+
+interface PageLayoutProps {
+  title: string;
+  subtitle: string;
+  /** Right-hand side of the header, e.g. the connection indicator */
+  status?: ReactNode;
+  footer?: ReactNode;
+  children: ReactNode;
+}
+
+export default function PageLayout({
+  title,
+  subtitle,
+  status,
+  footer,
+  children,
+}: PageLayoutProps) {
+  const { offlineSince } = useOnlineStatus();
+  const { user, can, logout } = useAuth();
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 text-white print:bg-none print:bg-white">
+      {/* Header */}
+      <header className="border-b border-slate-700 bg-slate-900/50 backdrop-blur-md sticky top-0 z-10 print:hidden">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 sm:py-6">
+          <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 sm:w-12 sm:h-12 bg-gradient-to-br from-blue-400 to-blue-600 rounded-lg flex items-center justify-center">
+                <Smartphone className="w-6 h-6 sm:w-7 sm:h-7" />
+              </div>
+              <div>
+                <h1 className="text-2xl sm:text-3xl font-bold">{title}</h1>
+                <p className="text-slate-400 text-xs sm:text-sm mt-1">
+                  {subtitle}
+                </p>
+              </div>
+            </div>
+            <div className="flex flex-col sm:items-end gap-2">
+              <nav className="flex flex-wrap items-center gap-1 text-sm">
+                {NAV_LINKS.filter((link) => can(link.role)).map((link) => (
+                  <NavLink
+                    key={link.to}
+                    to={link.to}
+                    end={link.to === "/"}
+                    className={({ isActive }) =>
+                      cn(
+                        "px-3 py-1 rounded",
+                        isActive
+                          ? "bg-slate-700 text-white"
+                          : "text-slate-400 hover:text-white",
+                      )
+                    }
+                  >
+                    {link.label}
+                  </NavLink>
+                ))}
+                {user && (
+                  <span className="ml-2 pl-3 border-l border-slate-700 flex items-center gap-2 text-slate-400">
+                    <UserRound className="w-4 h-4" />
+                    <span>
+                      {user.name}{" "}
+                      <span className="text-xs text-slate-500">
+                        ({user.role})
+                      </span>
+                    </span>
+                    <button
+                      onClick={logout}
+                      className="px-2 py-1 rounded hover:text-white flex items-center gap-1"
+                      title="Sign out"
+                    >
+                      <LogOut className="w-4 h-4" />
+                      <span className="sr-only sm:not-sr-only">Sign out</span>
+                    </button>
+                  </span>
+                )}
+              </nav>
+              {status}
+            </div>
+          </div>
+        </div>
+        {offlineSince !== null && (
+          <div className="bg-red-950/80 border-t border-red-800 text-red-100 text-sm">
+            <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex items-center gap-2">
+              <WifiOff className="w-4 h-4 shrink-0" />
+              <span>
+                Offline since {new Date(offlineSince).toLocaleTimeString()}.
+                Showing data saved on this device; live data resumes when the
+                network is back.
+              </span>
+            </div>
+          </div>
+        )}
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8">
+        {children}
+      </main>
+
+      {/* Footer */}
+      <footer className="border-t border-slate-700 bg-slate-900/50 mt-8 sm:mt-12 print:hidden">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8 text-center text-sm text-slate-400">
+          <p>Vehicle Safety Monitoring System</p>
+          {footer && <p className="mt-2 text-xs text-slate-500">{footer}</p>}
+        </div>
+      </footer>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import { Pause, Play, SkipForward, X } from "lucide-react";
+import type { Playback } from "@/hooks/use-playback";
+import { PLAYBACK_SPEEDS } from "@/lib/playback";
+import { formatDuration } from "@/lib/trip-summary";
+
+interface PlaybackBarProps {
+  playback: Playback;
+  onExit: () => void;
+}
+
+export default function PlaybackBar({ playback, onExit }: PlaybackBarProps) {
+  const {
+    position,
+    playing,
+    speed,
+    start,
+    end,
+    nextIncident,
+    play,
+    pause,
+    seek,
+    setSpeed,
+  } = playback;
+
+  return (
+    <div className="bg-purple-950/60 border border-purple-700 rounded-lg p-3 mb-6 flex flex-wrap items-center gap-3 text-sm">
+      <span className="text-xs font-bold uppercase tracking-wide bg-purple-600 text-white px-2 py-0.5 rounded">
+        Replay
+      </span>
+      <button
+        onClick={playing ? pause : play}
+        className="p-1.5 rounded bg-purple-700 hover:bg-purple-600"
+        aria-label={playing ? "Pause" : "Play"}
+      >
+        {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+      </button>
+      <input
+        type="range"
+        min={start}
+        max={end}
+        step={100}
+        value={position}
+        onChange={(e) => seek(Number(e.target.value))}
+        className="flex-1 min-w-40 accent-purple-500"
+        aria-label="Playback position"
+      />
+      <span className="font-mono text-xs text-purple-100">
+        {new Date(position).toLocaleTimeString()} •{" "}
+        {formatDuration(position - start)} / {formatDuration(end - start)}
+      </span>
+      <select
+        value={speed}
+        onChange={(e) => setSpeed(Number(e.target.value))}
+        className="bg-slate-900 border border-purple-700 rounded px-2 py-1 text-xs"
+        aria-label="Playback speed"
+      >
+        {PLAYBACK_SPEEDS.map((option) => (
+          <option key={option} value={option}>
+            {option}x
+          </option>
+        ))}
+      </select>
+      <button
+        onClick={() => seek(nextIncident)}
+        disabled={nextIncident === null}
+        className="px-2 py-1 rounded border border-purple-700 text-xs flex items-center gap-1 disabled:opacity-50"
+      >
+        <SkipForward className="w-3 h-3" /> Next incident
+      </button>
+      <button
+        onClick={onExit}
+        className="px-2 py-1 rounded border border-purple-700 text-xs flex items-center gap-1"
+      >
+        <X className="w-3 h-3" /> Back to live
+      </button>
+    </div>
+  );
+}
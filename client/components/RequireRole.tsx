@@ -0,0 +1,46 @@
+import type { ReactNode } from "react";
+import { Link, Navigate, Outlet, useLocation } from "react-router-dom";
+import { ShieldAlert } from "lucide-react";
+import PageLayout from "@/components/PageLayout";
+import { useAuth } from "@/hooks/use-auth";
+import type { UserRole } from "@shared/api";
+
+/**
+ * Route guard: sends signed-out visitors to the login page, which brings
+ * them back afterwards, and tells signed-in users without `role` so.
+ * Renders the nested routes when used as a layout route.
+ */
+export default function RequireRole({
+  role,
+  children,
+}: {
+  role: UserRole;
+  children?: ReactNode;
+}) {
+  const { status, user, can } = useAuth();
+  const location = useLocation();
+
+  if (status === "checking") {
+    return <div className="min-h-screen bg-slate-900" aria-busy="true" />;
+  }
+  if (status === "signedOut") {
+    return <Navigate to="/login" replace state={{ from: location }} />;
+  }
+  if (!can(role)) {
+    return (
+      <PageLayout title="Access denied" subtitle={location.pathname}>
+        <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-8 text-center">
+          <ShieldAlert className="w-10 h-10 mx-auto mb-3 text-yellow-400" />
+          <p className="text-slate-200">
+            This page needs the {role} role; {user?.name} is signed in as{" "}
+            {user?.role}.
+          </p>
+          <Link to="/" className="inline-block mt-4 text-blue-400 underline">
+            Back to the dashboard
+          </Link>
+        </div>
+      </PageLayout>
+    );
+  }
+  return <>{children ?? <Outlet />}</>;
+}
@@ -0,0 +1,56 @@
+import {
+  PENALTY_LABELS,
+  PENALTY_RATES,
+  type Penalty,
+} from "@/lib/safety-score";
+import { formatDuration } from "@/lib/trip-summary";
+import { cn } from "@/lib/utils";
+
+interface SafetyScoreBreakdownProps {
+  penalties: Penalty[];
+  className?: string;
+}
+
+const formatAmount = ({ type, amount }: Penalty) =>
+  PENALTY_RATES[type].per === "minute" ? formatDuration(amount) : `${amount}×`;
+
+const formatRate = ({ type }: Penalty) => {
+  const { per, points } = PENALTY_RATES[type];
+  return per === "minute" ? `${points} pts/min` : `${points} pts each`;
+};
+
+/** Penalty table shared by the live dashboard and the printed report */
+export default function SafetyScoreBreakdown({
+  penalties,
+  className,
+}: SafetyScoreBreakdownProps) {
+  return (
+    <table className={cn("w-full text-sm", className)}>
+      <thead>
+        <tr className="text-left text-xs opacity-70">
+          <th className="font-medium py-1">Penalty</th>
+          <th className="font-medium py-1 text-right">Measured</th>
+          <th className="font-medium py-1 text-right">Rate</th>
+          <th className="font-medium py-1 text-right">Points</th>
+        </tr>
+      </thead>
+      <tbody>
+        {penalties.map((penalty) => (
+          <tr
+            key={penalty.type}
+            className={cn(penalty.points === 0 && "opacity-50")}
+          >
+            <td className="py-1">{PENALTY_LABELS[penalty.type]}</td>
+            <td className="py-1 text-right font-mono">
+              {formatAmount(penalty)}
+            </td>
+            <td className="py-1 text-right text-xs">{formatRate(penalty)}</td>
+            <td className="py-1 text-right font-mono font-semibold">
+              {penalty.points > 0 ? `−${penalty.points}` : "0"}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
@@ -0,0 +1,66 @@
+import { getScoreStatus } from "@/lib/safety-score";
+import type { StatusLevel } from "@/lib/telemetry";
+
+const ARC_COLORS: Record<StatusLevel, string> = {
+  safe: "#22c55e",
+  warning: "#eab308",
+  danger: "#ef4444",
+};
+
+// Half circle of radius 40 in a 100×56 box; the arc is drawn with a dash
+const RADIUS = 40;
+const ARC_LENGTH = Math.PI * RADIUS;
+const ARC_PATH = `M 10 50 A ${RADIUS} ${RADIUS} 0 0 1 90 50`;
+
+interface SafetyScoreGaugeProps {
+  /** `null` while there is nothing to score yet */
+  score: number | null;
+  className?: string;
+}
+
+export default function SafetyScoreGauge({
+  score,
+  className,
+}: SafetyScoreGaugeProps) {
+  const filled = score === null ? 0 : (score / 100) * ARC_LENGTH;
+
+  return (
+    <svg
+      viewBox="0 0 100 56"
+      className={className}
+      role="img"
+      aria-label={
+        score === null ? "No safety score yet" : `Safety score ${score}`
+      }
+    >
+      <path
+        d={ARC_PATH}
+        fill="none"
+        stroke="currentColor"
+        strokeOpacity={0.15}
+        strokeWidth={8}
+        strokeLinecap="round"
+      />
+      {score !== null && score > 0 && (
+        <path
+          d={ARC_PATH}
+          fill="none"
+          stroke={ARC_COLORS[getScoreStatus(score)]}
+          strokeWidth={8}
+          strokeLinecap="round"
+          strokeDasharray={`${filled} ${ARC_LENGTH}`}
+        />
+      )}
+      <text
+        x={50}
+        y={48}
+        textAnchor="middle"
+        fontSize={20}
+        fontWeight="bold"
+        fill="currentColor"
+      >
+        {score ?? "–"}
+      </text>
+    </svg>
+  );
+}
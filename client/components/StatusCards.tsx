@@ -0,0 +1,165 @@
+import { memo } from "react";
+import DataCard from "@/components/DataCard";
+import type { ActiveAlert } from "@/lib/alert-rules";
+import type { Freshness } from "@/lib/freshness";
+import { CARD_FIELDS, METRICS, type MetricContext } from "@/lib/metrics";
+import type { StatusLevel } from "@/lib/telemetry";
+import {
+  selectFieldState,
+  type TelemetrySnapshot,
+  type TelemetryStore,
+} from "@/lib/telemetry-store";
+import { cn } from "@/lib/utils";
+import { shallowEqual, useTelemetryStore } from "@/hooks/use-telemetry-store";
+import type { TelemetryField } from "@shared/api";
+
+interface CardState {
+  value: unknown;
+  freshness: Freshness;
+  ageMs: number | null;
+  status: StatusLevel | undefined;
+}
+
+// Only what the card shows: fresh ages are hidden and stale ones are shown
+// in whole seconds, so the clock alone does not re-render every card
+function selectCard(
+  snapshot: TelemetrySnapshot,
+  field: TelemetryField,
+  staleAfterMs: number,
+): CardState {
+  const state = selectFieldState(snapshot, field, staleAfterMs);
+  const alerts = snapshot.alerts.filter((alert) => alert.target === field);
+  return {
+    value: state.value,
+    freshness: state.freshness,
+    ageMs:
+      state.ageMs === null
+        ? null
+        : state.freshness === "stale"
+          ? Math.round(state.ageMs / 1000) * 1000
+          : 0,
+    status:
+      state.freshness === "fresh"
+        ? METRICS[field].status(state.value, alerts)
+        : undefined,
+  };
+}
+
+interface StatusCardsProps {
+  store: TelemetryStore;
+  /** The replayed moment, shown instead of the live state */
+  replay: TelemetrySnapshot | null;
+  staleAfterMs: number;
+  context: MetricContext;
+}
+
+const FieldCard = memo(function FieldCard({
+  field,
+  store,
+  replay,
+  staleAfterMs,
+  context,
+}: StatusCardsProps & { field: TelemetryField }) {
+  const metric = METRICS[field];
+  const live = useTelemetryStore(
+    store,
+    (state) => (replay ? null : selectCard(state, field, staleAfterMs)),
+    shallowEqual,
+  );
+  const { value, freshness, ageMs, status } =
+    live ?? selectCard(replay, field, staleAfterMs);
+  if (metric.card === "received" && ageMs === null) return null;
+  const Icon = metric.icon;
+
+  return (
+    <DataCard
+      icon={<Icon className="w-6 h-6" />}
+      label={metric.label}
+      // Numbers without a value read N/A, flags read Unknown
+      value={
+        value === null
+          ? metric.unit(context)
+            ? "N/A"
+            : "Unknown"
+          : metric.format(value, context)
+      }
+      unit={value !== null ? metric.unit(context) : ""}
+      freshness={freshness}
+      ageMs={ageMs}
+      status={status}
+    />
+  );
+});
+
+const sameChips = (a: AlertChip[], b: AlertChip[]) =>
+  a.length === b.length &&
+  a.every((chip, i) => chip.alert === b[i].alert && chip.stale === b[i].stale);
+
+interface AlertChip {
+  alert: ActiveAlert;
+  stale: boolean;
+}
+
+const selectChips = (
+  snapshot: TelemetrySnapshot,
+  staleAfterMs: number,
+): AlertChip[] =>
+  snapshot.alerts.map((alert) => ({
+    alert,
+    // Alerts are kept while data is missing, but flagged as unconfirmed
+    stale:
+      selectFieldState(snapshot, alert.target, staleAfterMs).freshness !==
+      "fresh",
+  }));
+
+/**
+ * Active alerts and one card per metric. Every card subscribes to its own
+ * field, so a frame only re-renders the cards whose values it changed.
+ */
+export default function StatusCards(props: StatusCardsProps) {
+  const { store, replay, staleAfterMs } = props;
+  const loading = useTelemetryStore(store, (state) => !replay && state.loading);
+  const liveChips = useTelemetryStore(
+    store,
+    (state) => (replay ? null : selectChips(state, staleAfterMs)),
+    (a, b) => a === b || (a && b && sameChips(a, b)),
+  );
+  const chips = liveChips ?? selectChips(replay, staleAfterMs);
+
+  return (
+    <>
+      {chips.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-4 text-xs">
+          {chips.map(({ alert, stale }) => (
+            <span
+              key={alert.ruleId}
+              className={cn(
+                "px-2 py-1 rounded font-semibold",
+                alert.severity === "danger"
+                  ? "bg-red-900/60 text-red-200"
+                  : "bg-yellow-900/60 text-yellow-200",
+                stale && "opacity-60",
+              )}
+            >
+              {alert.name}
+              {stale && " • no current data"}
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6">
+        {loading
+          ? [1, 2, 3, 4].map((i) => (
+              <div
+                key={i}
+                className="h-32 bg-slate-700 rounded-lg animate-pulse"
+              />
+            ))
+          : CARD_FIELDS.map((field) => (
+              <FieldCard key={field} field={field} {...props} />
+            ))}
+      </div>
+    </>
+  );
+}
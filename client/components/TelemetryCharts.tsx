@@ -0,0 +1,247 @@
+import { useMemo, useState } from "react";
+import {
+  Brush,
+  CartesianGrid,
+  Line,
+  LineChart,
+  ReferenceArea,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import {
+  DEFAULT_CALIBRATION,
+  type CalibrationProfile,
+} from "@/lib/calibration";
+import { downsampleLttb } from "@/lib/downsample";
+import { CHART_FIELDS, chartValue, METRICS } from "@/lib/metrics";
+import { SPEED_DANGER_KMH, SPEED_WARNING_KMH } from "@/lib/telemetry";
+import type { StoredFrame } from "@/lib/trip-storage";
+import {
+  summarizeTrip,
+  TRIP_EVENT_COLORS,
+  TRIP_EVENT_LABELS,
+  type TripEventType,
+} from "@/lib/trip-summary";
+import { fromKmh, type SpeedUnit } from "@/lib/units";
+import { cn } from "@/lib/utils";
+import type { TelemetryField } from "@shared/api";
+
+const WINDOWS = [
+  { label: "1 min", ms: 60 * 1000 },
+  { label: "5 min", ms: 5 * 60 * 1000 },
+  { label: "15 min", ms: 15 * 60 * 1000 },
+  { label: "1 hour", ms: 60 * 60 * 1000 },
+];
+
+// Enough points to look smooth at full width without choking the renderer
+const MAX_CHART_POINTS = 400;
+
+type ChartPoint = { timestamp: number } & Partial<
+  Record<TelemetryField, number | null>
+>;
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString();
+
+const axisProps = {
+  stroke: "#64748b",
+  tick: { fill: "#94a3b8", fontSize: 11 },
+};
+
+const tooltipProps = {
+  contentStyle: { background: "#0f172a", border: "1px solid #334155" },
+  labelFormatter: (value: number) => formatTime(value),
+};
+
+interface TelemetryChartsProps {
+  /** Every received frame, oldest first */
+  frames: StoredFrame[];
+  /** Speed bands to shade in km/h; `null` hides a band */
+  speedThresholds?: { warning: number | null; danger: number | null };
+  speedUnit?: SpeedUnit;
+  calibration?: CalibrationProfile;
+}
+
+export default function TelemetryCharts({
+  frames,
+  speedThresholds = { warning: SPEED_WARNING_KMH, danger: SPEED_DANGER_KMH },
+  speedUnit = "kmh",
+  calibration = DEFAULT_CALIBRATION,
+}: TelemetryChartsProps) {
+  const warning = fromKmh(speedThresholds.warning, speedUnit);
+  const danger = fromKmh(speedThresholds.danger, speedUnit);
+  const [windowMs, setWindowMs] = useState(WINDOWS[1].ms);
+  // Controlled so the zoomed range survives live data updates
+  const [brush, setBrush] = useState<{
+    startIndex: number;
+    endIndex: number;
+  } | null>(null);
+
+  const { points, events, fields } = useMemo(() => {
+    const context = { speedUnit, calibration };
+    const latest = frames[frames.length - 1]?.timestamp ?? Date.now();
+    const from = latest - windowMs;
+    const visible = frames.filter((entry) => entry.timestamp >= from);
+    const all: ChartPoint[] = visible.map(({ timestamp, frame }) => {
+      const point: ChartPoint = { timestamp };
+      CHART_FIELDS.forEach((field) => {
+        point[field] = chartValue(field, frame, context);
+      });
+      return point;
+    });
+
+    return {
+      // Channels a device does not send get no empty chart
+      fields: CHART_FIELDS.filter(
+        (field) =>
+          METRICS[field].chart.always ||
+          all.some((point) => point[field] !== null),
+      ),
+      points: downsampleLttb(
+        all,
+        MAX_CHART_POINTS,
+        (point) => point.timestamp,
+        (point) => point.rpm ?? 0,
+      ),
+      // Markers come from the full-resolution frames so short events survive
+      events: summarizeTrip(visible, calibration).events,
+    };
+  }, [frames, windowMs, speedUnit, calibration]);
+
+  const eventAreas = events.map((event) => (
+    <ReferenceArea
+      key={`${event.type}-${event.start}`}
+      x1={event.start}
+      x2={Math.max(event.end, event.start + 500)}
+      fill={TRIP_EVENT_COLORS[event.type]}
+      fillOpacity={0.25}
+      ifOverflow="hidden"
+    />
+  ));
+
+  return (
+    <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-4">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div className="flex flex-wrap gap-3 text-xs text-slate-400">
+          {(Object.keys(TRIP_EVENT_COLORS) as TripEventType[]).map((type) => (
+            <span key={type} className="flex items-center gap-1">
+              <span
+                className="w-3 h-3 rounded-sm"
+                style={{ background: TRIP_EVENT_COLORS[type] }}
+              />
+              {TRIP_EVENT_LABELS[type]}
+            </span>
+          ))}
+        </div>
+        <div className="flex gap-2 text-xs">
+          {WINDOWS.map((option) => (
+            <button
+              key={option.ms}
+              onClick={() => {
+                setWindowMs(option.ms);
+                setBrush(null);
+              }}
+              className={cn(
+                "px-3 py-1 rounded border",
+                windowMs === option.ms
+                  ? "bg-blue-600 border-blue-500"
+                  : "border-slate-600 text-slate-300",
+              )}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {fields.map((field, index) => {
+        const { chart } = METRICS[field];
+        const last = index === fields.length - 1;
+        return (
+          <div key={field}>
+            <p
+              className={cn("text-sm text-slate-400 mb-1", index > 0 && "mt-4")}
+            >
+              {chart.title({ speedUnit, calibration })}
+            </p>
+            {/* The last chart carries the range brush, which needs room */}
+            <ResponsiveContainer width="100%" height={last ? 260 : 220}>
+              <LineChart data={points} syncId="telemetry">
+                <CartesianGrid stroke="#334155" strokeDasharray="3 3" />
+                <XAxis
+                  dataKey="timestamp"
+                  type="number"
+                  domain={["dataMin", "dataMax"]}
+                  tickFormatter={formatTime}
+                  {...axisProps}
+                />
+                {field === "speed" ? (
+                  <YAxis
+                    {...axisProps}
+                    width={40}
+                    domain={[
+                      0,
+                      (max: number) =>
+                        Math.max(max, (danger ?? warning ?? 0) + 20),
+                    ]}
+                  />
+                ) : (
+                  <YAxis {...axisProps} width={40} />
+                )}
+                {field === "speed" && warning !== null && (
+                  <ReferenceArea
+                    y1={warning}
+                    y2={danger ?? undefined}
+                    fill="#facc15"
+                    fillOpacity={0.08}
+                    ifOverflow="hidden"
+                  />
+                )}
+                {field === "speed" && danger !== null && (
+                  <ReferenceArea
+                    y1={danger}
+                    fill="#ef4444"
+                    fillOpacity={0.08}
+                    ifOverflow="hidden"
+                  />
+                )}
+                {eventAreas}
+                <Tooltip {...tooltipProps} />
+                <Line
+                  dataKey={field}
+                  stroke={chart.color}
+                  strokeWidth={2}
+                  dot={false}
+                  isAnimationActive={false}
+                  connectNulls={false}
+                />
+                {last && (
+                  <Brush
+                    dataKey="timestamp"
+                    height={24}
+                    stroke="#64748b"
+                    fill="#0f172a"
+                    tickFormatter={formatTime}
+                    {...(brush && {
+                      startIndex: Math.min(brush.startIndex, points.length - 1),
+                      endIndex: Math.min(brush.endIndex, points.length - 1),
+                    })}
+                    onChange={({ startIndex, endIndex }) =>
+                      setBrush(
+                        startIndex === 0 && endIndex === points.length - 1
+                          ? null
+                          : { startIndex, endIndex },
+                      )
+                    }
+                  />
+                )}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
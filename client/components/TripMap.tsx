@@ -0,0 +1,194 @@
+import { useMemo } from "react";
+import {
+  createProjection,
+  positionAt,
+  trackDistanceKm,
+  type TrackPoint,
+} from "@/lib/geo";
+import {
+  TRIP_EVENT_COLORS,
+  TRIP_EVENT_LABELS,
+  type TripEvent,
+  type TripEventType,
+} from "@/lib/trip-summary";
+import { cn } from "@/lib/utils";
+
+const SIZE = { width: 600, height: 360, padding: 24 };
+
+// A day of 2 Hz positions is far more than an SVG path needs
+const MAX_MAP_POINTS = 1000;
+
+// Evenly spaced subset that always keeps the first and last point
+const samplePoints = (track: TrackPoint[]) => {
+  if (track.length <= MAX_MAP_POINTS) return track;
+  const step = (track.length - 1) / (MAX_MAP_POINTS - 1);
+  return Array.from(
+    { length: MAX_MAP_POINTS },
+    (_, i) => track[Math.round(i * step)],
+  );
+};
+
+// Longest 1/2/5 × 10^n km that fits in a quarter of the map
+const scaleBar = (kmPerUnit: number) => {
+  const target = (SIZE.width / 4) * kmPerUnit;
+  const power = 10 ** Math.floor(Math.log10(target));
+  const km = [5, 2, 1].map((step) => step * power).find((km) => km <= target);
+  return {
+    length: km / kmPerUnit,
+    label: km >= 1 ? `${km} km` : `${Math.round(km * 1000)} m`,
+  };
+};
+
+const formatDistance = (km: number) =>
+  km >= 10 ? `${km.toFixed(0)} km` : `${km.toFixed(1)} km`;
+
+/**
+ * Trip trace drawn from the frames' own coordinates, with a pin where each
+ * event started. Needs no map tiles, so it works offline.
+ */
+export default function TripMap({
+  track,
+  events,
+  className,
+}: {
+  /** Ordered by timestamp, at least one point */
+  track: TrackPoint[];
+  events: Pick<TripEvent, "type" | "start">[];
+  className?: string;
+}) {
+  const map = useMemo(() => {
+    const projection = createProjection(track, SIZE);
+    const toPoint = ({ latitude, longitude }: TrackPoint) =>
+      projection.project(latitude, longitude);
+    const path = samplePoints(track)
+      .map((point, i) => {
+        const [x, y] = toPoint(point);
+        return `${i === 0 ? "M" : "L"}${x.toFixed(1)},${y.toFixed(1)}`;
+      })
+      .join(" ");
+    const pins = events.flatMap((event) => {
+      const position = positionAt(track, event.start);
+      return position ? [{ ...event, point: toPoint(position) }] : [];
+    });
+    const last = track[track.length - 1];
+
+    return {
+      path,
+      pins,
+      start: toPoint(track[0]),
+      end: toPoint(last),
+      heading: last.heading,
+      scale: scaleBar(projection.kmPerUnit),
+      distanceKm: trackDistanceKm(track),
+    };
+  }, [track, events]);
+
+  const [endX, endY] = map.end;
+
+  return (
+    <div
+      className={cn(
+        "bg-slate-800/50 border border-slate-700 rounded-lg p-4",
+        className,
+      )}
+    >
+      <svg
+        viewBox={`0 0 ${SIZE.width} ${SIZE.height}`}
+        className="w-full h-auto bg-slate-900/60 rounded"
+        role="img"
+        aria-label="Trip trace"
+      >
+        <path
+          d={map.path}
+          fill="none"
+          stroke="#60a5fa"
+          strokeWidth={3}
+          strokeLinejoin="round"
+          strokeLinecap="round"
+        />
+        <circle
+          cx={map.start[0]}
+          cy={map.start[1]}
+          r={6}
+          fill="#34d399"
+          stroke="#0f172a"
+          strokeWidth={2}
+        >
+          <title>Start</title>
+        </circle>
+        {map.pins.map(({ type, start, point: [x, y] }) => (
+          <g key={`${type}-${start}`} transform={`translate(${x} ${y})`}>
+            <title>
+              {TRIP_EVENT_LABELS[type]} • {new Date(start).toLocaleString()}
+            </title>
+            <path
+              d="M0,0 L-7,-12 A8,8 0 1 1 7,-12 Z"
+              fill={TRIP_EVENT_COLORS[type]}
+              stroke="#0f172a"
+              strokeWidth={1.5}
+            />
+          </g>
+        ))}
+        {map.heading === null ? (
+          <circle
+            cx={endX}
+            cy={endY}
+            r={7}
+            fill="#f8fafc"
+            stroke="#0f172a"
+            strokeWidth={2}
+          >
+            <title>Last position</title>
+          </circle>
+        ) : (
+          <path
+            d="M0,-10 L7,8 L0,4 L-7,8 Z"
+            transform={`translate(${endX} ${endY}) rotate(${map.heading})`}
+            fill="#f8fafc"
+            stroke="#0f172a"
+            strokeWidth={1.5}
+          >
+            <title>Last position, heading {Math.round(map.heading)}°</title>
+          </path>
+        )}
+        <g transform={`translate(${SIZE.width - 28} 28)`} fill="#94a3b8">
+          <path d="M0,-14 L6,4 L0,0 L-6,4 Z" />
+          <text y={18} textAnchor="middle" fontSize={11}>
+            N
+          </text>
+        </g>
+        <g
+          transform={`translate(16 ${SIZE.height - 16})`}
+          stroke="#94a3b8"
+          fill="#94a3b8"
+        >
+          <path
+            d={`M0,-4 V0 H${map.scale.length} V-4`}
+            fill="none"
+            strokeWidth={1.5}
+          />
+          <text y={-8} fontSize={11} stroke="none">
+            {map.scale.label}
+          </text>
+        </g>
+      </svg>
+      <div className="mt-3 flex flex-wrap items-center justify-between gap-3 text-xs text-slate-400">
+        <span>
+          {formatDistance(map.distanceKm)} driven • {track.length} position
+          {track.length === 1 ? "" : "s"}
+        </span>
+        <div className="flex flex-wrap gap-3">
+          {(Object.keys(TRIP_EVENT_COLORS) as TripEventType[]).map((type) => (
+            <span key={type} className="flex items-center gap-1">
+              <span
+                className="w-3 h-3 rounded-full"
+                style={{ background: TRIP_EVENT_COLORS[type] }}
+              />
+              {TRIP_EVENT_LABELS[type]}
+            </span>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
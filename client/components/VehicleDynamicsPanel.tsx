@@ -0,0 +1,155 @@
+import { lazy, Suspense } from "react";
+import { Move3d } from "lucide-react";
+import ErrorBoundary from "@/components/ErrorBoundary";
+import LateralGGauge from "@/components/LateralGGauge";
+import { getAttitude, getRolloverRiskStatus, rolloverRisk } from "@/lib/imu";
+import type { StatusLevel } from "@/lib/telemetry";
+import {
+  selectFieldState,
+  type TelemetrySnapshot,
+  type TelemetryStore,
+} from "@/lib/telemetry-store";
+import { cn } from "@/lib/utils";
+import { shallowEqual, useTelemetryStore } from "@/hooks/use-telemetry-store";
+import type { TelemetryField, TelemetryFrame } from "@shared/api";
+
+const AttitudeIndicator = lazy(() => import("@/components/AttitudeIndicator"));
+
+const IMU_FIELDS: TelemetryField[] = [
+  "accelX",
+  "accelY",
+  "accelZ",
+  "roll",
+  "pitch",
+];
+
+const RISK_COLORS: Record<StatusLevel, string> = {
+  safe: "bg-green-500",
+  warning: "bg-yellow-500",
+  danger: "bg-red-500",
+};
+
+interface DynamicsState {
+  /** Whether any IMU field was ever received */
+  received: boolean;
+  risk: number | null;
+  lateralG: number | null;
+  roll: number | null;
+  pitch: number | null;
+}
+
+const round = (value: number | null | undefined, digits: number) =>
+  value === null || value === undefined ? null : Number(value.toFixed(digits));
+
+// Derived from fresh readings only; rounded so noise below what is shown
+// does not re-render
+function selectDynamics(
+  snapshot: TelemetrySnapshot,
+  staleAfterMs: number,
+): DynamicsState {
+  const frame: TelemetryFrame = {};
+  let received = false;
+  [...IMU_FIELDS, "rolloverDetected" as const].forEach((field) => {
+    const state = selectFieldState(snapshot, field, staleAfterMs);
+    if (state.ageMs !== null && field !== "rolloverDetected") received = true;
+    if (state.freshness === "fresh") {
+      (frame as Record<string, unknown>)[field] = state.value;
+    }
+  });
+  const attitude = getAttitude(frame);
+
+  return {
+    received,
+    risk: round(rolloverRisk(frame), 2),
+    lateralG: round(frame.accelY, 2),
+    roll: round(attitude?.roll, 1),
+    pitch: round(attitude?.pitch, 1),
+  };
+}
+
+/**
+ * Rollover risk, lateral g and attitude from the IMU channels. Hidden until
+ * the vehicle sends any of them.
+ */
+export default function VehicleDynamicsPanel({
+  store,
+  replay,
+  staleAfterMs,
+}: {
+  store: TelemetryStore;
+  /** The replayed moment, shown instead of the live state */
+  replay: TelemetrySnapshot | null;
+  staleAfterMs: number;
+}) {
+  const live = useTelemetryStore(
+    store,
+    (state) => (replay ? null : selectDynamics(state, staleAfterMs)),
+    shallowEqual,
+  );
+  const { received, risk, lateralG, roll, pitch } =
+    live ?? selectDynamics(replay, staleAfterMs);
+  if (!received) return null;
+
+  const riskStatus = getRolloverRiskStatus(risk);
+
+  return (
+    <div className="mb-8 sm:mb-12">
+      <h2 className="text-xl sm:text-2xl font-bold mb-4 sm:mb-6 flex items-center gap-2">
+        <Move3d className="w-6 h-6" />
+        Vehicle Dynamics
+      </h2>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 sm:gap-6">
+        <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-4">
+          <p className="text-sm text-slate-400 mb-3">Rollover risk</p>
+          <p className="text-3xl font-bold">
+            {risk === null ? "–" : `${Math.round(risk * 100)}%`}
+          </p>
+          <div className="mt-3 h-3 rounded-full bg-slate-700 overflow-hidden">
+            <div
+              className={cn(
+                "h-full rounded-full transition-all",
+                RISK_COLORS[riskStatus],
+              )}
+              style={{ width: `${(risk ?? 0) * 100}%` }}
+            />
+          </div>
+          <p className="mt-2 text-xs text-slate-500">
+            100% is the point where the inner wheels lift
+          </p>
+        </div>
+        <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-4">
+          <p className="text-sm text-slate-400 mb-1">Lateral g</p>
+          <LateralGGauge g={lateralG} className="w-full max-w-56 mx-auto" />
+        </div>
+        <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-4">
+          <p className="text-sm text-slate-400 mb-1">Attitude</p>
+          {roll === null ? (
+            <p className="h-40 flex items-center justify-center text-slate-500 text-sm">
+              No roll or pitch
+            </p>
+          ) : (
+            // The chunk may be missing offline; the angles below still show
+            <ErrorBoundary
+              fallback={
+                <p className="h-40 flex items-center justify-center text-slate-500 text-sm">
+                  Attitude view could not be loaded
+                </p>
+              }
+            >
+              <Suspense
+                fallback={
+                  <div className="h-40 bg-slate-700/50 rounded animate-pulse" />
+                }
+              >
+                <AttitudeIndicator roll={roll} pitch={pitch} className="h-40" />
+              </Suspense>
+            </ErrorBoundary>
+          )}
+          <p className="mt-2 text-xs text-slate-400 font-mono text-center">
+            Roll {roll ?? "–"}° • Pitch {pitch ?? "–"}°
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import type { ActiveAlert } from "@/lib/alert-rules";
+import {
+  createAlarmManager,
+  notificationsSupported,
+  playAlarmTone,
+  showAlarmNotification,
+  startAlarmClock,
+  unlockAlarmAudio,
+  type AlarmManager,
+} from "@/lib/alarms";
+
+export const SNOOZE_MS = 5 * 60 * 1000;
+
+const MUTED_KEY = "driving-safety-dashboard:alarms-muted";
+
+/**
+ * Sound, toast and (while the tab is hidden) system notification for every
+ * new alert. An ongoing alert alarms once; acknowledging silences it until it
+ * ends, snoozing until `SNOOZE_MS` has passed.
+ */
+export function useAlarms(activeAlerts: ActiveAlert[]) {
+  const [muted, setMutedState] = useState(
+    () => localStorage.getItem(MUTED_KEY) === "true",
+  );
+  const [permission, setPermission] = useState<NotificationPermission | null>(
+    () => (notificationsSupported() ? Notification.permission : null),
+  );
+  const mutedRef = useRef(muted);
+  const notificationsRef = useRef(new Map<string, Notification>());
+
+  const alertsRef = useRef(activeAlerts);
+  const managerRef = useRef<AlarmManager | null>(null);
+  if (!managerRef.current) {
+    managerRef.current = createAlarmManager({
+      onRaise: (alarm) => {
+        const { key, alert } = alarm;
+        if (!mutedRef.current) playAlarmTone(alert.severity);
+
+        const notify =
+          alert.severity === "danger" ? toast.error : toast.warning;
+        notify(alert.name, {
+          id: key,
+          description: `Since ${new Date(alert.since).toLocaleTimeString()}`,
+          // Danger alarms stay until someone reacts to them
+          duration: alert.severity === "danger" ? Infinity : 10000,
+          action: {
+            label: "Acknowledge",
+            onClick: () => managerRef.current?.acknowledge(key),
+          },
+          cancel: {
+            label: "Snooze 5 min",
+            onClick: () =>
+              managerRef.current?.snooze(key, SNOOZE_MS, Date.now()),
+          },
+        });
+
+        const notification = showAlarmNotification(alarm);
+        if (notification) notificationsRef.current.set(key, notification);
+      },
+      onDismiss: ({ key }) => {
+        toast.dismiss(key);
+        notificationsRef.current.get(key)?.close();
+        notificationsRef.current.delete(key);
+      },
+    });
+  }
+
+  useEffect(() => {
+    alertsRef.current = activeAlerts;
+    managerRef.current.update(activeAlerts, Date.now());
+  }, [activeAlerts]);
+
+  useEffect(
+    () => startAlarmClock(managerRef.current, () => alertsRef.current),
+    [],
+  );
+
+  useEffect(() => {
+    const unlock = () => unlockAlarmAudio();
+    window.addEventListener("pointerdown", unlock);
+    window.addEventListener("keydown", unlock);
+    return () => {
+      window.removeEventListener("pointerdown", unlock);
+      window.removeEventListener("keydown", unlock);
+    };
+  }, []);
+
+  const setMuted = useCallback((next: boolean) => {
+    mutedRef.current = next;
+    localStorage.setItem(MUTED_KEY, String(next));
+    setMutedState(next);
+  }, []);
+
+  const requestNotifications = useCallback(async () => {
+    if (!notificationsSupported()) return;
+    setPermission(await Notification.requestPermission());
+  }, []);
+
+  return { muted, setMuted, permission, requestNotifications };
+}
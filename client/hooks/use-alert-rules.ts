@@ -0,0 +1,40 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  clearAlertRules,
+  isAlertRulesKey,
+  loadAlertRules,
+  saveAlertRules,
+  type AlertRule,
+} from "@/lib/alert-rules";
+
+/**
+ * Alert rules for a vehicle, persisted in localStorage and kept in sync
+ * across open tabs.
+ */
+export function useAlertRules(vehicleId = "default") {
+  const [rules, setRulesState] = useState(() => loadAlertRules(vehicleId));
+
+  useEffect(() => {
+    setRulesState(loadAlertRules(vehicleId));
+    const onStorage = (event: StorageEvent) => {
+      if (isAlertRulesKey(event.key)) setRulesState(loadAlertRules(vehicleId));
+    };
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, [vehicleId]);
+
+  const setRules = useCallback(
+    (next: AlertRule[]) => {
+      saveAlertRules(next, vehicleId);
+      setRulesState(next);
+    },
+    [vehicleId],
+  );
+
+  const resetRules = useCallback(() => {
+    clearAlertRules(vehicleId);
+    setRulesState(loadAlertRules(vehicleId));
+  }, [vehicleId]);
+
+  return { rules, setRules, resetRules };
+}
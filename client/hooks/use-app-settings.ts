@@ -0,0 +1,35 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  APP_SETTINGS_STORAGE_KEY,
+  loadAppSettings,
+  saveAppSettings,
+  type AppSettings,
+} from "@/lib/app-settings";
+import { notifySettingsChanged } from "@/lib/settings-profile";
+
+/**
+ * Connection and timing settings, persisted in localStorage and kept in
+ * sync across open tabs and every component using them on this page.
+ */
+export function useAppSettings() {
+  const [settings, setSettingsState] = useState(loadAppSettings);
+
+  useEffect(() => {
+    const onStorage = (event: StorageEvent) => {
+      if (event.key === APP_SETTINGS_STORAGE_KEY) {
+        setSettingsState(loadAppSettings());
+      }
+    };
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, []);
+
+  const setSettings = useCallback((next: AppSettings) => {
+    saveAppSettings(next);
+    setSettingsState(next);
+    // The sign-in and other views keep their own copy
+    notifySettingsChanged([APP_SETTINGS_STORAGE_KEY]);
+  }, []);
+
+  return { settings, setSettings };
+}
@@ -0,0 +1,153 @@
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+  type ReactNode,
+} from "react";
+import {
+  type AuthSession,
+  type AuthUser,
+  type LoginRequest,
+  type UserRole,
+} from "@shared/api";
+import { getAuthUrl } from "@/lib/app-settings";
+import {
+  AUTH_SESSION_STORAGE_KEY,
+  fetchAuthStatus,
+  isAllowed,
+  loadAuthRequired,
+  loadAuthSession,
+  login as requestLogin,
+  saveAuthRequired,
+  saveAuthSession,
+  type AuthStatusKind,
+} from "@/lib/auth";
+import { useAppSettings } from "./use-app-settings";
+
+interface AuthContextValue {
+  status: AuthStatusKind;
+  user: AuthUser | null;
+  /** For the Authorization header and the stream's `access_token` */
+  token: string | null;
+  /** Whether the user has at least `role`; everyone does while open */
+  can: (role: UserRole) => boolean;
+  login: (credentials: LoginRequest) => Promise<void>;
+  logout: () => void;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+// setTimeout fires at once past this many ms
+const MAX_TIMEOUT = 2 ** 31 - 1;
+
+/**
+ * Sign-in state for the whole app. A stored session is trusted until the
+ * server says otherwise, so saved data stays reachable offline; the session
+ * ends by itself when the token expires and is shared across tabs.
+ */
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { settings } = useAppSettings();
+  const url = getAuthUrl(settings);
+  const [session, setSession] = useState(() => loadAuthSession());
+  const [status, setStatus] = useState<AuthStatusKind>(() =>
+    session ? "signedIn" : "checking",
+  );
+
+  const applySession = useCallback((next: AuthSession | null) => {
+    saveAuthSession(next);
+    setSession(next);
+    setStatus(next ? "signedIn" : "signedOut");
+  }, []);
+
+  useEffect(() => {
+    if (!url) {
+      setStatus("open");
+      return;
+    }
+
+    let cancelled = false;
+    const stored = loadAuthSession();
+    // Another server may require sign-in where the last one did not
+    setStatus((prev) => (prev === "open" ? "checking" : prev));
+    fetchAuthStatus(stored?.token ?? null, { url })
+      .then((result) => {
+        if (cancelled) return;
+        saveAuthRequired(result.enabled);
+        if (!result.enabled) {
+          setStatus("open");
+        } else if (stored && result.user) {
+          applySession({ ...stored, user: result.user });
+        } else {
+          applySession(null);
+        }
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.warn("Could not check the sign-in state:", err);
+        if (stored) setStatus("signedIn");
+        else setStatus(loadAuthRequired() ? "signedOut" : "open");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [url, applySession]);
+
+  // Sign in or out together with other tabs
+  useEffect(() => {
+    const onStorage = (event: StorageEvent) => {
+      if (event.key !== AUTH_SESSION_STORAGE_KEY) return;
+      const next = loadAuthSession();
+      setSession(next);
+      setStatus((prev) =>
+        prev === "open" ? prev : next ? "signedIn" : "signedOut",
+      );
+    };
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, []);
+
+  useEffect(() => {
+    if (status !== "signedIn" || !session) return;
+    const timer = setTimeout(
+      () => applySession(null),
+      Math.min(session.expiresAt - Date.now(), MAX_TIMEOUT),
+    );
+    return () => clearTimeout(timer);
+  }, [status, session, applySession]);
+
+  const login = useCallback(
+    async (credentials: LoginRequest) => {
+      if (!url) throw new Error("No sign-in server configured");
+      const next = await requestLogin(credentials, { url });
+      saveAuthRequired(true);
+      applySession(next);
+    },
+    [url, applySession],
+  );
+
+  const logout = useCallback(() => applySession(null), [applySession]);
+
+  const value = useMemo<AuthContextValue>(() => {
+    const signedIn = status === "signedIn" && session !== null;
+    const user = signedIn ? session.user : null;
+    return {
+      status,
+      user,
+      token: signedIn ? session.token : null,
+      can: (role) => isAllowed(status, user, role),
+      login,
+      logout,
+    };
+  }, [status, session, login, logout]);
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
+
+export function useAuth(): AuthContextValue {
+  const value = useContext(AuthContext);
+  if (!value) throw new Error("useAuth must be used inside an AuthProvider");
+  return value;
+}
@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  clearCalibration,
+  isCalibrationKey,
+  loadCalibration,
+  saveCalibration,
+  type CalibrationProfile,
+} from "@/lib/calibration";
+
+/**
+ * Speed calibration for a vehicle, persisted in localStorage and kept in sync
+ * across open tabs.
+ */
+export function useCalibration(vehicleId = "default") {
+  const [calibration, setCalibrationState] = useState(() =>
+    loadCalibration(vehicleId),
+  );
+
+  useEffect(() => {
+    setCalibrationState(loadCalibration(vehicleId));
+    const onStorage = (event: StorageEvent) => {
+      if (isCalibrationKey(event.key)) {
+        setCalibrationState(loadCalibration(vehicleId));
+      }
+    };
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, [vehicleId]);
+
+  const setCalibration = useCallback(
+    (next: CalibrationProfile) => {
+      saveCalibration(next, vehicleId);
+      setCalibrationState(next);
+    },
+    [vehicleId],
+  );
+
+  const resetCalibration = useCallback(() => {
+    clearCalibration(vehicleId);
+    setCalibrationState(loadCalibration(vehicleId));
+  }, [vehicleId]);
+
+  return { calibration, setCalibration, resetCalibration };
+}
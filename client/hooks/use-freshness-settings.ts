@@ -0,0 +1,32 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  FRESHNESS_STORAGE_KEY,
+  loadFreshnessSettings,
+  saveFreshnessSettings,
+  type FreshnessSettings,
+} from "@/lib/freshness";
+
+/**
+ * Stale-data settings, persisted in localStorage and kept in sync across
+ * open tabs.
+ */
+export function useFreshnessSettings() {
+  const [settings, setSettingsState] = useState(loadFreshnessSettings);
+
+  useEffect(() => {
+    const onStorage = (event: StorageEvent) => {
+      if (event.key === FRESHNESS_STORAGE_KEY) {
+        setSettingsState(loadFreshnessSettings());
+      }
+    };
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, []);
+
+  const setSettings = useCallback((next: FreshnessSettings) => {
+    saveFreshnessSettings(next);
+    setSettingsState(next);
+  }, []);
+
+  return { settings, setSettings };
+}
@@ -0,0 +1,27 @@
+import { useEffect, useState } from "react";
+
+const isOnline = () =>
+  typeof navigator === "undefined" || navigator.onLine !== false;
+
+/**
+ * Browser network state, with the time it went offline. A page opened
+ * without network counts as offline since it was opened.
+ */
+export function useOnlineStatus() {
+  const [offlineSince, setOfflineSince] = useState<number | null>(() =>
+    isOnline() ? null : Date.now(),
+  );
+
+  useEffect(() => {
+    const onOnline = () => setOfflineSince(null);
+    const onOffline = () => setOfflineSince((prev) => prev ?? Date.now());
+    window.addEventListener("online", onOnline);
+    window.addEventListener("offline", onOffline);
+    return () => {
+      window.removeEventListener("online", onOnline);
+      window.removeEventListener("offline", onOffline);
+    };
+  }, []);
+
+  return { online: offlineSince === null, offlineSince };
+}
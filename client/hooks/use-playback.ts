@@ -0,0 +1,91 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { detectIncidents } from "@/lib/incidents";
+import {
+  advancePlayback,
+  createReadingsCursor,
+  frameIndexAt,
+  nextIncidentStart,
+  type PlaybackState,
+  type SessionFrame,
+} from "@/lib/playback";
+
+// How often the playback clock advances while playing
+const PLAYBACK_TICK = 100;
+
+/**
+ * Time-travel playback over a recorded session. `frames` must not change
+ * while playing; pass a snapshot.
+ */
+export function usePlayback(frames: SessionFrame[]) {
+  const start = frames[0]?.timestamp ?? 0;
+  const end = frames[frames.length - 1]?.timestamp ?? start;
+  const [state, setState] = useState<PlaybackState>({
+    position: start,
+    playing: false,
+    speed: 1,
+  });
+
+  useEffect(() => {
+    setState((prev) => ({ ...prev, position: start, playing: false }));
+  }, [frames, start]);
+
+  useEffect(() => {
+    if (!state.playing) return;
+    let last = performance.now();
+    const timer = setInterval(() => {
+      const now = performance.now();
+      setState((prev) => advancePlayback(prev, now - last, end));
+      last = now;
+    }, PLAYBACK_TICK);
+    return () => clearInterval(timer);
+  }, [state.playing, end]);
+
+  const index = frameIndexAt(frames, state.position);
+  const cursor = useMemo(() => createReadingsCursor(frames), [frames]);
+  const readings = useMemo(() => cursor.at(index), [cursor, index]);
+  const incidents = useMemo(() => detectIncidents(frames), [frames]);
+  const nextIncident = nextIncidentStart(incidents, state.position);
+
+  const play = useCallback(
+    () =>
+      setState((prev) => ({
+        ...prev,
+        // Playing from the end starts over
+        position: prev.position >= end ? start : prev.position,
+        playing: true,
+      })),
+    [start, end],
+  );
+  const pause = useCallback(
+    () => setState((prev) => ({ ...prev, playing: false })),
+    [],
+  );
+  const seek = useCallback(
+    (position: number) =>
+      setState((prev) => ({
+        ...prev,
+        position: Math.min(end, Math.max(start, position)),
+      })),
+    [start, end],
+  );
+  const setSpeed = useCallback(
+    (speed: number) => setState((prev) => ({ ...prev, speed })),
+    [],
+  );
+
+  return {
+    ...state,
+    start,
+    end,
+    readings,
+    alerts: index >= 0 ? frames[index].alerts : [],
+    incidents,
+    nextIncident,
+    play,
+    pause,
+    seek,
+    setSpeed,
+  };
+}
+
+export type Playback = ReturnType<typeof usePlayback>;
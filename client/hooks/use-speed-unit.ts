@@ -0,0 +1,30 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  loadSpeedUnit,
+  saveSpeedUnit,
+  SPEED_UNIT_STORAGE_KEY,
+  type SpeedUnit,
+} from "@/lib/units";
+
+/**
+ * km/h or mph for every speed shown in the UI. Speeds are stored and
+ * evaluated in km/h; only the display changes.
+ */
+export function useSpeedUnit() {
+  const [unit, setUnitState] = useState(loadSpeedUnit);
+
+  useEffect(() => {
+    const onStorage = (event: StorageEvent) => {
+      if (event.key === SPEED_UNIT_STORAGE_KEY) setUnitState(loadSpeedUnit());
+    };
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, []);
+
+  const setUnit = useCallback((next: SpeedUnit) => {
+    saveSpeedUnit(next);
+    setUnitState(next);
+  }, []);
+
+  return { unit, setUnit };
+}
@@ -0,0 +1,277 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  createRuleEngine,
+  getSpeedThresholds,
+  type ActiveAlert,
+  type AlertRule,
+} from "@/lib/alert-rules";
+import type { AppSettings } from "@/lib/app-settings";
+import type { CalibrationProfile } from "@/lib/calibration";
+import {
+  getFreshFrame,
+  recordReadings,
+  type FreshnessSettings,
+} from "@/lib/freshness";
+import { createIncidentDetector } from "@/lib/incidents";
+import type { SessionFrame } from "@/lib/playback";
+import { createSafetyScorer, type ScoreOptions } from "@/lib/safety-score";
+import { withSpeed } from "@/lib/telemetry";
+import {
+  createTelemetrySource,
+  type TelemetrySourceConfig,
+} from "@/lib/telemetry-source";
+import {
+  createTelemetryStore,
+  hasReadings,
+  seedChartFrames,
+} from "@/lib/telemetry-store";
+import {
+  getTripStorage,
+  type StoredFrame,
+  type TripStorage,
+} from "@/lib/trip-storage";
+import {
+  getVehicleId,
+  parseTelemetryMessage,
+  type TelemetryFrame,
+} from "@shared/api";
+
+// Charts keep every frame of the last hour (at 2 Hz) and redraw at most once a second
+const MAX_CHART_FRAMES = 7200;
+const CHART_REFRESH_INTERVAL = 1000;
+// Card ages and stale states are re-rendered this often
+const FRESHNESS_TICK_INTERVAL = 1000;
+// Every received frame of the last two hours (at 2 Hz) can be replayed
+const MAX_RECORDED_FRAMES = 14400;
+
+// Placeholder values for the opt-in fallback mode while the server is not responding
+const FALLBACK_DATA: TelemetryFrame = {
+  eyeDrowsy: false,
+  steerInactive: false,
+  rpm: 0,
+  rolloverDetected: false,
+};
+
+export interface TelemetrySessionOptions {
+  source: TelemetrySourceConfig;
+  /** Ignore frames of other vehicles */
+  vehicleId?: string;
+  rules: AlertRule[];
+  calibration: CalibrationProfile;
+  freshness: FreshnessSettings;
+  appSettings: AppSettings;
+}
+
+const trimTo = <T>(entries: T[], max: number) => {
+  if (entries.length > max) entries.splice(0, entries.length - max);
+};
+
+/**
+ * Runs the live session behind a dashboard: connects to the source, derives
+ * speed, evaluates alert rules, scores, detects incidents and persists
+ * frames. Views read the results from the returned store.
+ */
+export function useTelemetrySession(options: TelemetrySessionOptions) {
+  const { source, vehicleId, rules } = options;
+  const [store] = useState(() => createTelemetryStore());
+  // Stream callbacks outlive renders, so they read the options through a ref
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const [sessionStart] = useState(Date.now);
+  const storageRef = useRef<TripStorage | null>(null);
+  const chartFramesRef = useRef<StoredFrame[]>([]);
+  const chartDirtyRef = useRef(false);
+  const recordingRef = useRef<SessionFrame[]>([]);
+  const ruleEngineRef = useRef(createRuleEngine(rules));
+  // The session is scored with whatever thresholds and calibration are current
+  const scorerRef = useRef(
+    createSafetyScorer((): ScoreOptions => ({
+      speedThresholds: getSpeedThresholds(optionsRef.current.rules),
+      calibration: optionsRef.current.calibration,
+    })),
+  );
+  // Fed every frame, so episodes between history samples are not lost
+  const incidentDetectorRef = useRef(createIncidentDetector());
+
+  // Stable per vehicle, so memos that filter with it only rerun on a change
+  const isOwnFrame = useCallback(
+    (stored: StoredFrame) =>
+      !vehicleId || getVehicleId(stored.frame) === vehicleId,
+    [vehicleId],
+  );
+
+  const showFallback = () =>
+    store.dispatch({
+      type: "fallback",
+      frame: FALLBACK_DATA,
+      receivedAt: Date.now(),
+    });
+
+  const ingest = (data: TelemetryFrame) => {
+    const { calibration, freshness, appSettings } = optionsRef.current;
+    const frame = withSpeed(data, calibration);
+    const received = Date.now();
+
+    // Rules see every fresh field, not just the ones this frame carried
+    const readings = recordReadings(store.getState().readings, frame, received);
+    const alerts: ActiveAlert[] = ruleEngineRef.current.evaluate(
+      getFreshFrame(readings, received, freshness.staleAfterMs),
+      received,
+    ).active;
+    recordingRef.current.push({ timestamp: received, frame, alerts });
+    trimTo(recordingRef.current, MAX_RECORDED_FRAMES);
+
+    if (hasReadings(data)) {
+      storageRef.current
+        ?.recordFrame(received, frame)
+        .catch((err) => console.error("Failed to persist frame:", err));
+      chartFramesRef.current.push({ timestamp: received, frame });
+      trimTo(chartFramesRef.current, MAX_CHART_FRAMES);
+      chartDirtyRef.current = true;
+      scorerRef.current.add(received, frame);
+      incidentDetectorRef.current.ingest(received, frame);
+      store.dispatch({
+        type: "session",
+        score: scorerRef.current.getScore(),
+        incidents: incidentDetectorRef.current.getIncidents(),
+      });
+    }
+    store.dispatch({
+      type: "frame",
+      frame,
+      receivedAt: received,
+      alerts,
+      sampling: {
+        intervalMs: appSettings.historyAddIntervalMs,
+        maxEntries: appSettings.maxHistoryEntries,
+      },
+    });
+  };
+
+  useEffect(() => {
+    getTripStorage()
+      .then((storage) => {
+        storageRef.current = storage;
+        // Seed the charts with the last hour so they are not empty after a reload
+        const now = Date.now();
+        return storage
+          .getFrames({ from: now - 60 * 60 * 1000, to: now })
+          .then((stored) => {
+            // Until live data arrives (e.g. after a reload without network) the cards
+            // show the last saved readings, aged and marked stale as usual
+            store.dispatch({
+              type: "restore",
+              frames: stored.filter(isOwnFrame),
+            });
+            chartFramesRef.current = seedChartFrames(
+              stored,
+              chartFramesRef.current,
+              isOwnFrame,
+              MAX_CHART_FRAMES,
+            );
+            chartDirtyRef.current = true;
+          });
+      })
+      .catch((err) => console.warn("Trip history will not be persisted:", err));
+  }, []);
+
+  useEffect(() => {
+    ruleEngineRef.current.setRules(rules);
+  }, [rules]);
+
+  // Ages advance even when no frames arrive
+  useEffect(() => {
+    const timer = setInterval(
+      () => store.dispatch({ type: "tick", now: Date.now() }),
+      FRESHNESS_TICK_INTERVAL,
+    );
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    const timer = setInterval(() => {
+      if (!chartDirtyRef.current) return;
+      chartDirtyRef.current = false;
+      store.dispatch({
+        type: "charts",
+        frames: chartFramesRef.current.slice(),
+      });
+    }, CHART_REFRESH_INTERVAL);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    const connection = createTelemetrySource(
+      source,
+      {
+        onStatusChange: (status) => {
+          store.dispatch({ type: "status", status });
+          if (status.state === "backoff" || status.state === "offline") {
+            storageRef.current?.endTrip();
+            incidentDetectorRef.current.finish();
+            store.dispatch({
+              type: "session",
+              score: store.getState().score,
+              incidents: incidentDetectorRef.current.getIncidents(),
+            });
+            // Without fallback mode the last values simply turn stale
+            if (optionsRef.current.freshness.fallbackMode) {
+              ruleEngineRef.current.reset();
+              showFallback();
+            }
+          }
+        },
+        onMessage: (raw) => {
+          const { frame, errors } = parseTelemetryMessage(raw);
+          if (errors.length > 0) {
+            errors.forEach((error) =>
+              console.warn("Rejected telemetry field:", error),
+            );
+            store.dispatch({ type: "rejected", errors });
+          }
+          // Simulated and replayed sources are not filtered by the server
+          if (vehicleId && frame && getVehicleId(frame) !== vehicleId) return;
+          // Only update if we received actual data from the API (not empty)
+          if (!frame || Object.keys(frame).length === 0) return;
+
+          // All fields empty/null: record them as unknown, or show placeholders in fallback mode
+          if (
+            !hasReadings(frame) &&
+            optionsRef.current.freshness.fallbackMode
+          ) {
+            ruleEngineRef.current.reset();
+            showFallback();
+          } else {
+            ingest(frame);
+          }
+        },
+      },
+      { connectTimeout: options.appSettings.connectTimeoutMs },
+    );
+
+    connection.start();
+    return () => connection.stop();
+  }, [source, options.appSettings.connectTimeoutMs]);
+
+  return {
+    store,
+    sessionStart,
+    isOwnFrame,
+    /** A snapshot of every frame received this session, for replay */
+    getRecording: () => recordingRef.current.slice(),
+    /** Every frame of this vehicle since the page was opened */
+    getSessionFrames: async (): Promise<StoredFrame[]> =>
+      storageRef.current
+        ? (
+            await storageRef.current.getFrames({
+              from: sessionStart,
+              to: Date.now(),
+            })
+          ).filter(isOwnFrame)
+        : chartFramesRef.current.filter(
+            (entry) => entry.timestamp >= sessionStart,
+          ),
+  };
+}
+
+export type TelemetrySession = ReturnType<typeof useTelemetrySession>;
@@ -0,0 +1,44 @@
+import { useRef, useSyncExternalStore } from "react";
+import type { TelemetryState, TelemetryStore } from "@/lib/telemetry-store";
+
+export const shallowEqual = <T>(a: T, b: T) => {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== "object" || typeof b !== "object" || !a || !b) return false;
+  const keys = Object.keys(a);
+  return (
+    keys.length === Object.keys(b).length &&
+    keys.every((key) => Object.is(a[key as keyof T], b[key as keyof T]))
+  );
+};
+
+/**
+ * Subscribe to a slice of the telemetry store. The component re-renders
+ * only when `isEqual` says the selected value changed, so selectors may
+ * build new objects.
+ */
+export function useTelemetryStore<T>(
+  store: TelemetryStore,
+  selector: (state: TelemetryState) => T,
+  isEqual: (a: T, b: T) => boolean = Object.is,
+): T {
+  const cacheRef = useRef<{
+    state: TelemetryState;
+    selector: (state: TelemetryState) => T;
+    selection: T;
+  } | null>(null);
+
+  const getSelection = () => {
+    const state = store.getState();
+    const cached = cacheRef.current;
+    if (cached?.state === state && cached.selector === selector) {
+      return cached.selection;
+    }
+    const next = selector(state);
+    const selection =
+      cached && isEqual(cached.selection, next) ? cached.selection : next;
+    cacheRef.current = { state, selector, selection };
+    return selection;
+  };
+
+  return useSyncExternalStore(store.subscribe, getSelection);
+}
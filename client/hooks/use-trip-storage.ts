@@ -0,0 +1,47 @@
+import { useQuery } from "@tanstack/react-query";
+import { getTripStorage } from "@/lib/trip-storage";
+
+export type HistoryRange =
+  | { kind: "preset"; durationMs: number }
+  | { kind: "custom"; from: number; to: number };
+
+const STORED_HISTORY_REFRESH = 10000;
+
+export function useStoredFrames(range: HistoryRange | null) {
+  return useQuery({
+    queryKey: ["stored-frames", range],
+    enabled: range !== null,
+    // Preset ranges are relative to now, so keep them rolling forward
+    refetchInterval: range?.kind === "preset" ? STORED_HISTORY_REFRESH : false,
+    queryFn: async () => {
+      const storage = await getTripStorage();
+      if (range.kind === "preset") {
+        const to = Date.now();
+        return storage.getFrames({ from: to - range.durationMs, to });
+      }
+      return storage.getFrames({ from: range.from, to: range.to });
+    },
+  });
+}
+
+export function useTrips() {
+  return useQuery({
+    queryKey: ["trips"],
+    queryFn: async () => (await getTripStorage()).listTrips(),
+  });
+}
+
+export function useTrip(id: string) {
+  return useQuery({
+    queryKey: ["trip", id],
+    enabled: Boolean(id),
+    queryFn: async () => {
+      const storage = await getTripStorage();
+      const [trip, frames] = await Promise.all([
+        storage.getTrip(id),
+        storage.getTripFrames(id),
+      ]);
+      return trip ? { trip, frames } : null;
+    },
+  });
+}
@@ -0,0 +1,140 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import type { VehicleCommand } from "@shared/api";
+import {
+  createCommandRequest,
+  fetchCommandLog,
+  loadOperator,
+  mergeCommandLog,
+  OPERATOR_STORAGE_KEY,
+  saveOperator,
+  sendCommand,
+  type OutboxEntry,
+} from "@/lib/commands";
+import { useAuth } from "./use-auth";
+
+// Poll quickly while a command is on its way to the device
+const PENDING_REFRESH = 2000;
+const IDLE_REFRESH = 15000;
+
+/**
+ * Send commands to one vehicle and follow them through the server's audit
+ * log. Failed submissions stay in the outbox until retried. A `null` URL
+ * means no command endpoint is available. Signed-in users send under their
+ * own name.
+ */
+export function useVehicleCommands(vehicleId: string, url: string | null) {
+  const queryClient = useQueryClient();
+  const { token, user } = useAuth();
+  const [outbox, setOutbox] = useState<OutboxEntry[]>([]);
+  const [operator, setOperatorState] = useState(loadOperator);
+
+  useEffect(() => {
+    const onStorage = (event: StorageEvent) => {
+      if (event.key === OPERATOR_STORAGE_KEY) setOperatorState(loadOperator());
+    };
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, []);
+
+  const setOperator = useCallback((name: string) => {
+    saveOperator(name);
+    setOperatorState(name);
+  }, []);
+
+  const log = useQuery({
+    queryKey: ["commands", url, vehicleId],
+    enabled: url !== null,
+    queryFn: () => fetchCommandLog(vehicleId, { url, token }),
+    refetchInterval: (query) =>
+      query.state.data?.some(
+        (record) => record.status === "queued" || record.status === "delivered",
+      )
+        ? PENDING_REFRESH
+        : IDLE_REFRESH,
+  });
+
+  const updateEntry = (id: string, patch: Partial<OutboxEntry>) =>
+    setOutbox((prev) =>
+      prev.map((entry) =>
+        entry.request.id === id ? { ...entry, ...patch } : entry,
+      ),
+    );
+
+  const submit = useCallback(
+    async (entry: OutboxEntry) => {
+      const { id } = entry.request;
+      try {
+        await sendCommand(entry.request, {
+          url,
+          token,
+          onRetry: (attempt, error) =>
+            updateEntry(id, { attempts: attempt, error: error.message }),
+        });
+        await queryClient.invalidateQueries({
+          queryKey: ["commands", url, vehicleId],
+        });
+        setOutbox((prev) => prev.filter((item) => item.request.id !== id));
+      } catch (err) {
+        updateEntry(id, {
+          status: "failed",
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    },
+    [queryClient, url, token, vehicleId],
+  );
+
+  const send = useCallback(
+    (command: VehicleCommand) => {
+      const entry: OutboxEntry = {
+        request: createCommandRequest(
+          vehicleId,
+          command,
+          user?.name ?? (operator.trim() || "Unknown"),
+        ),
+        status: "sending",
+        attempts: 0,
+        error: null,
+      };
+      setOutbox((prev) => [...prev, entry]);
+      submit(entry);
+    },
+    [vehicleId, user, operator, submit],
+  );
+
+  const retry = useCallback(
+    (id: string) => {
+      const entry = outbox.find((item) => item.request.id === id);
+      if (!entry) return;
+      const next = {
+        ...entry,
+        status: "sending" as const,
+        attempts: 0,
+        error: null,
+      };
+      updateEntry(id, next);
+      submit(next);
+    },
+    [outbox, submit],
+  );
+
+  const entries = useMemo(
+    () => mergeCommandLog(log.data ?? [], outbox),
+    [log.data, outbox],
+  );
+
+  return {
+    available: url !== null,
+    entries,
+    logError: log.error,
+    operator,
+    setOperator,
+    /** Sender name taken from the sign-in, replacing `operator` */
+    signedInAs: user?.name ?? null,
+    send,
+    retry,
+  };
+}
+
+export type VehicleCommands = ReturnType<typeof useVehicleCommands>;
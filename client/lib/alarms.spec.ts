@@ -0,0 +1,105 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { ActiveAlert } from "./alert-rules";
+import { createAlarmManager, startAlarmClock } from "./alarms";
+
+const alert = (since: number, ruleId = "drowsy"): ActiveAlert => ({
+  ruleId,
+  name: "Driver drowsy",
+  severity: "danger",
+  target: "eyeDrowsy",
+  since,
+});
+
+const setup = () => {
+  const onRaise = vi.fn();
+  const onDismiss = vi.fn();
+  return {
+    onRaise,
+    onDismiss,
+    manager: createAlarmManager({ onRaise, onDismiss }),
+  };
+};
+
+describe("createAlarmManager", () => {
+  it("raises an ongoing alert only once", () => {
+    const { manager, onRaise } = setup();
+    manager.update([alert(1000)], 1000);
+    manager.update([alert(1000)], 1500);
+    manager.update([alert(1000)], 2000);
+    expect(onRaise).toHaveBeenCalledTimes(1);
+  });
+
+  it("raises again for a new occurrence of the same rule", () => {
+    const { manager, onRaise, onDismiss } = setup();
+    manager.update([alert(1000)], 1000);
+    manager.update([], 2000);
+    expect(onDismiss).toHaveBeenCalledTimes(1);
+    manager.update([alert(3000)], 3000);
+    expect(onRaise).toHaveBeenCalledTimes(2);
+  });
+
+  it("stays silent after acknowledge until the alert ends", () => {
+    const { manager, onRaise, onDismiss } = setup();
+    manager.update([alert(1000)], 1000);
+    manager.acknowledge("drowsy:1000");
+    expect(onDismiss).toHaveBeenCalledTimes(1);
+    manager.update([alert(1000)], 60 * 60 * 1000);
+    manager.update([], 60 * 60 * 1000 + 500);
+    expect(onRaise).toHaveBeenCalledTimes(1);
+    expect(onDismiss).toHaveBeenCalledTimes(1);
+    expect(manager.getAlarms()).toEqual([]);
+  });
+
+  it("raises a snoozed alert again once the snooze expires", () => {
+    const { manager, onRaise } = setup();
+    manager.update([alert(1000)], 1000);
+    manager.snooze("drowsy:1000", 5000, 2000);
+    manager.update([alert(1000)], 6000);
+    expect(onRaise).toHaveBeenCalledTimes(1);
+    manager.update([alert(1000)], 7000);
+    expect(onRaise).toHaveBeenCalledTimes(2);
+    expect(manager.getAlarms()[0].status).toBe("ringing");
+  });
+
+  it("does not raise a snoozed alert that ended during the snooze", () => {
+    const { manager, onRaise } = setup();
+    manager.update([alert(1000)], 1000);
+    manager.snooze("drowsy:1000", 5000, 1000);
+    manager.update([], 3000);
+    manager.update([], 8000);
+    expect(onRaise).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("startAlarmClock", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("raises a snoozed alert when the snooze ends without new alerts", () => {
+    vi.useFakeTimers();
+    let time = 1000;
+    const { manager, onRaise } = setup();
+    // The store hands out the same array while the alerts do not change
+    const active = [alert(1000)];
+    manager.update(active, time);
+    manager.snooze("drowsy:1000", 5000, time);
+    const stop = startAlarmClock(manager, () => active, {
+      intervalMs: 1000,
+      now: () => time,
+    });
+
+    time = 5000;
+    vi.advanceTimersByTime(4000);
+    expect(onRaise).toHaveBeenCalledTimes(1);
+    time = 6000;
+    vi.advanceTimersByTime(1000);
+    expect(onRaise).toHaveBeenCalledTimes(2);
+
+    stop();
+    time = 20000;
+    manager.snooze("drowsy:1000", 1000, 10000);
+    vi.advanceTimersByTime(10000);
+    expect(onRaise).toHaveBeenCalledTimes(2);
+  });
+});
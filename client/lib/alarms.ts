@@ -0,0 +1,197 @@
+import type { ActiveAlert, AlertSeverity } from "./alert-rules";
+
+export type AlarmStatus = "ringing" | "acknowledged" | "snoozed";
+
+export interface Alarm {
+  /** One key per alert occurrence: the same ongoing event keeps its key */
+  key: string;
+  alert: ActiveAlert;
+  status: AlarmStatus;
+  snoozedUntil: number | null;
+}
+
+export interface AlarmManagerOptions {
+  /** A new alarm, or a snoozed one coming back */
+  onRaise: (alarm: Alarm) => void;
+  /** The alarm's alert ended or the user acknowledged/snoozed it */
+  onDismiss: (alarm: Alarm) => void;
+}
+
+export const alarmKey = (alert: ActiveAlert) =>
+  `${alert.ruleId}:${alert.since}`;
+
+/**
+ * Tracks which alerts have already alarmed. Each alert occurrence raises
+ * exactly once; only an expired snooze raises it again.
+ */
+export function createAlarmManager({
+  onRaise,
+  onDismiss,
+}: AlarmManagerOptions) {
+  const alarms = new Map<string, Alarm>();
+
+  const update = (active: ActiveAlert[], now: number) => {
+    const activeKeys = new Set<string>();
+
+    active.forEach((alert) => {
+      const key = alarmKey(alert);
+      activeKeys.add(key);
+      const existing = alarms.get(key);
+
+      if (!existing) {
+        const alarm: Alarm = {
+          key,
+          alert,
+          status: "ringing",
+          snoozedUntil: null,
+        };
+        alarms.set(key, alarm);
+        onRaise(alarm);
+      } else if (
+        existing.status === "snoozed" &&
+        existing.snoozedUntil !== null &&
+        existing.snoozedUntil <= now
+      ) {
+        const alarm: Alarm = {
+          ...existing,
+          status: "ringing",
+          snoozedUntil: null,
+        };
+        alarms.set(key, alarm);
+        onRaise(alarm);
+      }
+    });
+
+    alarms.forEach((alarm, key) => {
+      if (activeKeys.has(key)) return;
+      alarms.delete(key);
+      if (alarm.status === "ringing") onDismiss(alarm);
+    });
+  };
+
+  const setStatus = (key: string, patch: Partial<Alarm>) => {
+    const alarm = alarms.get(key);
+    if (!alarm) return;
+    const next = { ...alarm, ...patch };
+    alarms.set(key, next);
+    if (alarm.status === "ringing") onDismiss(next);
+  };
+
+  return {
+    update,
+    acknowledge: (key: string) => setStatus(key, { status: "acknowledged" }),
+    snooze: (key: string, durationMs: number, now: number) =>
+      setStatus(key, { status: "snoozed", snoozedUntil: now + durationMs }),
+    getAlarms: () => [...alarms.values()],
+  };
+}
+
+export type AlarmManager = ReturnType<typeof createAlarmManager>;
+
+/** How often alarms are checked while the alerts themselves stay the same */
+export const ALARM_TICK_MS = 1000;
+
+/**
+ * Updates the alarms on a timer. The telemetry store keeps the same alerts
+ * array while they do not change, so an expired snooze is only noticed
+ * here. Returns a function that stops the timer.
+ */
+export function startAlarmClock(
+  manager: AlarmManager,
+  getAlerts: () => ActiveAlert[],
+  { intervalMs = ALARM_TICK_MS, now = Date.now } = {},
+) {
+  const timer = setInterval(
+    () => manager.update(getAlerts(), now()),
+    intervalMs,
+  );
+  return () => clearInterval(timer);
+}
+
+// Distinct patterns so a supervisor can tell severity without looking:
+// warning is two mid beeps, danger is a fast high/low siren
+const TONES: Record<AlertSeverity, { frequency: number; duration: number }[]> =
+  {
+    warning: [
+      { frequency: 660, duration: 0.15 },
+      { frequency: 0, duration: 0.1 },
+      { frequency: 660, duration: 0.15 },
+    ],
+    danger: [
+      { frequency: 880, duration: 0.18 },
+      { frequency: 440, duration: 0.18 },
+      { frequency: 880, duration: 0.18 },
+      { frequency: 440, duration: 0.18 },
+      { frequency: 880, duration: 0.3 },
+    ],
+  };
+
+let audioContext: AudioContext | null = null;
+
+const getAudioContext = () => {
+  if (typeof window === "undefined" || !("AudioContext" in window)) {
+    return null;
+  }
+  audioContext ??= new AudioContext();
+  return audioContext;
+};
+
+/**
+ * Browsers only allow audio after a user gesture; call this from one.
+ */
+export function unlockAlarmAudio() {
+  getAudioContext()
+    ?.resume()
+    .catch(() => undefined);
+}
+
+export function playAlarmTone(severity: AlertSeverity) {
+  const context = getAudioContext();
+  if (!context || context.state !== "running") return;
+
+  let start = context.currentTime;
+  TONES[severity].forEach(({ frequency, duration }) => {
+    if (frequency > 0) {
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      oscillator.type = severity === "danger" ? "square" : "sine";
+      oscillator.frequency.value = frequency;
+      gain.gain.setValueAtTime(0.2, start);
+      gain.gain.exponentialRampToValueAtTime(0.001, start + duration);
+      oscillator.connect(gain).connect(context.destination);
+      oscillator.start(start);
+      oscillator.stop(start + duration);
+    }
+    start += duration;
+  });
+}
+
+export const notificationsSupported = () =>
+  typeof window !== "undefined" && "Notification" in window;
+
+/**
+ * System notification, only used while the tab is hidden; in-page alerts are
+ * toasts. Returns the notification so it can be closed when the alert ends.
+ */
+export function showAlarmNotification(alarm: Alarm): Notification | null {
+  if (
+    !notificationsSupported() ||
+    Notification.permission !== "granted" ||
+    !document.hidden
+  ) {
+    return null;
+  }
+  const notification = new Notification(
+    alarm.alert.severity === "danger" ? "⚠️ Safety alert" : "Safety warning",
+    {
+      body: alarm.alert.name,
+      tag: alarm.key,
+      requireInteraction: alarm.alert.severity === "danger",
+    },
+  );
+  notification.onclick = () => {
+    window.focus();
+    notification.close();
+  };
+  return notification;
+}
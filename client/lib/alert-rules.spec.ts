@@ -0,0 +1,168 @@
+import { describe, it, expect } from "vitest";
+import { TELEMETRY_FIELDS } from "@shared/api";
+import {
+  alertRuleSchema,
+  BOOLEAN_RULE_FIELDS,
+  createRuleEngine,
+  DEFAULT_ALERT_RULES,
+  getFieldStatus,
+  getSpeedThresholds,
+  RULE_FIELD_LABELS,
+  RULE_FIELDS,
+  type AlertRule,
+} from "./alert-rules";
+
+const rule = (overrides: Partial<AlertRule>): AlertRule => ({
+  id: "test",
+  name: "Test",
+  enabled: true,
+  severity: "danger",
+  target: "steerInactive",
+  conditions: [{ field: "steerInactive", operator: "==", value: true }],
+  forMs: 0,
+  clearAfterMs: 0,
+  cooldownMs: 0,
+  ...overrides,
+});
+
+const defaults = (id: string) => DEFAULT_ALERT_RULES.find((r) => r.id === id)!;
+
+describe("RULE_FIELDS", () => {
+  it("should cover every telemetry channel", () => {
+    expect(RULE_FIELDS).toEqual(TELEMETRY_FIELDS);
+    expect(RULE_FIELD_LABELS.speed).toBe("Speed (km/h)");
+    expect(RULE_FIELD_LABELS.rpm).toBe("Engine RPM");
+    expect(BOOLEAN_RULE_FIELDS).toContain("seatbelt");
+    expect(BOOLEAN_RULE_FIELDS).not.toContain("temperature");
+  });
+
+  it("should accept rules on channels added later", () => {
+    const hot = rule({
+      target: "temperature",
+      conditions: [{ field: "temperature", operator: ">", value: 100 }],
+    });
+
+    expect(alertRuleSchema.safeParse(hot).success).toBe(true);
+    expect(
+      createRuleEngine([hot]).evaluate({ temperature: 110 }, 0).active,
+    ).toHaveLength(1);
+  });
+});
+
+describe("createRuleEngine", () => {
+  it("should reproduce the default speed bands", () => {
+    const engine = createRuleEngine(DEFAULT_ALERT_RULES);
+    const ids = (speed: number, at: number) =>
+      engine.evaluate({ speed }, at).active.map((alert) => alert.ruleId);
+
+    expect(ids(60, 0)).toEqual([]);
+    expect(ids(100, 1)).toEqual(["speed-warning"]);
+    expect(ids(130, 2)).toEqual(["speed-warning", "speed-danger"]);
+    expect(ids(90, 3)).toEqual(["speed-warning"]);
+  });
+
+  it("should wait for conditions to hold for the configured duration", () => {
+    const engine = createRuleEngine([
+      { ...defaults("steering-inactive-moving"), enabled: true },
+    ]);
+    const frame = { steerInactive: true, speed: 50 };
+
+    expect(engine.evaluate(frame, 0).active).toHaveLength(0);
+    expect(engine.evaluate(frame, 3500).active).toHaveLength(0);
+    expect(engine.evaluate(frame, 4000).fired).toHaveLength(1);
+  });
+
+  it("should not hold while the speed condition fails", () => {
+    const engine = createRuleEngine([
+      { ...defaults("steering-inactive-moving"), enabled: true },
+    ]);
+    engine.evaluate({ steerInactive: true, speed: 10 }, 0);
+    expect(
+      engine.evaluate({ steerInactive: true, speed: 10 }, 5000).active,
+    ).toHaveLength(0);
+  });
+
+  it("should apply hysteresis before clearing", () => {
+    const engine = createRuleEngine([rule({ clearAfterMs: 2000 })]);
+    engine.evaluate({ steerInactive: true }, 0);
+    expect(engine.evaluate({ steerInactive: false }, 1000).active).toHaveLength(
+      1,
+    );
+    // A brief flap back does not restart the alert
+    expect(engine.evaluate({ steerInactive: true }, 1500).fired).toHaveLength(
+      0,
+    );
+    engine.evaluate({ steerInactive: false }, 2000);
+    expect(
+      engine.evaluate({ steerInactive: false }, 4000).cleared,
+    ).toHaveLength(1);
+  });
+
+  it("should count occurrences within the window", () => {
+    const engine = createRuleEngine([
+      { ...defaults("drowsy-repeated"), enabled: true },
+    ]);
+    engine.evaluate({ eyeDrowsy: true }, 0);
+    engine.evaluate({ eyeDrowsy: false }, 2000);
+    expect(engine.evaluate({ eyeDrowsy: true }, 30000).fired).toHaveLength(1);
+  });
+
+  it("should forget occurrences outside the window", () => {
+    const engine = createRuleEngine([
+      { ...defaults("drowsy-repeated"), enabled: true },
+    ]);
+    engine.evaluate({ eyeDrowsy: true }, 0);
+    engine.evaluate({ eyeDrowsy: false }, 2000);
+    expect(engine.evaluate({ eyeDrowsy: true }, 70000).fired).toHaveLength(0);
+  });
+
+  it("should respect the cooldown between firings", () => {
+    const engine = createRuleEngine([rule({ cooldownMs: 10000 })]);
+    expect(engine.evaluate({ steerInactive: true }, 0).fired).toHaveLength(1);
+    engine.evaluate({ steerInactive: false }, 1000);
+    expect(engine.evaluate({ steerInactive: true }, 2000).fired).toHaveLength(
+      0,
+    );
+    expect(engine.evaluate({ steerInactive: true }, 10000).fired).toHaveLength(
+      1,
+    );
+  });
+
+  it("should treat unknown readings as not matching", () => {
+    const engine = createRuleEngine([rule({})]);
+    expect(engine.evaluate({ steerInactive: null }, 0).active).toHaveLength(0);
+  });
+});
+
+describe("getFieldStatus", () => {
+  it("should prefer the most severe alert for the field", () => {
+    const alerts = [
+      {
+        ruleId: "a",
+        name: "A",
+        severity: "warning" as const,
+        target: "speed" as const,
+        since: 0,
+      },
+      {
+        ruleId: "b",
+        name: "B",
+        severity: "danger" as const,
+        target: "speed" as const,
+        since: 0,
+      },
+    ];
+    expect(getFieldStatus("speed", 130, alerts)).toBe("danger");
+    expect(getFieldStatus("eyeDrowsy", false, alerts)).toBe("safe");
+    expect(getFieldStatus("eyeDrowsy", null, alerts)).toBeUndefined();
+  });
+});
+
+describe("getSpeedThresholds", () => {
+  it("should pick the lowest enabled speed threshold per severity", () => {
+    expect(getSpeedThresholds(DEFAULT_ALERT_RULES)).toEqual({
+      warning: 80,
+      danger: 120,
+    });
+  });
+});
@@ -0,0 +1,399 @@
+import { z } from "zod";
+import {
+  TELEMETRY_FIELDS,
+  TELEMETRY_METRICS,
+  type TelemetryField,
+  type TelemetryFrame,
+} from "@shared/api";
+import type { StatusLevel } from "./telemetry";
+
+/** Rules can watch every channel a frame carries */
+export const RULE_FIELDS = TELEMETRY_FIELDS as [
+  TelemetryField,
+  ...TelemetryField[],
+];
+
+export type RuleField = TelemetryField;
+
+// The unit is left out where the label already says it ("Engine RPM")
+export const RULE_FIELD_LABELS = Object.fromEntries(
+  RULE_FIELDS.map((field) => {
+    const { label, unit } = TELEMETRY_METRICS[field];
+    return [
+      field,
+      unit && !label.toLowerCase().includes(unit.toLowerCase())
+        ? `${label} (${unit})`
+        : label,
+    ];
+  }),
+) as Record<RuleField, string>;
+
+export const BOOLEAN_RULE_FIELDS: RuleField[] = RULE_FIELDS.filter(
+  (field) => TELEMETRY_METRICS[field].kind === "flag",
+);
+
+export const RULE_OPERATORS = [">", ">=", "<", "<=", "==", "!="] as const;
+
+export type AlertSeverity = Exclude<StatusLevel, "safe">;
+
+const conditionSchema = z.object({
+  field: z.enum(RULE_FIELDS),
+  operator: z.enum(RULE_OPERATORS),
+  value: z.union([z.number(), z.boolean()]),
+});
+
+export const alertRuleSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  enabled: z.boolean(),
+  severity: z.enum(["warning", "danger"]),
+  /** Card whose status the rule drives */
+  target: z.enum(RULE_FIELDS),
+  /** All conditions must hold at the same time */
+  conditions: z.array(conditionSchema).min(1),
+  /** Conditions must hold continuously this long before the alert fires */
+  forMs: z.number().min(0),
+  /** Fire instead when the conditions start `count` times within `windowMs` */
+  occurrences: z
+    .object({ count: z.number().int().min(2), windowMs: z.number().min(0) })
+    .optional(),
+  /** Conditions must be false this long before the alert clears */
+  clearAfterMs: z.number().min(0),
+  /** Minimum time between two firings of the same rule */
+  cooldownMs: z.number().min(0),
+});
+
+export type RuleCondition = z.infer<typeof conditionSchema>;
+export type AlertRule = z.infer<typeof alertRuleSchema>;
+
+export interface ActiveAlert {
+  ruleId: string;
+  name: string;
+  severity: AlertSeverity;
+  target: RuleField;
+  since: number;
+}
+
+export interface RuleEvaluation {
+  active: ActiveAlert[];
+  /** Alerts that started with this frame */
+  fired: ActiveAlert[];
+  /** Alerts that ended with this frame */
+  cleared: ActiveAlert[];
+}
+
+// Mirrors the thresholds that used to be hard-coded in the dashboard
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  {
+    id: "speed-warning",
+    name: "Speed above 80 km/h",
+    enabled: true,
+    severity: "warning",
+    target: "speed",
+    conditions: [{ field: "speed", operator: ">", value: 80 }],
+    forMs: 0,
+    clearAfterMs: 0,
+    cooldownMs: 0,
+  },
+  {
+    id: "speed-danger",
+    name: "Speed above 120 km/h",
+    enabled: true,
+    severity: "danger",
+    target: "speed",
+    conditions: [{ field: "speed", operator: ">", value: 120 }],
+    forMs: 0,
+    clearAfterMs: 0,
+    cooldownMs: 0,
+  },
+  {
+    id: "drowsy",
+    name: "Driver drowsy",
+    enabled: true,
+    severity: "danger",
+    target: "eyeDrowsy",
+    conditions: [{ field: "eyeDrowsy", operator: "==", value: true }],
+    forMs: 0,
+    clearAfterMs: 0,
+    cooldownMs: 0,
+  },
+  {
+    id: "steering-inactive",
+    name: "Steering inactive",
+    enabled: true,
+    severity: "warning",
+    target: "steerInactive",
+    conditions: [{ field: "steerInactive", operator: "==", value: true }],
+    forMs: 0,
+    clearAfterMs: 0,
+    cooldownMs: 0,
+  },
+  {
+    id: "rollover",
+    name: "Rollover detected",
+    enabled: true,
+    severity: "danger",
+    target: "rolloverDetected",
+    conditions: [{ field: "rolloverDetected", operator: "==", value: true }],
+    forMs: 0,
+    clearAfterMs: 0,
+    cooldownMs: 0,
+  },
+  {
+    id: "steering-inactive-moving",
+    name: "Steering inactive for 4s while moving",
+    enabled: false,
+    severity: "danger",
+    target: "steerInactive",
+    conditions: [
+      { field: "steerInactive", operator: "==", value: true },
+      { field: "speed", operator: ">", value: 30 },
+    ],
+    forMs: 4000,
+    clearAfterMs: 2000,
+    cooldownMs: 0,
+  },
+  {
+    id: "drowsy-repeated",
+    name: "Drowsy twice within 60s",
+    enabled: false,
+    severity: "danger",
+    target: "eyeDrowsy",
+    conditions: [{ field: "eyeDrowsy", operator: "==", value: true }],
+    forMs: 0,
+    occurrences: { count: 2, windowMs: 60000 },
+    clearAfterMs: 10000,
+    cooldownMs: 60000,
+  },
+];
+
+const compare = (
+  actual: number | boolean,
+  { operator, value }: RuleCondition,
+) => {
+  switch (operator) {
+    case ">":
+      return actual > value;
+    case ">=":
+      return actual >= value;
+    case "<":
+      return actual < value;
+    case "<=":
+      return actual <= value;
+    case "==":
+      return actual === value;
+    case "!=":
+      return actual !== value;
+  }
+};
+
+/** Unknown readings never satisfy a condition */
+export const conditionsHold = (
+  conditions: RuleCondition[],
+  frame: TelemetryFrame,
+) =>
+  conditions.every((condition) => {
+    const actual = frame[condition.field];
+    return (
+      actual !== null && actual !== undefined && compare(actual, condition)
+    );
+  });
+
+interface RuleState {
+  holding: boolean;
+  holdingSince: number | null;
+  releasedSince: number | null;
+  onsets: number[];
+  activeSince: number | null;
+  lastFiredAt: number | null;
+}
+
+const initialState = (): RuleState => ({
+  holding: false,
+  holdingSince: null,
+  releasedSince: null,
+  onsets: [],
+  activeSince: null,
+  lastFiredAt: null,
+});
+
+const toAlert = (rule: AlertRule, since: number): ActiveAlert => ({
+  ruleId: rule.id,
+  name: rule.name,
+  severity: rule.severity,
+  target: rule.target,
+  since,
+});
+
+/**
+ * Evaluates rules over a frame stream. Frames must be fed in timestamp
+ * order; durations, cooldowns and hysteresis are measured between frames.
+ */
+export function createRuleEngine(initialRules: AlertRule[]) {
+  let rules = initialRules;
+  let states = new Map<string, RuleState>();
+
+  const evaluate = (frame: TelemetryFrame, now: number): RuleEvaluation => {
+    const result: RuleEvaluation = { active: [], fired: [], cleared: [] };
+
+    rules.forEach((rule) => {
+      const state = states.get(rule.id) ?? initialState();
+      states.set(rule.id, state);
+      const holding = rule.enabled && conditionsHold(rule.conditions, frame);
+
+      if (holding && !state.holding) {
+        state.holdingSince = now;
+        state.releasedSince = null;
+        state.onsets.push(now);
+      } else if (!holding && state.holding) {
+        state.holdingSince = null;
+        state.releasedSince = now;
+      }
+      state.holding = holding;
+      if (rule.occurrences) {
+        const windowStart = now - rule.occurrences.windowMs;
+        state.onsets = state.onsets.filter((onset) => onset >= windowStart);
+      } else {
+        state.onsets = [];
+      }
+
+      if (state.activeSince === null) {
+        const triggered = rule.occurrences
+          ? holding && state.onsets.length >= rule.occurrences.count
+          : holding && now - state.holdingSince >= rule.forMs;
+        const coolingDown =
+          state.lastFiredAt !== null &&
+          now - state.lastFiredAt < rule.cooldownMs;
+        if (triggered && !coolingDown) {
+          state.activeSince = now;
+          state.lastFiredAt = now;
+          state.onsets = [];
+          result.fired.push(toAlert(rule, now));
+        }
+      } else if (
+        !rule.enabled ||
+        (!holding && now - state.releasedSince >= rule.clearAfterMs)
+      ) {
+        result.cleared.push(toAlert(rule, state.activeSince));
+        state.activeSince = null;
+      }
+
+      if (state.activeSince !== null) {
+        result.active.push(toAlert(rule, state.activeSince));
+      }
+    });
+
+    return result;
+  };
+
+  return {
+    evaluate,
+    /** Replace the rule set, keeping state for rules whose id is unchanged */
+    setRules: (next: AlertRule[]) => {
+      rules = next;
+      const ids = new Set(next.map((rule) => rule.id));
+      states = new Map([...states].filter(([id]) => ids.has(id)));
+    },
+    reset: () => {
+      states = new Map();
+    },
+  };
+}
+
+export type RuleEngine = ReturnType<typeof createRuleEngine>;
+
+/**
+ * Re-run rules over stored frames (oldest first) and return the alerts that
+ * were active at each frame.
+ */
+export function evaluateFrames(
+  rules: AlertRule[],
+  frames: { timestamp: number; frame: TelemetryFrame }[],
+): ActiveAlert[][] {
+  const engine = createRuleEngine(rules);
+  return frames.map(
+    ({ timestamp, frame }) => engine.evaluate(frame, timestamp).active,
+  );
+}
+
+const SEVERITY_RANK: Record<StatusLevel, number> = {
+  safe: 0,
+  warning: 1,
+  danger: 2,
+};
+
+export const highestSeverity = (alerts: ActiveAlert[]): AlertSeverity | null =>
+  alerts.reduce<AlertSeverity | null>(
+    (highest, alert) =>
+      !highest || SEVERITY_RANK[alert.severity] > SEVERITY_RANK[highest]
+        ? alert.severity
+        : highest,
+    null,
+  );
+
+/**
+ * Card status for a field: the most severe active alert targeting it, `safe`
+ * for a known value without alerts, and no status for unknown values.
+ */
+export function getFieldStatus(
+  field: RuleField,
+  value: unknown,
+  alerts: ActiveAlert[],
+): StatusLevel | undefined {
+  const severity = highestSeverity(
+    alerts.filter((alert) => alert.target === field),
+  );
+  if (severity) return severity;
+  return value === null || value === undefined ? undefined : "safe";
+}
+
+/**
+ * Lowest enabled `speed >` threshold per severity, used to shade charts.
+ */
+export function getSpeedThresholds(rules: AlertRule[]) {
+  const lowest = (severity: AlertSeverity) => {
+    const values = rules
+      .filter((rule) => rule.enabled && rule.severity === severity)
+      .flatMap((rule) => rule.conditions)
+      .filter(
+        (condition) =>
+          condition.field === "speed" &&
+          (condition.operator === ">" || condition.operator === ">=") &&
+          typeof condition.value === "number",
+      )
+      .map((condition) => condition.value as number);
+    return values.length > 0 ? Math.min(...values) : null;
+  };
+  return { warning: lowest("warning"), danger: lowest("danger") };
+}
+
+const STORAGE_PREFIX = "driving-safety-dashboard:alert-rules";
+
+const storageKey = (vehicleId: string) => `${STORAGE_PREFIX}:${vehicleId}`;
+
+/**
+ * Rules are stored per vehicle; `default` applies when a vehicle has none.
+ */
+export function loadAlertRules(vehicleId = "default"): AlertRule[] {
+  try {
+    const raw =
+      localStorage.getItem(storageKey(vehicleId)) ??
+      localStorage.getItem(storageKey("default"));
+    if (!raw) return DEFAULT_ALERT_RULES;
+    return z.array(alertRuleSchema).parse(JSON.parse(raw));
+  } catch (err) {
+    console.warn("Ignoring invalid stored alert rules:", err);
+    return DEFAULT_ALERT_RULES;
+  }
+}
+
+export function saveAlertRules(rules: AlertRule[], vehicleId = "default") {
+  localStorage.setItem(storageKey(vehicleId), JSON.stringify(rules));
+}
+
+export function clearAlertRules(vehicleId = "default") {
+  localStorage.removeItem(storageKey(vehicleId));
+}
+
+export const isAlertRulesKey = (key: string | null) =>
+  key?.startsWith(STORAGE_PREFIX) ?? false;
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import {
+  appSettingsSchema,
+  DEFAULT_APP_SETTINGS,
+  getStreamUrl,
+  parseAppSettings,
+} from "./app-settings";
+import { STREAM_URL } from "./telemetry-source";
+
+describe("parseAppSettings", () => {
+  it("should fill missing fields with defaults", () => {
+    expect(parseAppSettings({})).toEqual(DEFAULT_APP_SETTINGS);
+    expect(parseAppSettings({ maxHistoryEntries: 120 })).toEqual({
+      ...DEFAULT_APP_SETTINGS,
+      maxHistoryEntries: 120,
+    });
+  });
+
+  it("should coerce numbers entered as text", () => {
+    expect(
+      parseAppSettings({ connectTimeoutMs: "8000" }).connectTimeoutMs,
+    ).toBe(8000);
+  });
+
+  it("should reject values outside the limits", () => {
+    expect(() => parseAppSettings({ maxHistoryEntries: 5 })).toThrow();
+    expect(() => parseAppSettings({ historyAddIntervalMs: 1.5e5 })).toThrow();
+    expect(() => parseAppSettings({ connectTimeoutMs: 2500.5 })).toThrow();
+  });
+});
+
+describe("endpoint validation", () => {
+  const streamValid = (streamUrl: string) =>
+    appSettingsSchema.shape.streamUrl.safeParse(streamUrl).success;
+  const commandValid = (commandUrl: string) =>
+    appSettingsSchema.shape.commandUrl.safeParse(commandUrl).success;
+
+  it("should accept paths and supported stream schemes", () => {
+    [
+      "",
+      "/dashboard/stream",
+      "https://example.com/dashboard/stream",
+      "ws://192.168.4.1:81/",
+      "mqtt+wss://broker.example.com:8884/mqtt?topic=fleet/+/telemetry",
+    ].forEach((url) => expect(streamValid(url)).toBe(true));
+  });
+
+  it("should reject other schemes and malformed URLs", () => {
+    [
+      "ftp://example.com",
+      "//example.com/stream",
+      "example.com",
+      "http://",
+    ].forEach((url) => expect(streamValid(url)).toBe(false));
+  });
+
+  it("should only accept http(s) command endpoints", () => {
+    expect(commandValid("/api/commands")).toBe(true);
+    expect(commandValid("https://example.com/api/commands")).toBe(true);
+    expect(commandValid("wss://example.com/api/commands")).toBe(false);
+  });
+
+  it("should trim surrounding whitespace", () => {
+    expect(parseAppSettings({ streamUrl: " /stream " }).streamUrl).toBe(
+      "/stream",
+    );
+  });
+});
+
+describe("getStreamUrl", () => {
+  it("should fall back to the build's stream", () => {
+    expect(getStreamUrl(DEFAULT_APP_SETTINGS)).toBe(STREAM_URL);
+    expect(
+      getStreamUrl({ ...DEFAULT_APP_SETTINGS, streamUrl: "ws://car.local/" }),
+    ).toBe("ws://car.local/");
+  });
+});
@@ -0,0 +1,94 @@
+import { z } from "zod";
+import { resolveAuthUrl } from "./auth";
+import { resolveCommandUrl } from "./commands";
+import { STREAM_URL } from "./telemetry-source";
+
+export const DEFAULT_APP_SETTINGS: AppSettings = {
+  streamUrl: "",
+  commandUrl: "",
+  maxHistoryEntries: 50,
+  historyAddIntervalMs: 3000,
+  connectTimeoutMs: 5000,
+};
+
+export const APP_SETTINGS_LIMITS = {
+  maxHistoryEntries: { min: 10, max: 500 },
+  historyAddIntervalMs: { min: 500, max: 60000 },
+  connectTimeoutMs: { min: 1000, max: 60000 },
+} as const;
+
+const endpoint = (schemes: RegExp, message: string) =>
+  z
+    .string()
+    .trim()
+    .refine(
+      (value) =>
+        value === "" ||
+        (value.startsWith("/") && !value.startsWith("//")) ||
+        (schemes.test(value) && URL.canParse(value)),
+      message,
+    );
+
+const limited = ({ min, max }: { min: number; max: number }) =>
+  z.coerce.number().int().min(min).max(max);
+
+/**
+ * Connection and timing settings that used to be build-time constants.
+ * Empty endpoints fall back to the build's `VITE_*` configuration.
+ */
+export const appSettingsSchema = z.object({
+  /** Telemetry stream: SSE path or URL, `ws(s)://` or `mqtt+ws(s)://` */
+  streamUrl: endpoint(
+    /^(https?|wss?|mqtt\+wss?):\/\//i,
+    "Use a path starting with / or an http(s), ws(s) or mqtt+ws(s) URL",
+  ),
+  /** Where vehicle commands are posted */
+  commandUrl: endpoint(
+    /^https?:\/\//i,
+    "Use a path starting with / or an http(s) URL",
+  ),
+  /** Rows kept in the live history list */
+  maxHistoryEntries: limited(APP_SETTINGS_LIMITS.maxHistoryEntries),
+  /** Minimum time between two live history rows */
+  historyAddIntervalMs: limited(APP_SETTINGS_LIMITS.historyAddIntervalMs),
+  /** Give up on a connection attempt that has not opened within this time */
+  connectTimeoutMs: limited(APP_SETTINGS_LIMITS.connectTimeoutMs),
+});
+
+export type AppSettings = z.infer<typeof appSettingsSchema>;
+
+export const APP_SETTINGS_STORAGE_KEY = "driving-safety-dashboard:settings";
+
+export function parseAppSettings(input: unknown): AppSettings {
+  return appSettingsSchema.parse({
+    ...DEFAULT_APP_SETTINGS,
+    ...(input as object),
+  });
+}
+
+export function loadAppSettings(): AppSettings {
+  try {
+    const raw = localStorage.getItem(APP_SETTINGS_STORAGE_KEY);
+    if (!raw) return DEFAULT_APP_SETTINGS;
+    return parseAppSettings(JSON.parse(raw));
+  } catch (err) {
+    console.warn("Ignoring invalid stored settings:", err);
+    return DEFAULT_APP_SETTINGS;
+  }
+}
+
+export function saveAppSettings(settings: AppSettings) {
+  localStorage.setItem(APP_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+}
+
+export const getStreamUrl = (settings: AppSettings) =>
+  settings.streamUrl || STREAM_URL;
+
+export const getCommandUrl = (settings: AppSettings) =>
+  resolveCommandUrl(
+    getStreamUrl(settings),
+    settings.commandUrl || import.meta.env.VITE_COMMAND_URL,
+  );
+
+export const getAuthUrl = (settings: AppSettings) =>
+  resolveAuthUrl(getStreamUrl(settings), import.meta.env.VITE_AUTH_URL);
@@ -0,0 +1,176 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { AuthSession } from "@shared/api";
+import {
+  AUTH_SESSION_STORAGE_KEY,
+  fetchAuthStatus,
+  isAllowed,
+  loadAuthRequired,
+  loadAuthSession,
+  login,
+  REQUIRED_ROLES,
+  resolveAuthUrl,
+  saveAuthRequired,
+  saveAuthSession,
+} from "./auth";
+
+const session: AuthSession = {
+  token: "payload.signature",
+  user: { name: "sam", role: "supervisor" },
+  expiresAt: 5000,
+};
+
+const respond = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), { status });
+
+describe("resolveAuthUrl", () => {
+  it("should prefer the configured endpoint", () => {
+    expect(resolveAuthUrl("/dashboard/stream", "https://auth.test/")).toBe(
+      "https://auth.test",
+    );
+  });
+
+  it("should fall back to the stream's server", () => {
+    expect(resolveAuthUrl("/dashboard/stream", undefined)).toBe("/api/auth");
+    expect(resolveAuthUrl("wss://a.test/ws", undefined)).toBe(
+      "https://a.test/api/auth",
+    );
+    expect(resolveAuthUrl("mqtt+wss://broker.test/mqtt", "")).toBeNull();
+  });
+});
+
+describe("isAllowed", () => {
+  const viewer = { name: "vera", role: "viewer" as const };
+
+  it("should keep viewers to watching", () => {
+    expect(isAllowed("signedIn", viewer, REQUIRED_ROLES.viewData)).toBe(true);
+    expect(isAllowed("signedIn", viewer, REQUIRED_ROLES.editSettings)).toBe(
+      false,
+    );
+    expect(isAllowed("signedIn", viewer, REQUIRED_ROLES.sendCommands)).toBe(
+      false,
+    );
+    expect(isAllowed("signedIn", viewer, REQUIRED_ROLES.exportData)).toBe(
+      false,
+    );
+  });
+
+  it("should let supervisors act but only admins edit settings", () => {
+    const supervisor = { name: "sam", role: "supervisor" as const };
+    const admin = { name: "ada", role: "admin" as const };
+
+    expect(isAllowed("signedIn", supervisor, REQUIRED_ROLES.sendCommands)).toBe(
+      true,
+    );
+    expect(isAllowed("signedIn", supervisor, REQUIRED_ROLES.editSettings)).toBe(
+      false,
+    );
+    expect(isAllowed("signedIn", admin, REQUIRED_ROLES.editSettings)).toBe(
+      true,
+    );
+  });
+
+  it("should allow everything only while sign-in is off", () => {
+    expect(isAllowed("open", null, REQUIRED_ROLES.editSettings)).toBe(true);
+    expect(isAllowed("checking", null, REQUIRED_ROLES.viewData)).toBe(false);
+    expect(isAllowed("signedOut", null, REQUIRED_ROLES.viewData)).toBe(false);
+  });
+});
+
+describe("stored session", () => {
+  beforeEach(() => {
+    const items = new Map<string, string>();
+    vi.stubGlobal("localStorage", {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => items.set(key, value),
+      removeItem: (key: string) => items.delete(key),
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should be dropped once expired", () => {
+    saveAuthSession(session);
+
+    expect(loadAuthSession(4999)).toEqual(session);
+    expect(loadAuthSession(5000)).toBeNull();
+  });
+
+  it("should ignore malformed or cleared sessions", () => {
+    localStorage.setItem(AUTH_SESSION_STORAGE_KEY, '{"token":1}');
+    expect(loadAuthSession(0)).toBeNull();
+
+    saveAuthSession(session);
+    saveAuthSession(null);
+    expect(loadAuthSession(0)).toBeNull();
+  });
+
+  it("should require sign-in until a server said it is off", () => {
+    expect(loadAuthRequired()).toBe(true);
+
+    saveAuthRequired(false);
+    expect(loadAuthRequired()).toBe(false);
+    saveAuthRequired(true);
+    expect(loadAuthRequired()).toBe(true);
+  });
+});
+
+describe("login", () => {
+  it("should post the credentials and return the session", async () => {
+    const fetch = vi.fn().mockResolvedValue(respond(200, session));
+
+    expect(
+      await login(
+        { username: "sam", password: "pw" },
+        { url: "/api/auth", fetch },
+      ),
+    ).toEqual(session);
+    expect(fetch.mock.calls[0][0]).toBe("/api/auth/login");
+    expect(JSON.parse(fetch.mock.calls[0][1].body)).toEqual({
+      username: "sam",
+      password: "pw",
+    });
+  });
+
+  it("should report the server's reason for refusing", async () => {
+    const fetch = vi
+      .fn()
+      .mockResolvedValue(
+        respond(401, { errors: ["Invalid username or password"] }),
+      );
+
+    await expect(
+      login({ username: "sam", password: "x" }, { url: "/api/auth", fetch }),
+    ).rejects.toThrow("Invalid username or password");
+  });
+});
+
+describe("fetchAuthStatus", () => {
+  it("should send the token", async () => {
+    const fetch = vi.fn().mockResolvedValue(
+      respond(200, {
+        enabled: true,
+        user: session.user,
+        expiresAt: session.expiresAt,
+      }),
+    );
+
+    const status = await fetchAuthStatus("t.k", { url: "/api/auth", fetch });
+
+    expect(status.user).toEqual(session.user);
+    expect(fetch.mock.calls[0][1].headers).toEqual({
+      Authorization: "Bearer t.k",
+    });
+  });
+
+  it("should treat servers without sign-in as open", async () => {
+    const fetch = vi.fn().mockResolvedValue(respond(404, {}));
+
+    expect(await fetchAuthStatus(null, { url: "/api/auth", fetch })).toEqual({
+      enabled: false,
+      user: null,
+      expiresAt: null,
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import {
+  hasRole,
+  type AuthSession,
+  type AuthStatus,
+  type AuthUser,
+  type LoginRequest,
+  type UserRole,
+} from "@shared/api";
+import { getServerUrl } from "./telemetry-source";
+import { getTransportKind } from "./telemetry-transport";
+
+/**
+ * Where the dashboard signs in: `VITE_AUTH_URL`, or `/api/auth` on the
+ * server that serves the stream. MQTT brokers check their own credentials,
+ * so there is no sign-in unless an auth server is configured.
+ */
+export function resolveAuthUrl(
+  streamUrl: string,
+  envUrl: string | undefined,
+): string | null {
+  if (envUrl) return envUrl.replace(/\/$/, "");
+  return getTransportKind(streamUrl) === "mqtt"
+    ? null
+    : getServerUrl(streamUrl, "/api/auth");
+}
+
+/**
+ * `checking` until the server said whether sign-in is required, `open`
+ * when it is not.
+ */
+export type AuthStatusKind = "checking" | "open" | "signedOut" | "signedIn";
+
+/** Least role for each action the dashboard guards */
+export const REQUIRED_ROLES = {
+  viewData: "viewer",
+  sendCommands: "supervisor",
+  exportData: "supervisor",
+  importData: "supervisor",
+  editSettings: "admin",
+} as const satisfies Record<string, UserRole>;
+
+/** Whether `user` has at least `role`; everyone does while sign-in is off */
+export const isAllowed = (
+  status: AuthStatusKind,
+  user: AuthUser | null,
+  role: UserRole,
+) =>
+  status === "open" ||
+  (status === "signedIn" && hasRole(user?.role ?? null, role));
+
+// Not under the settings prefix, so settings profiles never carry a token
+// and importing one never signs anyone in or out
+const AUTH_PREFIX = "driving-safety-dashboard-auth:";
+
+export const AUTH_SESSION_STORAGE_KEY = `${AUTH_PREFIX}session`;
+
+// Remembered so the dashboard still asks for sign-in when the auth server
+// cannot be reached
+export const AUTH_REQUIRED_STORAGE_KEY = `${AUTH_PREFIX}required`;
+
+/** The stored session, or `null` when there is none or it has expired */
+export function loadAuthSession(now = Date.now()): AuthSession | null {
+  try {
+    const raw = localStorage.getItem(AUTH_SESSION_STORAGE_KEY);
+    if (!raw) return null;
+    const session = JSON.parse(raw) as AuthSession;
+    if (
+      typeof session?.token !== "string" ||
+      typeof session.expiresAt !== "number" ||
+      !session.user?.role
+    ) {
+      return null;
+    }
+    return session.expiresAt > now ? session : null;
+  } catch (err) {
+    console.warn("Ignoring invalid stored session:", err);
+    return null;
+  }
+}
+
+export function saveAuthSession(session: AuthSession | null) {
+  if (session) {
+    localStorage.setItem(AUTH_SESSION_STORAGE_KEY, JSON.stringify(session));
+  } else {
+    localStorage.removeItem(AUTH_SESSION_STORAGE_KEY);
+  }
+}
+
+/**
+ * Whether the last reachable auth server required sign-in. Until one has
+ * answered this fails closed: only a server saying so opens the dashboard.
+ */
+export const loadAuthRequired = () =>
+  localStorage.getItem(AUTH_REQUIRED_STORAGE_KEY) !== "false";
+
+export function saveAuthRequired(required: boolean) {
+  localStorage.setItem(AUTH_REQUIRED_STORAGE_KEY, String(required));
+}
+
+/** Request headers carrying the token, empty without one */
+export const authHeaders = (token: string | null): Record<string, string> =>
+  token ? { Authorization: `Bearer ${token}` } : {};
+
+/** The server's `{ errors }` joined, or the HTTP status without them */
+export const readError = async (response: Response): Promise<string> => {
+  try {
+    const body = await response.json();
+    if (Array.isArray(body?.errors)) return body.errors.join(", ");
+  } catch {
+    // Not a JSON error body
+  }
+  return `HTTP ${response.status}`;
+};
+
+export interface AuthRequestOptions {
+  url: string;
+  fetch?: typeof fetch;
+}
+
+export async function login(
+  credentials: LoginRequest,
+  { url, fetch: fetchFn = fetch }: AuthRequestOptions,
+): Promise<AuthSession> {
+  const response = await fetchFn(`${url}/login`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(credentials),
+  });
+  if (!response.ok) throw new Error(await readError(response));
+  return (await response.json()) as AuthSession;
+}
+
+/** Whether the server requires sign-in and who `token` belongs to */
+export async function fetchAuthStatus(
+  token: string | null,
+  { url, fetch: fetchFn = fetch }: AuthRequestOptions,
+): Promise<AuthStatus> {
+  const response = await fetchFn(`${url}/session`, {
+    headers: authHeaders(token),
+  });
+  // Servers from before sign-in existed have no session endpoint
+  if (response.status === 404) {
+    return { enabled: false, user: null, expiresAt: null };
+  }
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  return (await response.json()) as AuthStatus;
+}
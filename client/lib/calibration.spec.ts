@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import {
+  calibratedRpm,
+  calibratedSpeed,
+  calibrationProfileSchema,
+  DEFAULT_CALIBRATION,
+  interpolate,
+  mechanicalKmhPerRpm,
+  type CalibrationProfile,
+} from "./calibration";
+import { kmhToRpm, rpmToKmh } from "./telemetry";
+
+describe("default calibration", () => {
+  it("should reproduce the original 0.0158 factor", () => {
+    [0, 1, 1520, 5063, 7595, 12345, 20000].forEach((rpm) => {
+      expect(rpmToKmh(rpm)).toBe(Math.round(rpm * 0.0158));
+    });
+    expect(kmhToRpm(80)).toBe(Math.round(80 / 0.0158));
+  });
+
+  it("should match a 6 cm wheel with 30% loss", () => {
+    const factor = mechanicalKmhPerRpm({
+      wheelRadiusM: 0.06,
+      gearRatio: 1,
+      lossFactor: 0.3,
+    });
+    expect(factor).toBeCloseTo(0.0158, 4);
+  });
+});
+
+describe("mechanical profile", () => {
+  const profile: CalibrationProfile = {
+    kind: "mechanical",
+    wheelRadiusM: 0.3,
+    gearRatio: 4,
+    lossFactor: 0,
+  };
+
+  it("should scale with wheel radius and divide by the gear ratio", () => {
+    // 4000 rpm / 4 = 1000 wheel rpm; 2π · 0.3 m · 1000 · 60 = 113.1 km/h
+    expect(calibratedSpeed(4000, profile)).toBeCloseTo(113.097, 3);
+  });
+
+  it("should invert exactly", () => {
+    expect(calibratedRpm(calibratedSpeed(3210, profile), profile)).toBeCloseTo(
+      3210,
+      6,
+    );
+  });
+});
+
+describe("table profile", () => {
+  const points: [number, number][] = [
+    [1000, 10],
+    [3000, 50],
+    [5000, 70],
+  ];
+  const profile: CalibrationProfile = { kind: "table", points };
+
+  it("should interpolate between measured points", () => {
+    expect(calibratedSpeed(1000, profile)).toBe(10);
+    expect(calibratedSpeed(2000, profile)).toBe(30);
+    expect(calibratedSpeed(4000, profile)).toBe(60);
+  });
+
+  it("should extend the outer segments without going negative", () => {
+    expect(calibratedSpeed(6000, profile)).toBe(80);
+    expect(calibratedSpeed(750, profile)).toBe(5);
+    expect(calibratedSpeed(0, profile)).toBe(0);
+  });
+
+  it("should invert through the same points", () => {
+    expect(calibratedRpm(60, profile)).toBe(4000);
+    expect(rpmToKmh(kmhToRpm(42, profile), profile)).toBe(42);
+  });
+
+  it("should reject tables that are not increasing", () => {
+    expect(
+      calibrationProfileSchema.safeParse({
+        kind: "table",
+        points: [
+          [3000, 50],
+          [1000, 10],
+        ],
+      }).success,
+    ).toBe(false);
+  });
+});
+
+describe("interpolate", () => {
+  it("should handle a flat segment", () => {
+    expect(
+      interpolate(
+        [
+          [0, 5],
+          [10, 5],
+        ],
+        3,
+      ),
+    ).toBe(5);
+  });
+});
+
+describe("DEFAULT_CALIBRATION", () => {
+  it("should be a valid profile", () => {
+    expect(calibrationProfileSchema.parse(DEFAULT_CALIBRATION)).toEqual(
+      DEFAULT_CALIBRATION,
+    );
+  });
+});
@@ -0,0 +1,149 @@
+import { z } from "zod";
+import { getVehicleId, type TelemetryFrame } from "@shared/api";
+
+// 2π · 60 min/h / 1000 m/km: wheel circumference per revolution times
+// revolutions per hour, in km
+const KMH_PER_RPM_PER_METER = (2 * Math.PI * 60) / 1000;
+
+const pointSchema = z.tuple([z.number().min(0), z.number().min(0)]);
+
+export const calibrationProfileSchema = z.discriminatedUnion("kind", [
+  /** A single km/h-per-rpm factor */
+  z.object({
+    kind: z.literal("factor"),
+    kmhPerRpm: z.number().positive(),
+  }),
+  /** Derived from the drivetrain: rpm at the sensor, divided by the gearing */
+  z.object({
+    kind: z.literal("mechanical"),
+    wheelRadiusM: z.number().positive(),
+    /** Sensor revolutions per wheel revolution */
+    gearRatio: z.number().positive(),
+    /** Share of speed lost to slip and friction, 0..1 */
+    lossFactor: z.number().min(0).max(0.95),
+  }),
+  /** Measured [rpm, km/h] pairs, linearly interpolated */
+  z.object({
+    kind: z.literal("table"),
+    points: z
+      .array(pointSchema)
+      .min(2)
+      .refine(
+        (points) => points.every((p, i) => i === 0 || p[0] > points[i - 1][0]),
+        "RPM values must be strictly increasing",
+      )
+      .refine(
+        (points) => points.every((p, i) => i === 0 || p[1] >= points[i - 1][1]),
+        "Speeds must not decrease as RPM increases",
+      ),
+  }),
+]);
+
+interface MechanicalCalibration {
+  wheelRadiusM: number;
+  gearRatio: number;
+  lossFactor: number;
+}
+
+// Declared rather than inferred: without strict mode zod widens the tuples
+export type CalibrationProfile =
+  | { kind: "factor"; kmhPerRpm: number }
+  | ({ kind: "mechanical" } & MechanicalCalibration)
+  | { kind: "table"; points: [number, number][] };
+
+export type CalibrationKind = CalibrationProfile["kind"];
+
+// The factor the dashboard has always used: a 6 cm wheel with 30% loss
+export const DEFAULT_CALIBRATION: CalibrationProfile = {
+  kind: "factor",
+  kmhPerRpm: 0.0158,
+};
+
+export const mechanicalKmhPerRpm = ({
+  wheelRadiusM,
+  gearRatio,
+  lossFactor,
+}: MechanicalCalibration) =>
+  (wheelRadiusM * KMH_PER_RPM_PER_METER * (1 - lossFactor)) / gearRatio;
+
+/**
+ * Linear interpolation through sorted points. Outside the table the nearest
+ * segment is extended, never below zero.
+ */
+export function interpolate(points: [number, number][], x: number) {
+  let i = 1;
+  while (i < points.length - 1 && x > points[i][0]) i++;
+  const [x0, y0] = points[i - 1];
+  const [x1, y1] = points[i];
+  const y = x1 === x0 ? y0 : y0 + ((x - x0) * (y1 - y0)) / (x1 - x0);
+  return Math.max(0, y);
+}
+
+/** Unrounded km/h for an rpm reading */
+export function calibratedSpeed(rpm: number, profile: CalibrationProfile) {
+  switch (profile.kind) {
+    case "factor":
+      return rpm * profile.kmhPerRpm;
+    case "mechanical":
+      return rpm * mechanicalKmhPerRpm(profile);
+    case "table":
+      return interpolate(profile.points, rpm);
+  }
+}
+
+/** Inverse of `calibratedSpeed()`; tables are inverted by swapping axes */
+export function calibratedRpm(kmh: number, profile: CalibrationProfile) {
+  switch (profile.kind) {
+    case "factor":
+      return kmh / profile.kmhPerRpm;
+    case "mechanical":
+      return kmh / mechanicalKmhPerRpm(profile);
+    case "table":
+      return interpolate(
+        profile.points.map(([rpm, speed]) => [speed, rpm]),
+        kmh,
+      );
+  }
+}
+
+const STORAGE_PREFIX = "driving-safety-dashboard:calibration";
+
+const storageKey = (vehicleId: string) => `${STORAGE_PREFIX}:${vehicleId}`;
+
+/**
+ * Profiles are stored per vehicle; `default` applies when a vehicle has none.
+ */
+export function loadCalibration(vehicleId = "default"): CalibrationProfile {
+  try {
+    const raw =
+      localStorage.getItem(storageKey(vehicleId)) ??
+      localStorage.getItem(storageKey("default"));
+    if (!raw) return DEFAULT_CALIBRATION;
+    return calibrationProfileSchema.parse(
+      JSON.parse(raw),
+    ) as CalibrationProfile;
+  } catch (err) {
+    console.warn("Ignoring invalid stored calibration:", err);
+    return DEFAULT_CALIBRATION;
+  }
+}
+
+/** Trips are re-summarized with the calibration of the vehicle that drove them */
+export const loadTripCalibration = (frames: { frame: TelemetryFrame }[]) =>
+  loadCalibration(
+    frames.length > 0 ? getVehicleId(frames[0].frame) : undefined,
+  );
+
+export function saveCalibration(
+  profile: CalibrationProfile,
+  vehicleId = "default",
+) {
+  localStorage.setItem(storageKey(vehicleId), JSON.stringify(profile));
+}
+
+export function clearCalibration(vehicleId = "default") {
+  localStorage.removeItem(storageKey(vehicleId));
+}
+
+export const isCalibrationKey = (key: string | null) =>
+  key?.startsWith(STORAGE_PREFIX) ?? false;
@@ -0,0 +1,132 @@
+import { describe, it, expect, vi } from "vitest";
+import type { CommandRecord } from "@shared/api";
+import {
+  createCommandRequest,
+  mergeCommandLog,
+  resolveCommandUrl,
+  sendCommand,
+} from "./commands";
+
+const request = createCommandRequest(
+  "truck-1",
+  { type: "buzzer", durationMs: 1000 },
+  "Dispatch",
+  1000,
+  () => 0.5,
+);
+
+const record = (
+  id: string,
+  sentAt: number,
+  status: CommandRecord["status"] = "queued",
+): CommandRecord => ({
+  ...request,
+  id,
+  sentAt,
+  status,
+  receivedAt: sentAt,
+  deliveredAt: null,
+  acknowledgedAt: null,
+});
+
+const respond = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), { status });
+
+const options = (fetch: typeof globalThis.fetch) => ({
+  url: "/api/commands",
+  fetch,
+  sleep: () => Promise.resolve(),
+});
+
+describe("resolveCommandUrl", () => {
+  it("should prefer the configured endpoint", () => {
+    expect(resolveCommandUrl("/dashboard/stream", "https://cmd.test/c")).toBe(
+      "https://cmd.test/c",
+    );
+  });
+
+  it("should fall back to the stream's server", () => {
+    expect(resolveCommandUrl("/dashboard/stream", undefined)).toBe(
+      "/api/commands",
+    );
+    expect(resolveCommandUrl("wss://a.test/ws", undefined)).toBe(
+      "https://a.test/api/commands",
+    );
+    expect(resolveCommandUrl("mqtt+wss://broker.test/mqtt", "")).toBeNull();
+  });
+});
+
+describe("sendCommand", () => {
+  it("should retry network errors and server failures", async () => {
+    const fetch = vi
+      .fn()
+      .mockRejectedValueOnce(new TypeError("Failed to fetch"))
+      .mockResolvedValueOnce(respond(503, {}))
+      .mockResolvedValueOnce(respond(202, record(request.id, 1000)));
+    const onRetry = vi.fn();
+
+    const result = await sendCommand(request, { ...options(fetch), onRetry });
+
+    expect(result.status).toBe("queued");
+    expect(fetch).toHaveBeenCalledTimes(3);
+    expect(onRetry.mock.calls.map(([attempt]) => attempt)).toEqual([1, 2]);
+    expect(JSON.parse(fetch.mock.calls[2][1].body)).toEqual(request);
+  });
+
+  it("should give up after the last attempt", async () => {
+    const fetch = vi.fn().mockResolvedValue(respond(500, {}));
+    await expect(
+      sendCommand(request, { ...options(fetch), attempts: 2 }),
+    ).rejects.toThrow("HTTP 500");
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("should not retry a command the server rejected", async () => {
+    const fetch = vi
+      .fn()
+      .mockResolvedValue(respond(400, { errors: ["command.text: Too long"] }));
+    await expect(sendCommand(request, options(fetch))).rejects.toThrow(
+      "command.text: Too long",
+    );
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("should send the sign-in token", async () => {
+    const fetch = vi
+      .fn()
+      .mockResolvedValue(respond(202, record(request.id, 1000)));
+    await sendCommand(request, { ...options(fetch), token: "t.k" });
+
+    expect(fetch.mock.calls[0][1].headers).toMatchObject({
+      Authorization: "Bearer t.k",
+    });
+  });
+});
+
+describe("mergeCommandLog", () => {
+  it("should show unconfirmed commands until the server knows them", () => {
+    const log = mergeCommandLog(
+      [record("a", 1000, "acknowledged")],
+      [
+        {
+          request: { ...request, id: "a" },
+          status: "sending",
+          attempts: 0,
+          error: null,
+        },
+        {
+          request: { ...request, id: "b", sentAt: 2000 },
+          status: "failed",
+          attempts: 3,
+          error: "HTTP 500",
+        },
+      ],
+    );
+
+    expect(log.map((entry) => [entry.id, entry.status])).toEqual([
+      ["b", "failed"],
+      ["a", "acknowledged"],
+    ]);
+    expect(log[0].error).toBe("HTTP 500");
+  });
+});
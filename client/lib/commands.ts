@@ -0,0 +1,217 @@
+import type {
+  CommandRecord,
+  CommandRequest,
+  CommandStatus,
+  VehicleCommand,
+  VehicleCommandType,
+} from "@shared/api";
+import { authHeaders, readError } from "./auth";
+import { getBackoffDelay, type BackoffOptions } from "./telemetry-connection";
+import { getServerUrl, STREAM_URL } from "./telemetry-source";
+import { getTransportKind, withQueryParam } from "./telemetry-transport";
+
+/**
+ * Where commands are posted: `VITE_COMMAND_URL`, or `/api/commands` on the
+ * server that serves the stream. MQTT brokers have no command endpoint, so
+ * commands are unavailable unless one is configured.
+ */
+export function resolveCommandUrl(
+  streamUrl: string,
+  envUrl: string | undefined,
+): string | null {
+  if (envUrl) return envUrl;
+  return getTransportKind(streamUrl) === "mqtt"
+    ? null
+    : getServerUrl(streamUrl, "/api/commands");
+}
+
+export const COMMAND_URL = resolveCommandUrl(
+  STREAM_URL,
+  import.meta.env.VITE_COMMAND_URL,
+);
+
+export const COMMAND_ATTEMPTS = 4;
+
+const COMMAND_BACKOFF: BackoffOptions = {
+  initialDelay: 1000,
+  maxDelay: 8000,
+  multiplier: 2,
+  jitter: 0.5,
+};
+
+export const OPERATOR_STORAGE_KEY = "driving-safety-dashboard:operator";
+
+export function loadOperator(): string {
+  return localStorage.getItem(OPERATOR_STORAGE_KEY) ?? "";
+}
+
+export function saveOperator(name: string) {
+  localStorage.setItem(OPERATOR_STORAGE_KEY, name);
+}
+
+export const COMMAND_TYPE_LABELS: Record<VehicleCommandType, string> = {
+  acknowledgeAlert: "Acknowledge alert",
+  buzzer: "Buzzer",
+  message: "Message",
+};
+
+export function describeCommand(command: VehicleCommand): string {
+  switch (command.type) {
+    case "acknowledgeAlert":
+      return `Acknowledged: ${command.alertName}`;
+    case "buzzer":
+      return `Buzzer ${command.durationMs / 1000}s`;
+    case "message":
+      return `Message: “${command.text}”`;
+  }
+}
+
+/** Server states plus the two the sender knows before the server does */
+export type CommandLogStatus = CommandStatus | "sending" | "failed";
+
+export const COMMAND_STATUS_LABELS: Record<CommandLogStatus, string> = {
+  sending: "Sending",
+  failed: "Failed",
+  queued: "Queued",
+  delivered: "Delivered",
+  acknowledged: "Acknowledged",
+};
+
+/** A command the server has not confirmed yet */
+export interface OutboxEntry {
+  request: CommandRequest;
+  status: "sending" | "failed";
+  attempts: number;
+  error: string | null;
+}
+
+export interface CommandLogEntry extends CommandRequest {
+  status: CommandLogStatus;
+  deliveredAt: number | null;
+  acknowledgedAt: number | null;
+  /** Submission attempts and the last error, for commands still in the outbox */
+  attempts: number | null;
+  error: string | null;
+}
+
+export function createCommandRequest(
+  vehicleId: string,
+  command: VehicleCommand,
+  sentBy: string,
+  now = Date.now(),
+  random: () => number = Math.random,
+): CommandRequest {
+  return {
+    id: `cmd-${now.toString(36)}-${Math.floor(random() * 0xffffff).toString(36)}`,
+    vehicleId,
+    command,
+    sentBy,
+    sentAt: now,
+  };
+}
+
+/**
+ * Outbox entries and the server's audit log as one list, newest first.
+ * Entries the server has confirmed show the server's state.
+ */
+export function mergeCommandLog(
+  records: CommandRecord[],
+  outbox: OutboxEntry[],
+): CommandLogEntry[] {
+  const known = new Set(records.map((record) => record.id));
+  return [
+    ...records.map((record) => ({ ...record, attempts: null, error: null })),
+    ...outbox
+      .filter((entry) => !known.has(entry.request.id))
+      .map((entry) => ({
+        ...entry.request,
+        status: entry.status,
+        deliveredAt: null,
+        acknowledgedAt: null,
+        attempts: entry.attempts,
+        error: entry.error,
+      })),
+  ].sort((a, b) => b.sentAt - a.sentAt);
+}
+
+/** Whether the entry may still change without anyone acting on it */
+export const isCommandPending = (entry: CommandLogEntry) =>
+  entry.status === "sending" ||
+  entry.status === "queued" ||
+  entry.status === "delivered";
+
+export interface SendCommandOptions {
+  url?: string;
+  /** Sign-in token, when the server requires one */
+  token?: string | null;
+  attempts?: number;
+  fetch?: typeof fetch;
+  sleep?: (ms: number) => Promise<void>;
+  /** Called before every retry with the attempt number (1-based) */
+  onRetry?: (attempt: number, error: Error) => void;
+}
+
+const wait = (ms: number) => new Promise<void>((r) => setTimeout(r, ms));
+
+/**
+ * Post a command, retrying network errors and server failures with backoff.
+ * The server keys commands by id, so a retry after a lost response does not
+ * queue the command twice. Requests the server rejects are not retried.
+ */
+export async function sendCommand(
+  request: CommandRequest,
+  {
+    url = COMMAND_URL,
+    token = null,
+    attempts = COMMAND_ATTEMPTS,
+    fetch: fetchFn = fetch,
+    sleep = wait,
+    onRetry,
+  }: SendCommandOptions = {},
+): Promise<CommandRecord> {
+  if (!url) throw new Error("No command endpoint configured");
+
+  let lastError: Error = null;
+  for (let attempt = 0; attempt < attempts; attempt++) {
+    if (attempt > 0) {
+      onRetry?.(attempt, lastError);
+      await sleep(getBackoffDelay(attempt - 1, COMMAND_BACKOFF));
+    }
+
+    let response: Response;
+    try {
+      response = await fetchFn(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...authHeaders(token) },
+        body: JSON.stringify(request),
+      });
+    } catch (err) {
+      lastError = err instanceof Error ? err : new Error(String(err));
+      continue;
+    }
+
+    if (response.ok) return (await response.json()) as CommandRecord;
+    lastError = new Error(await readError(response));
+    const retryable =
+      response.status >= 500 ||
+      response.status === 408 ||
+      response.status === 429;
+    if (!retryable) throw lastError;
+  }
+  throw lastError;
+}
+
+export async function fetchCommandLog(
+  vehicleId: string,
+  {
+    url = COMMAND_URL,
+    token = null,
+    fetch: fetchFn = fetch,
+  }: SendCommandOptions = {},
+): Promise<CommandRecord[]> {
+  const response = await fetchFn(withQueryParam(url, "vehicleId", vehicleId), {
+    headers: authHeaders(token),
+  });
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  return (await response.json()) as CommandRecord[];
+}
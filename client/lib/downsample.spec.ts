@@ -0,0 +1,34 @@
+import { describe, it, expect } from "vitest";
+import { downsampleLttb } from "./downsample";
+
+const series = (length: number) =>
+  Array.from({ length }, (_, i) => ({ x: i, y: Math.sin(i / 10) * 10 }));
+
+const lttb = (data: { x: number; y: number }[], threshold: number) =>
+  downsampleLttb(
+    data,
+    threshold,
+    (p) => p.x,
+    (p) => p.y,
+  );
+
+describe("downsampleLttb", () => {
+  it("should return small series unchanged", () => {
+    const data = series(10);
+    expect(lttb(data, 50)).toBe(data);
+  });
+
+  it("should reduce to the threshold and keep both ends", () => {
+    const data = series(5000);
+    const sampled = lttb(data, 200);
+    expect(sampled).toHaveLength(200);
+    expect(sampled[0]).toBe(data[0]);
+    expect(sampled[199]).toBe(data[4999]);
+  });
+
+  it("should preserve a single spike", () => {
+    const data = series(1000).map((p) => ({ ...p, y: 0 }));
+    data[500] = { x: 500, y: 120 };
+    expect(lttb(data, 50)).toContain(data[500]);
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Largest-Triangle-Three-Buckets downsampling. Keeps the visual shape of a
+ * series (peaks included) while cutting it to `threshold` points, which keeps
+ * charts responsive with hours of 2 Hz telemetry.
+ */
+export function downsampleLttb<T>(
+  data: T[],
+  threshold: number,
+  getX: (point: T) => number,
+  getY: (point: T) => number,
+): T[] {
+  if (threshold >= data.length || threshold < 3) return data;
+
+  const sampled: T[] = [data[0]];
+  const bucketSize = (data.length - 2) / (threshold - 2);
+  let previous = 0;
+
+  for (let bucket = 0; bucket < threshold - 2; bucket++) {
+    // Average of the next bucket is the third corner of the triangle
+    const nextStart = Math.floor((bucket + 1) * bucketSize) + 1;
+    const nextEnd = Math.min(
+      Math.floor((bucket + 2) * bucketSize) + 1,
+      data.length,
+    );
+    let avgX = 0;
+    let avgY = 0;
+    for (let i = nextStart; i < nextEnd; i++) {
+      avgX += getX(data[i]);
+      avgY += getY(data[i]);
+    }
+    const nextCount = Math.max(nextEnd - nextStart, 1);
+    avgX /= nextCount;
+    avgY /= nextCount;
+
+    const start = Math.floor(bucket * bucketSize) + 1;
+    const end = Math.floor((bucket + 1) * bucketSize) + 1;
+    const prevX = getX(data[previous]);
+    const prevY = getY(data[previous]);
+    let maxArea = -1;
+    let chosen = start;
+    for (let i = start; i < end; i++) {
+      const area = Math.abs(
+        (prevX - avgX) * (getY(data[i]) - prevY) -
+          (prevX - getX(data[i])) * (avgY - prevY),
+      );
+      if (area > maxArea) {
+        maxArea = area;
+        chosen = i;
+      }
+    }
+
+    sampled.push(data[chosen]);
+    previous = chosen;
+  }
+
+  sampled.push(data[data.length - 1]);
+  return sampled;
+}
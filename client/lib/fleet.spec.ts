@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_ALERT_RULES } from "./alert-rules";
+import {
+  createFleetTracker,
+  getVehicleConnectionState,
+  sortFleet,
+  VEHICLE_OFFLINE_AFTER,
+  VEHICLE_STALE_AFTER,
+} from "./fleet";
+
+describe("createFleetTracker", () => {
+  it("should keep alerts separate per vehicle", () => {
+    const tracker = createFleetTracker(() => DEFAULT_ALERT_RULES);
+    tracker.ingest({ vehicleId: "truck-1", eyeDrowsy: true }, 1000);
+    tracker.ingest({ vehicleId: "truck-2", eyeDrowsy: false }, 1000);
+    tracker.ingest({ eyeDrowsy: false }, 1000);
+
+    const alerts = Object.fromEntries(
+      tracker
+        .getVehicles()
+        .map((vehicle) => [vehicle.vehicleId, vehicle.alerts.length]),
+    );
+    expect(alerts).toEqual({ "truck-1": 1, "truck-2": 0, default: 0 });
+  });
+
+  it("should use each vehicle's own rules", () => {
+    const tracker = createFleetTracker((vehicleId) =>
+      vehicleId === "truck-1" ? [] : DEFAULT_ALERT_RULES,
+    );
+    expect(
+      tracker.ingest({ vehicleId: "truck-1", speed: 150 }, 0).alerts,
+    ).toEqual([]);
+    expect(
+      tracker.ingest({ vehicleId: "truck-2", speed: 150 }, 0).alerts,
+    ).toHaveLength(2);
+  });
+
+  it("should merge partial frames and keep alerts while fields are fresh", () => {
+    const tracker = createFleetTracker(() => DEFAULT_ALERT_RULES, 3000);
+    expect(
+      tracker.ingest({ vehicleId: "truck-1", speed: 150 }, 0).alerts,
+    ).toHaveLength(2);
+
+    const merged = tracker.ingest(
+      { vehicleId: "truck-1", temperature: 20 },
+      1000,
+    );
+    expect(merged.frame).toEqual({ speed: 150, temperature: 20 });
+    expect(merged.alerts).toHaveLength(2);
+
+    // The speed is still shown but no longer fresh enough for the rules
+    const stale = tracker.ingest(
+      { vehicleId: "truck-1", temperature: 21 },
+      4000,
+    );
+    expect(stale.frame.speed).toBe(150);
+    expect(stale.alerts).toEqual([]);
+  });
+
+  it("should clear a silent vehicle's alerts once its readings are stale", () => {
+    const tracker = createFleetTracker(() => DEFAULT_ALERT_RULES, 3000);
+    tracker.ingest({ vehicleId: "truck-1", rolloverDetected: true }, 0);
+
+    tracker.age(2000);
+    expect(tracker.getVehicles()[0].alerts).toHaveLength(1);
+    tracker.age(4000);
+    expect(tracker.getVehicles()[0].alerts).toEqual([]);
+  });
+
+  it("should not let a snapshot overwrite live state", () => {
+    const tracker = createFleetTracker(() => DEFAULT_ALERT_RULES);
+    tracker.ingest({ vehicleId: "truck-1", speed: 50 }, 2000);
+    tracker.seed({ vehicleId: "truck-1", speed: 10 }, 1000);
+    tracker.seed({ vehicleId: "truck-2", speed: 10 }, 1000);
+    expect(tracker.getVehicles().map((vehicle) => vehicle.frame.speed)).toEqual(
+      [50, 10],
+    );
+  });
+});
+
+describe("getVehicleConnectionState", () => {
+  it("should age a silent vehicle to stale and then offline", () => {
+    expect(getVehicleConnectionState(0, VEHICLE_STALE_AFTER, "live")).toBe(
+      "live",
+    );
+    expect(getVehicleConnectionState(0, VEHICLE_STALE_AFTER + 1, "live")).toBe(
+      "stale",
+    );
+    expect(
+      getVehicleConnectionState(0, VEHICLE_OFFLINE_AFTER + 1, "stale"),
+    ).toBe("offline");
+  });
+
+  it("should report the stream state while the stream is down", () => {
+    expect(getVehicleConnectionState(0, 0, "backoff")).toBe("backoff");
+  });
+});
+
+describe("sortFleet", () => {
+  it("should put the most severe vehicles first", () => {
+    const tracker = createFleetTracker(() => DEFAULT_ALERT_RULES);
+    tracker.ingest({ vehicleId: "calm", speed: 40 }, 3000);
+    tracker.ingest({ vehicleId: "fast", speed: 100 }, 1000);
+    tracker.ingest({ vehicleId: "rolled", rolloverDetected: true }, 2000);
+    tracker.ingest({ vehicleId: "quiet", speed: 40 }, 500);
+
+    expect(
+      sortFleet(tracker.getVehicles()).map((vehicle) => vehicle.vehicleId),
+    ).toEqual(["rolled", "fast", "calm", "quiet"]);
+  });
+});
@@ -0,0 +1,151 @@
+import { getVehicleId, type TelemetryFrame } from "@shared/api";
+import {
+  createRuleEngine,
+  highestSeverity,
+  type ActiveAlert,
+  type AlertRule,
+  type RuleEngine,
+} from "./alert-rules";
+import {
+  DEFAULT_FRESHNESS_SETTINGS,
+  getFreshFrame,
+  recordReadings,
+  type FieldReadings,
+} from "./freshness";
+import type { ConnectionState } from "./telemetry-connection";
+import type { StatusLevel } from "./telemetry";
+
+/** A vehicle that sent nothing for this long is shown as stale */
+export const VEHICLE_STALE_AFTER = 5000;
+/** ...and after this long as offline */
+export const VEHICLE_OFFLINE_AFTER = 60 * 1000;
+
+export interface VehicleState {
+  vehicleId: string;
+  lastSeen: number;
+  /** Every field's last value, however old; see `readings` for ages */
+  frame: TelemetryFrame;
+  readings: FieldReadings;
+  alerts: ActiveAlert[];
+}
+
+const latestFrame = (readings: FieldReadings) =>
+  Object.fromEntries(
+    Object.entries(readings).map(([field, reading]) => [field, reading.value]),
+  ) as TelemetryFrame;
+
+/**
+ * Connection state of one vehicle: the stream's own state while it is not
+ * live, otherwise derived from how long the vehicle has been silent.
+ */
+export function getVehicleConnectionState(
+  lastSeen: number,
+  now: number,
+  streamState: ConnectionState,
+): ConnectionState {
+  if (streamState !== "live" && streamState !== "stale") return streamState;
+  const silentFor = now - lastSeen;
+  if (silentFor > VEHICLE_OFFLINE_AFTER) return "offline";
+  if (silentFor > VEHICLE_STALE_AFTER) return "stale";
+  return "live";
+}
+
+const SEVERITY_ORDER: Record<StatusLevel | "none", number> = {
+  danger: 0,
+  warning: 1,
+  safe: 2,
+  none: 2,
+};
+
+/**
+ * Most severe vehicles first, then the ones seen most recently.
+ */
+export const sortFleet = (vehicles: VehicleState[]) =>
+  [...vehicles].sort(
+    (a, b) =>
+      SEVERITY_ORDER[highestSeverity(a.alerts) ?? "none"] -
+        SEVERITY_ORDER[highestSeverity(b.alerts) ?? "none"] ||
+      b.lastSeen - a.lastSeen ||
+      a.vehicleId.localeCompare(b.vehicleId),
+  );
+
+/**
+ * Demultiplexes a mixed stream into per-vehicle state, each vehicle with
+ * its own rule engine and rule set. Frames are merged like on the vehicle's
+ * dashboard: fields a frame leaves out keep their last value, and rules
+ * only see the fresh ones.
+ */
+export function createFleetTracker(
+  rulesFor: (vehicleId: string) => AlertRule[],
+  staleAfterMs = DEFAULT_FRESHNESS_SETTINGS.staleAfterMs,
+) {
+  const vehicles = new Map<string, VehicleState>();
+  const engines = new Map<string, RuleEngine>();
+
+  const engineFor = (vehicleId: string) => {
+    let engine = engines.get(vehicleId);
+    if (!engine) {
+      engine = createRuleEngine(rulesFor(vehicleId));
+      engines.set(vehicleId, engine);
+    }
+    return engine;
+  };
+
+  return {
+    ingest: (frame: TelemetryFrame, now: number): VehicleState => {
+      const vehicleId = getVehicleId(frame);
+      const readings = recordReadings(
+        vehicles.get(vehicleId)?.readings ?? {},
+        frame,
+        now,
+      );
+      const state: VehicleState = {
+        vehicleId,
+        lastSeen: now,
+        frame: latestFrame(readings),
+        readings,
+        alerts: engineFor(vehicleId).evaluate(
+          getFreshFrame(readings, now, staleAfterMs),
+          now,
+        ).active,
+      };
+      vehicles.set(vehicleId, state);
+      return state;
+    },
+    /** Show a vehicle known from a snapshot; its alerts start empty */
+    seed: (frame: TelemetryFrame, lastSeen: number) => {
+      const vehicleId = getVehicleId(frame);
+      if (vehicles.has(vehicleId)) return;
+      const readings = recordReadings({}, frame, lastSeen);
+      vehicles.set(vehicleId, {
+        vehicleId,
+        lastSeen,
+        frame: latestFrame(readings),
+        readings,
+        alerts: [],
+      });
+    },
+    /**
+     * Re-evaluate every vehicle's rules at `now`, so the alerts of a vehicle
+     * that went silent clear once its readings are stale
+     */
+    age: (now: number) => {
+      vehicles.forEach((state, vehicleId) => {
+        const engine = engines.get(vehicleId);
+        if (!engine) return;
+        const alerts = engine.evaluate(
+          getFreshFrame(state.readings, now, staleAfterMs),
+          now,
+        ).active;
+        vehicles.set(vehicleId, { ...state, alerts });
+      });
+    },
+    /** Re-read every vehicle's rules, e.g. after they were edited */
+    reloadRules: () => {
+      engines.forEach((engine, vehicleId) =>
+        engine.setRules(rulesFor(vehicleId)),
+      );
+    },
+    getVehicles: () => [...vehicles.values()],
+  };
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { getFieldState, getFreshFrame, recordReadings } from "./freshness";
+
+describe("recordReadings", () => {
+  it("should keep fields that are missing from a frame", () => {
+    let readings = recordReadings({}, { rpm: 1500, eyeDrowsy: true }, 1000);
+    readings = recordReadings(readings, { rpm: 1600 }, 2000);
+    expect(readings).toEqual({
+      rpm: { value: 1600, receivedAt: 2000 },
+      eyeDrowsy: { value: true, receivedAt: 1000 },
+    });
+  });
+});
+
+describe("getFieldState", () => {
+  const readings = recordReadings(
+    recordReadings({}, { rpm: 1500, eyeDrowsy: false }, 1000),
+    { rpm: null },
+    4000,
+  );
+
+  it("should mark a field stale once it is older than the limit", () => {
+    expect(getFieldState(readings, "eyeDrowsy", 3000, 3000)).toEqual({
+      value: false,
+      freshness: "fresh",
+      ageMs: 2000,
+    });
+    expect(getFieldState(readings, "eyeDrowsy", 5000, 3000)).toEqual({
+      value: false,
+      freshness: "stale",
+      ageMs: 4000,
+    });
+  });
+
+  it("should treat unavailable and never received fields as unknown", () => {
+    expect(getFieldState(readings, "rpm", 4000, 3000)).toMatchObject({
+      value: null,
+      freshness: "unknown",
+    });
+    expect(getFieldState(readings, "steerInactive", 4000, 3000)).toEqual({
+      value: null,
+      freshness: "unknown",
+      ageMs: null,
+    });
+  });
+});
+
+describe("getFreshFrame", () => {
+  it("should leave out stale and unknown fields", () => {
+    const readings = recordReadings(
+      recordReadings({}, { eyeDrowsy: true, rpm: 900 }, 0),
+      { rpm: 1000, steerInactive: null },
+      5000,
+    );
+    expect(getFreshFrame(readings, 6000, 3000)).toEqual({ rpm: 1000 });
+  });
+});
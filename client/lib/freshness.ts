@@ -0,0 +1,118 @@
+import { z } from "zod";
+import {
+  TELEMETRY_FIELDS,
+  type TelemetryField,
+  type TelemetryFrame,
+} from "@shared/api";
+
+/**
+ * `fresh`: received recently. `stale`: last value is older than the
+ * configured age. `unknown`: never received, or reported as unavailable.
+ */
+export type Freshness = "fresh" | "stale" | "unknown";
+
+export interface FieldReading {
+  value: unknown;
+  receivedAt: number;
+}
+
+export type FieldReadings = Partial<Record<TelemetryField, FieldReading>>;
+
+export interface FieldState<T> {
+  value: T | null;
+  freshness: Freshness;
+  /** Time since the field was last received, `null` if it never was */
+  ageMs: number | null;
+}
+
+/**
+ * Merge a frame into the readings. Fields missing from the frame keep their
+ * previous value and age; an explicit `null` is recorded as unavailable.
+ */
+export function recordReadings(
+  readings: FieldReadings,
+  frame: TelemetryFrame,
+  now: number,
+): FieldReadings {
+  const next = { ...readings };
+  TELEMETRY_FIELDS.forEach((field) => {
+    if (frame[field] !== undefined) {
+      next[field] = { value: frame[field], receivedAt: now };
+    }
+  });
+  return next;
+}
+
+export function getFieldState<T>(
+  readings: FieldReadings,
+  field: TelemetryField,
+  now: number,
+  staleAfterMs: number,
+): FieldState<T> {
+  const reading = readings[field];
+  if (!reading) return { value: null, freshness: "unknown", ageMs: null };
+
+  const ageMs = Math.max(0, now - reading.receivedAt);
+  if (reading.value === null) {
+    return { value: null, freshness: "unknown", ageMs };
+  }
+  return {
+    value: reading.value as T,
+    freshness: ageMs > staleAfterMs ? "stale" : "fresh",
+    ageMs,
+  };
+}
+
+/**
+ * Only the fields that are currently fresh, so rules never act on old values.
+ */
+export function getFreshFrame(
+  readings: FieldReadings,
+  now: number,
+  staleAfterMs: number,
+): TelemetryFrame {
+  const frame: Record<string, unknown> = {};
+  TELEMETRY_FIELDS.forEach((field) => {
+    const state = getFieldState(readings, field, now, staleAfterMs);
+    if (state.freshness === "fresh") frame[field] = state.value;
+  });
+  return frame as TelemetryFrame;
+}
+
+export const freshnessSettingsSchema = z.object({
+  /** A field turns stale when it was not received for this long */
+  staleAfterMs: z.number().min(500),
+  /**
+   * Show placeholder "safe" values while disconnected instead of stale or
+   * unknown fields. Off by default because it hides that data is missing.
+   */
+  fallbackMode: z.boolean(),
+});
+
+export type FreshnessSettings = z.infer<typeof freshnessSettingsSchema>;
+
+// Six missed frames at the device's 2 Hz rate
+export const DEFAULT_FRESHNESS_SETTINGS: FreshnessSettings = {
+  staleAfterMs: 3000,
+  fallbackMode: false,
+};
+
+export const FRESHNESS_STORAGE_KEY = "driving-safety-dashboard:freshness";
+
+export function loadFreshnessSettings(): FreshnessSettings {
+  try {
+    const raw = localStorage.getItem(FRESHNESS_STORAGE_KEY);
+    if (!raw) return DEFAULT_FRESHNESS_SETTINGS;
+    return freshnessSettingsSchema.parse({
+      ...DEFAULT_FRESHNESS_SETTINGS,
+      ...JSON.parse(raw),
+    });
+  } catch (err) {
+    console.warn("Ignoring invalid stored freshness settings:", err);
+    return DEFAULT_FRESHNESS_SETTINGS;
+  }
+}
+
+export function saveFreshnessSettings(settings: FreshnessSettings) {
+  localStorage.setItem(FRESHNESS_STORAGE_KEY, JSON.stringify(settings));
+}
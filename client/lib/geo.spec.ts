@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import {
+  createProjection,
+  distanceKm,
+  extractTrack,
+  positionAt,
+  trackDistanceKm,
+} from "./geo";
+
+const SIZE = { width: 600, height: 360, padding: 20 };
+
+describe("extractTrack", () => {
+  it("should combine coordinates sent in separate frames", () => {
+    const track = extractTrack([
+      { timestamp: 0, frame: { rpm: 100 } },
+      { timestamp: 1, frame: { latitude: 52.5 } },
+      { timestamp: 2, frame: { longitude: 13.4, heading: 90 } },
+      { timestamp: 3, frame: { rpm: 200 } },
+      { timestamp: 4, frame: { latitude: 52.6, longitude: 13.5 } },
+    ]);
+
+    expect(track).toEqual([
+      { timestamp: 2, latitude: 52.5, longitude: 13.4, heading: 90 },
+      { timestamp: 4, latitude: 52.6, longitude: 13.5, heading: 90 },
+    ]);
+  });
+
+  it("should drop positions while the fix is unavailable", () => {
+    const track = extractTrack([
+      { timestamp: 1, frame: { latitude: 52.5, longitude: 13.4 } },
+      { timestamp: 2, frame: { latitude: null, longitude: null } },
+      { timestamp: 3, frame: { longitude: 13.5 } },
+    ]);
+
+    expect(track.map((point) => point.timestamp)).toEqual([1]);
+  });
+});
+
+describe("positionAt", () => {
+  const track = extractTrack(
+    [10, 20, 30].map((timestamp) => ({
+      timestamp,
+      frame: { latitude: timestamp, longitude: 0 },
+    })),
+  );
+
+  it("should return the last position at or before a time", () => {
+    expect(positionAt(track, 20).latitude).toBe(20);
+    expect(positionAt(track, 29).latitude).toBe(20);
+    expect(positionAt(track, 99).latitude).toBe(30);
+  });
+
+  it("should return null before the first fix", () => {
+    expect(positionAt(track, 5)).toBeNull();
+  });
+});
+
+describe("distanceKm", () => {
+  it("should measure great-circle distances", () => {
+    const berlin = { latitude: 52.52, longitude: 13.405 };
+    const paris = { latitude: 48.8566, longitude: 2.3522 };
+    expect(distanceKm(berlin, paris)).toBeCloseTo(878, -1);
+    expect(trackDistanceKm([])).toBe(0);
+  });
+});
+
+describe("createProjection", () => {
+  it("should fit the track into the map with north up", () => {
+    const { project } = createProjection(
+      [
+        { latitude: 0, longitude: 0 },
+        { latitude: 1, longitude: 1 },
+      ],
+      SIZE,
+    );
+    const [westX, southY] = project(0, 0);
+    const [eastX, northY] = project(1, 1);
+
+    expect(northY).toBeCloseTo(SIZE.padding);
+    expect(southY).toBeCloseTo(SIZE.height - SIZE.padding);
+    expect(eastX - westX).toBeCloseTo(southY - northY, 0);
+    expect((westX + eastX) / 2).toBeCloseTo(SIZE.width / 2);
+  });
+
+  it("should center a single position", () => {
+    const { project, kmPerUnit } = createProjection(
+      [{ latitude: 52.5, longitude: 13.4 }],
+      SIZE,
+    );
+    expect(project(52.5, 13.4)).toEqual([SIZE.width / 2, SIZE.height / 2]);
+    expect(Number.isFinite(kmPerUnit)).toBe(true);
+  });
+});
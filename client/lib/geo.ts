@@ -0,0 +1,142 @@
+import type { StoredFrame } from "./trip-storage";
+
+export interface TrackPoint {
+  timestamp: number;
+  latitude: number;
+  longitude: number;
+  /** Degrees clockwise from north, `null` when the device did not send it */
+  heading: number | null;
+}
+
+export interface MapSize {
+  width: number;
+  height: number;
+  /** Space kept free around the track for pins */
+  padding: number;
+}
+
+export interface MapProjection {
+  /** SVG coordinates of a position */
+  project: (latitude: number, longitude: number) => [number, number];
+  /** Kilometres per SVG unit, for the scale bar */
+  kmPerUnit: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Positions in stored frames, oldest first. Latitude and longitude may come
+ * in separate frames, so each keeps its last known value; a `null` ends the
+ * fix until both are known again.
+ */
+export function extractTrack(frames: StoredFrame[]): TrackPoint[] {
+  const track: TrackPoint[] = [];
+  let latitude: number | null = null;
+  let longitude: number | null = null;
+  let heading: number | null = null;
+
+  frames.forEach(({ timestamp, frame }) => {
+    if (frame.latitude !== undefined) latitude = frame.latitude;
+    if (frame.longitude !== undefined) longitude = frame.longitude;
+    if (frame.heading !== undefined) heading = frame.heading;
+    if (
+      (frame.latitude === undefined && frame.longitude === undefined) ||
+      latitude === null ||
+      longitude === null
+    ) {
+      return;
+    }
+    track.push({ timestamp, latitude, longitude, heading });
+  });
+  return track;
+}
+
+/**
+ * Last position at or before `timestamp`, or `null` before the first fix.
+ * `track` must be ordered by timestamp.
+ */
+export function positionAt(
+  track: TrackPoint[],
+  timestamp: number,
+): TrackPoint | null {
+  let low = 0;
+  let high = track.length - 1;
+  let found: TrackPoint | null = null;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (track[middle].timestamp <= timestamp) {
+      found = track[middle];
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return found;
+}
+
+/** Great-circle distance in kilometres */
+export function distanceKm(
+  from: Pick<TrackPoint, "latitude" | "longitude">,
+  to: Pick<TrackPoint, "latitude" | "longitude">,
+) {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) *
+      Math.cos(toRadians(to.latitude)) *
+      Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+export const trackDistanceKm = (track: TrackPoint[]) =>
+  track.reduce(
+    (total, point, i) =>
+      i === 0 ? 0 : total + distanceKm(track[i - 1], point),
+    0,
+  );
+
+/**
+ * Equirectangular projection that fits the track into the map, north up.
+ * Longitudes are scaled by the cosine of the middle latitude, which keeps
+ * shapes true at trip scale; tracks crossing the antimeridian are not
+ * supported.
+ */
+export function createProjection(
+  track: Pick<TrackPoint, "latitude" | "longitude">[],
+  { width, height, padding }: MapSize,
+): MapProjection {
+  let minLat = Infinity;
+  let maxLat = -Infinity;
+  let minLon = Infinity;
+  let maxLon = -Infinity;
+  track.forEach(({ latitude, longitude }) => {
+    minLat = Math.min(minLat, latitude);
+    maxLat = Math.max(maxLat, latitude);
+    minLon = Math.min(minLon, longitude);
+    maxLon = Math.max(maxLon, longitude);
+  });
+  const xScale = Math.cos(toRadians((minLat + maxLat) / 2));
+
+  const spanX = (maxLon - minLon) * xScale;
+  const spanY = maxLat - minLat;
+  // Never zoom in past ~1 km across, so a single position or a standing
+  // vehicle still gets a sensible scale
+  const scale = Math.min(
+    spanX > 0 ? (width - 2 * padding) / spanX : Infinity,
+    spanY > 0 ? (height - 2 * padding) / spanY : Infinity,
+    (width - 2 * padding) / 0.01,
+  );
+  const offsetX = (width - spanX * scale) / 2;
+  const offsetY = (height - spanY * scale) / 2;
+
+  return {
+    project: (latitude, longitude) => [
+      offsetX + (longitude - minLon) * xScale * scale,
+      offsetY + (maxLat - latitude) * scale,
+    ],
+    kmPerUnit: (toRadians(1) * EARTH_RADIUS_KM) / scale,
+  };
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import {
+  getAttitude,
+  getRolloverRiskStatus,
+  harshEventG,
+  isHarshEvent,
+  rolloverRisk,
+} from "./imu";
+
+describe("harshEventG", () => {
+  it("should read each event along its own axis and direction", () => {
+    const frame = { accelX: -0.5, accelY: -0.3 };
+    expect(harshEventG("harshBraking", frame)).toBe(0.5);
+    expect(harshEventG("harshAcceleration", frame)).toBe(-0.5);
+    expect(harshEventG("harshCornering", frame)).toBe(0.3);
+  });
+
+  it("should tell a missing axis from an unavailable one", () => {
+    expect(isHarshEvent("harshBraking", { rpm: 100 })).toBeUndefined();
+    expect(isHarshEvent("harshBraking", { accelX: null })).toBe(false);
+    expect(isHarshEvent("harshBraking", { accelX: -0.45 })).toBe(true);
+    expect(isHarshEvent("harshCornering", { accelY: 0.2 })).toBe(false);
+  });
+});
+
+describe("rolloverRisk", () => {
+  it("should grow with lateral over vertical g", () => {
+    expect(rolloverRisk({ accelY: 0, accelZ: 1 })).toBe(0);
+    expect(rolloverRisk({ accelY: -0.6, accelZ: 1 })).toBeCloseTo(0.5);
+    expect(rolloverRisk({ accelY: 0.6 }, 0.6)).toBe(1);
+    expect(rolloverRisk({ accelY: 3, accelZ: 1 })).toBe(1);
+  });
+
+  it("should fall back to the roll angle", () => {
+    expect(rolloverRisk({ roll: 45 })).toBeCloseTo(1 / 1.2);
+    expect(rolloverRisk({ rpm: 100 })).toBeNull();
+  });
+
+  it("should be certain once the device reports a rollover", () => {
+    expect(rolloverRisk({ rolloverDetected: true, accelY: 0 })).toBe(1);
+  });
+
+  it("should map risk to a status", () => {
+    expect(getRolloverRiskStatus(null)).toBe("safe");
+    expect(getRolloverRiskStatus(0.6)).toBe("warning");
+    expect(getRolloverRiskStatus(0.9)).toBe("danger");
+  });
+});
+
+describe("getAttitude", () => {
+  it("should prefer reported angles", () => {
+    expect(getAttitude({ roll: 5, accelX: 1, accelY: 1, accelZ: 1 })).toEqual({
+      roll: 5,
+      pitch: 0,
+    });
+  });
+
+  it("should estimate angles from gravity", () => {
+    const level = getAttitude({ accelX: 0, accelY: 0, accelZ: 1 });
+    expect(level.roll).toBeCloseTo(0);
+    expect(level.pitch).toBeCloseTo(0);
+
+    const s = Math.SQRT1_2;
+    expect(getAttitude({ accelX: 0, accelY: -s, accelZ: s }).roll).toBeCloseTo(
+      45,
+    );
+    expect(getAttitude({ accelX: s, accelY: 0, accelZ: s }).pitch).toBeCloseTo(
+      45,
+    );
+    expect(getAttitude({ accelX: 0, accelY: 0 })).toBeNull();
+  });
+});
@@ -0,0 +1,104 @@
+import type { TelemetryFrame } from "@shared/api";
+import type { StatusLevel } from "./telemetry";
+
+export type HarshEventType =
+  "harshBraking" | "harshAcceleration" | "harshCornering";
+
+/** g along the event's axis at which driving counts as harsh */
+export const HARSH_EVENT_THRESHOLDS: Record<HarshEventType, number> = {
+  harshBraking: 0.4,
+  harshAcceleration: 0.35,
+  harshCornering: 0.45,
+};
+
+export const isHarshEventType = (type: string): type is HarshEventType =>
+  Object.prototype.hasOwnProperty.call(HARSH_EVENT_THRESHOLDS, type);
+
+/**
+ * Track width over twice the center of gravity height: the lateral g at
+ * which the inner wheels lift. Around 1.2 for cars, lower for SUVs and vans.
+ */
+export const DEFAULT_STABILITY_FACTOR = 1.2;
+
+// Rollover risk from which the gauge turns yellow and red
+const RISK_WARNING = 0.5;
+const RISK_DANGER = 0.8;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+const known = (value: number | null | undefined): value is number =>
+  value !== null && value !== undefined;
+
+/**
+ * g along the event's axis, positive in its direction; `undefined` when the
+ * frame does not carry the axis and `null` when it is unavailable.
+ */
+export function harshEventG(
+  type: HarshEventType,
+  frame: TelemetryFrame,
+): number | null | undefined {
+  const value = type === "harshCornering" ? frame.accelY : frame.accelX;
+  if (!known(value)) return value;
+  if (type === "harshBraking") return -value;
+  return type === "harshAcceleration" ? value : Math.abs(value);
+}
+
+/** Whether the frame is harsh driving, `undefined` without the axis */
+export function isHarshEvent(type: HarshEventType, frame: TelemetryFrame) {
+  const g = harshEventG(type, frame);
+  return g === undefined
+    ? undefined
+    : g !== null && g >= HARSH_EVENT_THRESHOLDS[type];
+}
+
+/**
+ * Continuous rollover risk from 0 (load even on both sides) to 1 (inner
+ * wheels lifting), or `null` without IMU data. The lateral over the vertical
+ * specific force is the share of load moved to the outer wheels times the
+ * stability factor; it includes the slope the vehicle stands on. Without
+ * accelerations the roll angle is used instead. A reported rollover is 1.
+ */
+export function rolloverRisk(
+  frame: TelemetryFrame,
+  stabilityFactor = DEFAULT_STABILITY_FACTOR,
+): number | null {
+  if (frame.rolloverDetected === true) return 1;
+  let ratio: number;
+  if (known(frame.accelY)) {
+    // Near zero vertical g the vehicle is airborne; avoid dividing by it
+    ratio = frame.accelY / Math.max(frame.accelZ ?? 1, 0.1);
+  } else if (known(frame.roll)) {
+    ratio = Math.tan(toRadians(Math.max(-89, Math.min(89, frame.roll))));
+  } else {
+    return null;
+  }
+  return Math.min(1, Math.abs(ratio) / stabilityFactor);
+}
+
+export const getRolloverRiskStatus = (risk: number | null): StatusLevel =>
+  risk === null || risk < RISK_WARNING
+    ? "safe"
+    : risk < RISK_DANGER
+      ? "warning"
+      : "danger";
+
+/**
+ * Roll and pitch in degrees: as reported, or estimated from the direction
+ * of gravity when the device only sends accelerations. The estimate is only
+ * right while the vehicle is not accelerating.
+ */
+export function getAttitude(
+  frame: TelemetryFrame,
+): { roll: number; pitch: number } | null {
+  if (known(frame.roll) || known(frame.pitch)) {
+    return { roll: frame.roll ?? 0, pitch: frame.pitch ?? 0 };
+  }
+  const { accelX, accelY, accelZ } = frame;
+  if (!known(accelX) || !known(accelY) || !known(accelZ)) return null;
+  return {
+    // At rest the sensor reads 1 g straight up; tilting moves it onto X and Y
+    roll: toDegrees(Math.atan2(-accelY, accelZ)),
+    pitch: toDegrees(Math.atan2(accelX, Math.hypot(accelY, accelZ))),
+  };
+}
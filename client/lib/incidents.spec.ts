@@ -0,0 +1,141 @@
+import { describe, it, expect } from "vitest";
+import { createIncidentDetector, detectIncidents } from "./incidents";
+
+const frame = (timestamp: number, speed: number, flags = {}) => ({
+  timestamp,
+  frame: {
+    speed,
+    eyeDrowsy: false,
+    steerInactive: false,
+    rolloverDetected: false,
+    ...flags,
+  },
+});
+
+describe("detectIncidents", () => {
+  it("should record start, end, duration and peak speed", () => {
+    const incidents = detectIncidents([
+      frame(0, 50),
+      frame(1000, 60, { eyeDrowsy: true }),
+      frame(1500, 90, { eyeDrowsy: true }),
+      frame(2000, 70, { eyeDrowsy: true }),
+      frame(2500, 120),
+      frame(5000, 40),
+    ]);
+    expect(incidents).toEqual([
+      {
+        id: "drowsy-1000",
+        type: "drowsy",
+        start: 1000,
+        end: 2500,
+        durationMs: 1500,
+        peakSpeed: 90,
+      },
+    ]);
+  });
+
+  it("should record the peak g of harsh driving", () => {
+    const incidents = detectIncidents([
+      frame(0, 80, { accelX: 0 }),
+      frame(500, 70, { accelX: -0.45 }),
+      frame(1000, 50, { accelX: -0.7 }),
+      frame(1500, 40, { accelX: -0.1 }),
+      frame(4000, 40, { accelX: 0 }),
+    ]);
+    expect(incidents).toEqual([
+      {
+        id: "harshBraking-500",
+        type: "harshBraking",
+        start: 500,
+        end: 1500,
+        durationMs: 1000,
+        peakSpeed: 70,
+        peakG: 0.7,
+      },
+    ]);
+  });
+
+  it("should merge a flapping condition into one incident", () => {
+    const incidents = detectIncidents([
+      frame(0, 50, { steerInactive: true }),
+      frame(500, 50),
+      frame(1000, 50, { steerInactive: true }),
+      frame(1500, 50),
+      frame(2000, 50, { steerInactive: true }),
+      frame(2500, 50),
+      frame(6000, 50),
+    ]);
+    expect(incidents).toHaveLength(1);
+    expect(incidents[0]).toMatchObject({ start: 0, end: 2500 });
+  });
+
+  it("should split episodes separated by more than the clear delay", () => {
+    const incidents = detectIncidents([
+      frame(0, 50, { rolloverDetected: true }),
+      frame(500, 50),
+      frame(3000, 50),
+      frame(3500, 50, { rolloverDetected: true }),
+      frame(4000, 50),
+    ]);
+    expect(incidents.map((incident) => incident.start)).toEqual([0, 3500]);
+    // The trailing incident is ended by the end of the frames
+    expect(incidents[1].end).toBe(4000);
+  });
+
+  it("should keep a single-frame episode", () => {
+    const incidents = detectIncidents([
+      frame(0, 50),
+      frame(500, 50, { eyeDrowsy: true }),
+      frame(1000, 50),
+      frame(4000, 50),
+    ]);
+    expect(incidents).toHaveLength(1);
+    expect(incidents[0].durationMs).toBe(500);
+  });
+
+  it("should drop incidents shorter than the minimum duration", () => {
+    const frames = [
+      frame(0, 50, { eyeDrowsy: true }),
+      frame(500, 50),
+      frame(4000, 50),
+    ];
+    expect(
+      detectIncidents(frames, { clearAfterMs: 2000, minDurationMs: 1000 }),
+    ).toEqual([]);
+  });
+});
+
+describe("createIncidentDetector", () => {
+  it("should report ongoing incidents with a growing duration", () => {
+    const detector = createIncidentDetector();
+    detector.ingest(0, { eyeDrowsy: true, speed: 30 });
+    detector.ingest(1000, { speed: 40 });
+    expect(detector.getIncidents()).toEqual([
+      {
+        id: "drowsy-0",
+        type: "drowsy",
+        start: 0,
+        end: null,
+        durationMs: 1000,
+        peakSpeed: 40,
+      },
+    ]);
+
+    detector.finish();
+    expect(detector.getIncidents()[0].end).toBe(1000);
+  });
+
+  it("should keep only the newest closed incidents", () => {
+    const detector = createIncidentDetector(
+      { clearAfterMs: 0, minDurationMs: 0 },
+      2,
+    );
+    [0, 1, 2].forEach((i) => {
+      detector.ingest(i * 1000, { rolloverDetected: true });
+      detector.ingest(i * 1000 + 500, { rolloverDetected: false });
+    });
+    expect(detector.getIncidents().map((incident) => incident.start)).toEqual([
+      1000, 2000,
+    ]);
+  });
+});
@@ -0,0 +1,173 @@
+import type { TelemetryFrame } from "@shared/api";
+import { harshEventG, isHarshEventType } from "./imu";
+import type { StoredFrame } from "./trip-storage";
+import {
+  TRIP_EVENT_CONDITIONS,
+  TRIP_EVENT_TYPES,
+  type TripEventType,
+} from "./trip-summary";
+
+export type IncidentType = TripEventType;
+
+export interface Incident {
+  /** `type-start`, stable while the incident is open */
+  id: string;
+  type: IncidentType;
+  start: number;
+  /** First frame where the condition had cleared; `null` while ongoing */
+  end: number | null;
+  durationMs: number;
+  /** Highest speed (km/h) while the condition held */
+  peakSpeed: number | null;
+  /** Harsh driving only: highest g along the event's axis */
+  peakG?: number;
+}
+
+export interface IncidentOptions {
+  /**
+   * The condition must stay cleared this long before an incident ends, so
+   * a flapping boolean is one incident rather than many.
+   */
+  clearAfterMs: number;
+  /** Closed incidents shorter than this are dropped as sensor glitches */
+  minDurationMs: number;
+}
+
+export const DEFAULT_INCIDENT_OPTIONS: IncidentOptions = {
+  clearAfterMs: 2000,
+  minDurationMs: 0,
+};
+
+// Closed incidents kept by a live detector; the oldest are dropped first
+export const MAX_INCIDENTS = 200;
+
+const INCIDENT_TYPES: IncidentType[] = TRIP_EVENT_TYPES;
+
+interface OpenIncident {
+  incident: Incident;
+  /** When the condition was first seen cleared, `null` while it holds */
+  clearingSince: number | null;
+}
+
+/**
+ * Turns every frame, not just history samples, into incident records.
+ * Fields a frame does not carry keep their previous state; `null` counts as
+ * cleared.
+ */
+export function createIncidentDetector(
+  options: IncidentOptions = DEFAULT_INCIDENT_OPTIONS,
+  maxIncidents = MAX_INCIDENTS,
+) {
+  let closed: Incident[] = [];
+  const open: Partial<Record<IncidentType, OpenIncident>> = {};
+
+  const close = (type: IncidentType, end: number) => {
+    const { incident } = open[type];
+    delete open[type];
+    const durationMs = end - incident.start;
+    if (durationMs < options.minDurationMs) return;
+    closed.push({ ...incident, end, durationMs });
+    if (closed.length > maxIncidents) {
+      closed = closed.slice(closed.length - maxIncidents);
+    }
+  };
+
+  const ingest = (timestamp: number, frame: TelemetryFrame) => {
+    const speed = frame.speed ?? null;
+
+    INCIDENT_TYPES.forEach((type) => {
+      const value = TRIP_EVENT_CONDITIONS[type](frame);
+      const current = open[type];
+
+      if (!current) {
+        if (value === true) {
+          open[type] = {
+            incident: {
+              id: `${type}-${timestamp}`,
+              type,
+              start: timestamp,
+              end: null,
+              durationMs: 0,
+              peakSpeed: speed,
+              ...(isHarshEventType(type) && {
+                peakG: harshEventG(type, frame),
+              }),
+            },
+            clearingSince: null,
+          };
+        }
+        return;
+      }
+
+      if (value === true) {
+        current.clearingSince = null;
+      } else if (value !== undefined && current.clearingSince === null) {
+        current.clearingSince = timestamp;
+      }
+
+      if (
+        current.clearingSince !== null &&
+        timestamp - current.clearingSince >= options.clearAfterMs
+      ) {
+        close(type, current.clearingSince);
+        return;
+      }
+
+      const { incident } = current;
+      if (current.clearingSince === null && speed !== null) {
+        incident.peakSpeed = Math.max(incident.peakSpeed ?? speed, speed);
+      }
+      if (value === true && isHarshEventType(type)) {
+        incident.peakG = Math.max(incident.peakG, harshEventG(type, frame));
+      }
+      incident.durationMs =
+        (current.clearingSince ?? timestamp) - incident.start;
+    });
+  };
+
+  /**
+   * End every open incident, e.g. when the connection drops or a stored range
+   * ends. Incidents still holding end at their last frame.
+   */
+  const finish = () => {
+    INCIDENT_TYPES.forEach((type) => {
+      const current = open[type];
+      if (current) {
+        close(
+          type,
+          current.clearingSince ??
+            current.incident.start + current.incident.durationMs,
+        );
+      }
+    });
+  };
+
+  /** Closed and ongoing incidents, oldest first */
+  const getIncidents = (): Incident[] =>
+    [
+      ...closed,
+      ...INCIDENT_TYPES.filter((type) => open[type]).map((type) => ({
+        ...open[type].incident,
+      })),
+    ].sort((a, b) => a.start - b.start);
+
+  const reset = () => {
+    closed = [];
+    INCIDENT_TYPES.forEach((type) => delete open[type]);
+  };
+
+  return { ingest, finish, getIncidents, reset };
+}
+
+export type IncidentDetector = ReturnType<typeof createIncidentDetector>;
+
+/** Incidents in stored frames, ordered by timestamp */
+export function detectIncidents(
+  frames: StoredFrame[],
+  options: IncidentOptions = DEFAULT_INCIDENT_OPTIONS,
+): Incident[] {
+  const detector = createIncidentDetector(options, Infinity);
+  frames.forEach(({ timestamp, frame }) => detector.ingest(timestamp, frame));
+  detector.finish();
+  return detector.getIncidents();
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { TELEMETRY_FIELDS } from "@shared/api";
+import { DEFAULT_CALIBRATION } from "./calibration";
+import {
+  CARD_FIELDS,
+  chartValue,
+  formatMetric,
+  METRIC_FIELDS,
+  METRICS,
+} from "./metrics";
+
+const context = { speedUnit: "mph" as const, calibration: DEFAULT_CALIBRATION };
+
+describe("METRICS", () => {
+  it("should describe every telemetry field", () => {
+    expect([...METRIC_FIELDS].sort()).toEqual([...TELEMETRY_FIELDS].sort());
+  });
+
+  it("should put the always-visible cards first", () => {
+    const always = CARD_FIELDS.filter(
+      (field) => METRICS[field].card === "always",
+    );
+    expect(CARD_FIELDS.slice(0, always.length)).toEqual(always);
+  });
+
+  it("should color seatbelt cards without an alert rule", () => {
+    expect(METRICS.seatbelt.status(false, [])).toBe("warning");
+    expect(METRICS.seatbelt.status(true, [])).toBe("safe");
+    expect(METRICS.temperature.status(90, [])).toBeUndefined();
+  });
+});
+
+describe("formatMetric", () => {
+  it("should format values with their unit", () => {
+    expect(formatMetric("batteryVoltage", 12.64, context)).toBe("12.6 V");
+    expect(formatMetric("speed", 100, context)).toBe("62 mph");
+    expect(formatMetric("seatbelt", false, context)).toBe("Unfastened");
+  });
+});
+
+describe("chartValue", () => {
+  it("should plot numeric fields and skip missing ones", () => {
+    expect(chartValue("temperature", { temperature: 80 }, context)).toBe(80);
+    expect(chartValue("temperature", { rpm: 100 }, context)).toBeNull();
+  });
+
+  it("should plot the speed the device sent, else the one from rpm", () => {
+    const kmh = { ...context, speedUnit: "kmh" as const };
+    expect(chartValue("speed", { speed: 130 }, kmh)).toBe(130);
+    expect(chartValue("speed", { rpm: 0 }, kmh)).toBe(0);
+    expect(chartValue("speed", {}, kmh)).toBeNull();
+  });
+});
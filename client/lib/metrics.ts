@@ -0,0 +1,260 @@
+import {
+  Activity,
+  AlertTriangle,
+  Battery,
+  Compass,
+  Eye,
+  Gauge,
+  MapPin,
+  Rotate3d,
+  Move3d,
+  Shield,
+  Thermometer,
+  Zap,
+  type LucideIcon,
+} from "lucide-react";
+import type { TelemetryField, TelemetryFrame } from "@shared/api";
+import { highestSeverity, type ActiveAlert } from "./alert-rules";
+import type { CalibrationProfile } from "./calibration";
+import { frameSpeed, type StatusLevel } from "./telemetry";
+import { fromKmh, SPEED_UNIT_LABELS, type SpeedUnit } from "./units";
+
+/** User preferences a metric may need to show its value */
+export interface MetricContext {
+  speedUnit: SpeedUnit;
+  calibration: CalibrationProfile;
+}
+
+/**
+ * How the dashboard shows one telemetry field. Parsing and limits come from
+ * `TELEMETRY_METRICS` in `shared/api.ts`.
+ */
+export interface MetricView {
+  /** Card title */
+  label: string;
+  icon: LucideIcon;
+  /** Display unit, empty for flags */
+  unit: (context: MetricContext) => string;
+  /** Display value of a known (non-null) reading */
+  format: (value: unknown, context: MetricContext) => string | number;
+  /** Card color of a fresh value, given the alerts targeting the field */
+  status: (value: unknown, alerts: ActiveAlert[]) => StatusLevel | undefined;
+  /** `always` shows a card before any data arrives, `received` after */
+  card: "always" | "received" | false;
+  /** Badge on history rows, for values worth seeing at a glance */
+  history?: {
+    label: string;
+    className: string;
+    /** Only badge values for which this holds */
+    show?: (value: unknown) => boolean;
+  };
+  chart?: {
+    title: (context: MetricContext) => string;
+    color: string;
+    /** Chart even before the field has been received */
+    always?: boolean;
+    /** Value to plot; defaults to the field's own value */
+    value?: (frame: TelemetryFrame, context: MetricContext) => number | null;
+  };
+}
+
+const noUnit = () => "";
+const fixedUnit = (unit: string) => () => unit;
+const decimals = (digits: number) => (value: unknown) =>
+  (value as number).toFixed(digits);
+const flagText = (whenTrue: string, whenFalse: string) => (value: unknown) =>
+  value ? whenTrue : whenFalse;
+
+/** Alert colors, and `safe` for a known value without alerts */
+const ruleStatus = (value: unknown, alerts: ActiveAlert[]) =>
+  highestSeverity(alerts) ??
+  (value === null || value === undefined ? undefined : "safe");
+
+/** Alert colors only; the value alone says nothing about safety */
+const alertStatus = (_value: unknown, alerts: ActiveAlert[]) =>
+  highestSeverity(alerts) ?? undefined;
+
+const acceleration = (axis: string, color: string): MetricView => ({
+  label: `Acceleration ${axis}`,
+  icon: Move3d,
+  unit: fixedUnit("g"),
+  format: decimals(2),
+  status: alertStatus,
+  card: "received",
+  chart: { title: () => `Acceleration ${axis} (g)`, color },
+});
+
+/**
+ * Every field in display order: cards, history badges and charts are
+ * generated from this registry. Add new channels to `TELEMETRY_METRICS`
+ * first; the compiler then asks for their entry here.
+ */
+export const METRICS: Record<TelemetryField, MetricView> = {
+  speed: {
+    label: "Vehicle Speed",
+    icon: Gauge,
+    unit: ({ speedUnit }) => SPEED_UNIT_LABELS[speedUnit],
+    format: (value, { speedUnit }) => fromKmh(value as number, speedUnit),
+    status: ruleStatus,
+    card: "always",
+    history: { label: "Speed", className: "bg-blue-900/50 text-blue-200" },
+    chart: {
+      title: ({ speedUnit }) => `Speed (${SPEED_UNIT_LABELS[speedUnit]})`,
+      color: "#60a5fa",
+      always: true,
+      // Frames without a speed follow calibration changes
+      value: (frame, { speedUnit, calibration }) =>
+        fromKmh(frameSpeed(frame, calibration), speedUnit),
+    },
+  },
+  eyeDrowsy: {
+    label: "Driver Drowsiness",
+    icon: Eye,
+    unit: noUnit,
+    format: flagText("Drowsy", "Alert"),
+    status: ruleStatus,
+    card: "always",
+  },
+  steerInactive: {
+    label: "Steering Status",
+    icon: Activity,
+    unit: noUnit,
+    format: flagText("Inactive", "Active"),
+    status: ruleStatus,
+    card: "always",
+  },
+  rolloverDetected: {
+    label: "Rollover Detection",
+    icon: AlertTriangle,
+    unit: noUnit,
+    format: flagText("Detected", "Normal"),
+    status: ruleStatus,
+    card: "always",
+  },
+  rpm: {
+    label: "Engine RPM",
+    icon: Zap,
+    unit: fixedUnit("RPM"),
+    format: (value) => value as number,
+    status: alertStatus,
+    card: "received",
+    chart: { title: () => "Engine RPM", color: "#34d399", always: true },
+  },
+  temperature: {
+    label: "Temperature",
+    icon: Thermometer,
+    unit: fixedUnit("°C"),
+    format: decimals(1),
+    status: alertStatus,
+    card: "received",
+    history: { label: "Temp", className: "bg-orange-900/50 text-orange-200" },
+    chart: { title: () => "Temperature (°C)", color: "#fb923c" },
+  },
+  batteryVoltage: {
+    label: "Battery",
+    icon: Battery,
+    unit: fixedUnit("V"),
+    format: decimals(1),
+    status: alertStatus,
+    card: "received",
+    history: { label: "Battery", className: "bg-lime-900/50 text-lime-200" },
+    chart: { title: () => "Battery (V)", color: "#a3e635" },
+  },
+  seatbelt: {
+    label: "Seatbelt",
+    icon: Shield,
+    unit: noUnit,
+    format: flagText("Fastened", "Unfastened"),
+    status: (value, alerts) =>
+      highestSeverity(alerts) ?? (value === false ? "warning" : "safe"),
+    card: "received",
+    history: {
+      label: "Seatbelt",
+      className: "bg-yellow-900/50 text-yellow-200",
+      show: (value) => value === false,
+    },
+  },
+  latitude: {
+    label: "Latitude",
+    icon: MapPin,
+    unit: fixedUnit("°"),
+    format: decimals(5),
+    status: alertStatus,
+    card: "received",
+  },
+  longitude: {
+    label: "Longitude",
+    icon: MapPin,
+    unit: fixedUnit("°"),
+    format: decimals(5),
+    status: alertStatus,
+    card: "received",
+  },
+  heading: {
+    label: "Heading",
+    icon: Compass,
+    unit: fixedUnit("°"),
+    format: decimals(0),
+    status: alertStatus,
+    card: "received",
+  },
+  accelX: acceleration("X", "#f472b6"),
+  accelY: acceleration("Y", "#c084fc"),
+  accelZ: acceleration("Z", "#818cf8"),
+  roll: {
+    label: "Roll",
+    icon: Rotate3d,
+    unit: fixedUnit("°"),
+    format: decimals(1),
+    status: alertStatus,
+    card: "received",
+    chart: { title: () => "Roll (°)", color: "#2dd4bf" },
+  },
+  pitch: {
+    label: "Pitch",
+    icon: Rotate3d,
+    unit: fixedUnit("°"),
+    format: decimals(1),
+    status: alertStatus,
+    card: "received",
+    chart: { title: () => "Pitch (°)", color: "#38bdf8" },
+  },
+};
+
+export const METRIC_FIELDS = Object.keys(METRICS) as TelemetryField[];
+
+export const CARD_FIELDS = METRIC_FIELDS.filter(
+  (field) => METRICS[field].card !== false,
+);
+
+export const HISTORY_FIELDS = METRIC_FIELDS.filter(
+  (field) => METRICS[field].history,
+);
+
+export const CHART_FIELDS = METRIC_FIELDS.filter(
+  (field) => METRICS[field].chart,
+);
+
+/** `value unit` of a known reading, e.g. `12.4 V` */
+export function formatMetric(
+  field: TelemetryField,
+  value: unknown,
+  context: MetricContext,
+) {
+  const metric = METRICS[field];
+  const unit = metric.unit(context);
+  const text = String(metric.format(value, context));
+  return unit ? `${text} ${unit}` : text;
+}
+
+/** Value plotted for a field, `null` where the frame has none */
+export function chartValue(
+  field: TelemetryField,
+  frame: TelemetryFrame,
+  context: MetricContext,
+): number | null {
+  const chart = METRICS[field].chart;
+  if (chart?.value) return chart.value(frame, context);
+  const value = frame[field];
+  return typeof value === "number" ? value : null;
+}
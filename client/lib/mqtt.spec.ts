@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import {
+  decodePackets,
+  decodePayload,
+  encodeConnect,
+  encodeRemainingLength,
+  encodeSubscribe,
+  topicMatches,
+} from "./mqtt";
+
+const publish = (topic: string, payload: string) => {
+  const topicBytes = new TextEncoder().encode(topic);
+  const payloadBytes = new TextEncoder().encode(payload);
+  const body = [
+    topicBytes.length >> 8,
+    topicBytes.length & 0xff,
+    ...topicBytes,
+    ...payloadBytes,
+  ];
+  return new Uint8Array([0x30, ...encodeRemainingLength(body.length), ...body]);
+};
+
+describe("encodeRemainingLength", () => {
+  it("should use continuation bits past 127", () => {
+    expect(encodeRemainingLength(0)).toEqual([0]);
+    expect(encodeRemainingLength(127)).toEqual([127]);
+    expect(encodeRemainingLength(128)).toEqual([0x80, 0x01]);
+    expect(encodeRemainingLength(16384)).toEqual([0x80, 0x80, 0x01]);
+  });
+});
+
+describe("encodeConnect", () => {
+  it("should flag clean session and the credentials given", () => {
+    const packet = encodeConnect({
+      clientId: "a",
+      keepAlive: 30,
+      username: "u",
+      password: "p",
+    });
+    expect(packet[0]).toBe(0x10);
+    // Remaining length, "MQTT", level 4, flags, keep alive
+    expect(Array.from(packet.subarray(2, 12))).toEqual([
+      0, 4, 77, 81, 84, 84, 4, 0xc2, 0, 30,
+    ]);
+    expect(packet.length).toBe(2 + packet[1]);
+  });
+});
+
+describe("encodeSubscribe", () => {
+  it("should request the topic at QoS 0", () => {
+    expect(Array.from(encodeSubscribe(1, "a/b"))).toEqual([
+      0x82, 8, 0, 1, 0, 3, 97, 47, 98, 0,
+    ]);
+  });
+});
+
+describe("decodePackets", () => {
+  it("should decode a batch of packets", () => {
+    const buffer = new Uint8Array([
+      0x20,
+      2,
+      0,
+      0,
+      0x90,
+      3,
+      0,
+      1,
+      0,
+      ...publish("vehicles/truck-1/telemetry", '{"rpm":900}'),
+    ]);
+    const { packets, rest } = decodePackets(buffer);
+    expect(packets.map((packet) => packet.type)).toEqual([
+      "connack",
+      "suback",
+      "publish",
+    ]);
+    const message = packets[2];
+    expect(message.type === "publish" && message.topic).toBe(
+      "vehicles/truck-1/telemetry",
+    );
+    expect(message.type === "publish" && decodePayload(message.payload)).toBe(
+      '{"rpm":900}',
+    );
+    expect(rest.length).toBe(0);
+  });
+
+  it("should keep a partial packet for the next chunk", () => {
+    const full = publish("t", "x".repeat(200));
+    const first = decodePackets(full.subarray(0, 50));
+    expect(first.packets).toEqual([]);
+
+    const joined = new Uint8Array(full.length);
+    joined.set(first.rest);
+    joined.set(full.subarray(50), first.rest.length);
+    const second = decodePackets(joined);
+    expect(second.packets).toHaveLength(1);
+    expect(second.rest.length).toBe(0);
+  });
+});
+
+describe("topicMatches", () => {
+  it("should support single and multi-level wildcards", () => {
+    expect(topicMatches("vehicles/+/telemetry", "vehicles/a/telemetry")).toBe(
+      true,
+    );
+    expect(topicMatches("vehicles/+/telemetry", "vehicles/a/b/telemetry")).toBe(
+      false,
+    );
+    expect(topicMatches("vehicles/#", "vehicles/a/b")).toBe(true);
+    expect(topicMatches("vehicles/a", "vehicles")).toBe(false);
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Just enough of MQTT 3.1.1 to subscribe to telemetry over WebSocket:
+ * CONNECT, SUBSCRIBE (QoS 0), PINGREQ and DISCONNECT out; CONNACK, SUBACK,
+ * PUBLISH and PINGRESP in.
+ */
+
+export type MqttPacket =
+  | { type: "connack"; sessionPresent: boolean; returnCode: number }
+  | { type: "suback"; packetId: number; granted: number[] }
+  | {
+      type: "publish";
+      topic: string;
+      payload: Uint8Array;
+      qos: number;
+      packetId: number | null;
+    }
+  | { type: "pingresp" }
+  | { type: "other"; packetType: number };
+
+export interface MqttConnectOptions {
+  clientId: string;
+  /** Seconds; the broker drops the client after 1.5× this without traffic */
+  keepAlive: number;
+  username?: string;
+  password?: string;
+}
+
+export const CONNACK_ERRORS: Record<number, string> = {
+  1: "unacceptable protocol version",
+  2: "client id rejected",
+  3: "server unavailable",
+  4: "bad user name or password",
+  5: "not authorized",
+};
+
+const CONNECT = 1;
+const CONNACK = 2;
+const PUBLISH = 3;
+const SUBSCRIBE = 8;
+const SUBACK = 9;
+const PINGREQ = 12;
+const PINGRESP = 13;
+const DISCONNECT = 14;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export function encodeRemainingLength(length: number): number[] {
+  const bytes: number[] = [];
+  do {
+    let byte = length % 128;
+    length = Math.floor(length / 128);
+    if (length > 0) byte |= 0x80;
+    bytes.push(byte);
+  } while (length > 0);
+  return bytes;
+}
+
+const encodeString = (value: string) => {
+  const bytes = encoder.encode(value);
+  return [bytes.length >> 8, bytes.length & 0xff, ...bytes];
+};
+
+const packet = (header: number, body: number[]) =>
+  new Uint8Array([header, ...encodeRemainingLength(body.length), ...body]);
+
+export function encodeConnect({
+  clientId,
+  keepAlive,
+  username,
+  password,
+}: MqttConnectOptions): Uint8Array {
+  // Clean session, plus the credential flags in use
+  let flags = 0x02;
+  if (username !== undefined) flags |= 0x80;
+  if (password !== undefined) flags |= 0x40;
+  return packet(CONNECT << 4, [
+    ...encodeString("MQTT"),
+    4,
+    flags,
+    keepAlive >> 8,
+    keepAlive & 0xff,
+    ...encodeString(clientId),
+    ...(username !== undefined ? encodeString(username) : []),
+    ...(password !== undefined ? encodeString(password) : []),
+  ]);
+}
+
+export function encodeSubscribe(packetId: number, topic: string): Uint8Array {
+  // SUBSCRIBE has reserved flags 0b0010
+  return packet((SUBSCRIBE << 4) | 0x02, [
+    packetId >> 8,
+    packetId & 0xff,
+    ...encodeString(topic),
+    0,
+  ]);
+}
+
+export const encodePingreq = () => packet(PINGREQ << 4, []);
+
+export const encodeDisconnect = () => packet(DISCONNECT << 4, []);
+
+const decodePacket = (header: number, body: Uint8Array): MqttPacket => {
+  const packetType = header >> 4;
+  switch (packetType) {
+    case CONNACK:
+      return {
+        type: "connack",
+        sessionPresent: (body[0] & 0x01) === 1,
+        returnCode: body[1],
+      };
+    case SUBACK:
+      return {
+        type: "suback",
+        packetId: (body[0] << 8) | body[1],
+        granted: Array.from(body.subarray(2)),
+      };
+    case PUBLISH: {
+      const qos = (header >> 1) & 0x03;
+      const topicLength = (body[0] << 8) | body[1];
+      const topic = decoder.decode(body.subarray(2, 2 + topicLength));
+      let offset = 2 + topicLength;
+      let packetId: number | null = null;
+      if (qos > 0) {
+        packetId = (body[offset] << 8) | body[offset + 1];
+        offset += 2;
+      }
+      return {
+        type: "publish",
+        topic,
+        payload: body.subarray(offset),
+        qos,
+        packetId,
+      };
+    }
+    case PINGRESP:
+      return { type: "pingresp" };
+    default:
+      return { type: "other", packetType };
+  }
+};
+
+/**
+ * Split a byte stream into packets. WebSocket messages usually carry whole
+ * packets, but brokers may split or batch them; incomplete bytes are
+ * returned as `rest` for the next call.
+ */
+export function decodePackets(buffer: Uint8Array): {
+  packets: MqttPacket[];
+  rest: Uint8Array;
+} {
+  const packets: MqttPacket[] = [];
+  let offset = 0;
+
+  while (offset < buffer.length) {
+    let length = 0;
+    let multiplier = 1;
+    let cursor = offset + 1;
+    let complete = false;
+    while (cursor < buffer.length && cursor - offset <= 4) {
+      const byte = buffer[cursor++];
+      length += (byte & 0x7f) * multiplier;
+      multiplier *= 128;
+      if ((byte & 0x80) === 0) {
+        complete = true;
+        break;
+      }
+    }
+    if (!complete || cursor + length > buffer.length) break;
+
+    packets.push(
+      decodePacket(buffer[offset], buffer.subarray(cursor, cursor + length)),
+    );
+    offset = cursor + length;
+  }
+
+  return { packets, rest: buffer.slice(offset) };
+}
+
+export const decodePayload = (payload: Uint8Array) => decoder.decode(payload);
+
+/** Whether a concrete topic matches a filter with `+` and `#` wildcards */
+export function topicMatches(filter: string, topic: string): boolean {
+  const filterLevels = filter.split("/");
+  const topicLevels = topic.split("/");
+  for (let i = 0; i < filterLevels.length; i++) {
+    if (filterLevels[i] === "#") return true;
+    if (i >= topicLevels.length) return false;
+    if (filterLevels[i] !== "+" && filterLevels[i] !== topicLevels[i]) {
+      return false;
+    }
+  }
+  return filterLevels.length === topicLevels.length;
+}
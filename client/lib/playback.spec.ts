@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import {
+  advancePlayback,
+  createReadingsCursor,
+  frameIndexAt,
+  nextIncidentStart,
+  readingsAt,
+} from "./playback";
+import type { Incident } from "./incidents";
+
+const frames = [
+  { timestamp: 1000, frame: { rpm: 1000, eyeDrowsy: false } },
+  { timestamp: 1500, frame: { rpm: 2000 } },
+  { timestamp: 2000, frame: { eyeDrowsy: true } },
+];
+
+describe("frameIndexAt", () => {
+  it("should find the last frame at or before a time", () => {
+    expect(frameIndexAt(frames, 500)).toBe(-1);
+    expect(frameIndexAt(frames, 1000)).toBe(0);
+    expect(frameIndexAt(frames, 1999)).toBe(1);
+    expect(frameIndexAt(frames, 5000)).toBe(2);
+    expect(frameIndexAt([], 1000)).toBe(-1);
+  });
+});
+
+describe("readingsAt", () => {
+  it("should rebuild readings with their recorded receive times", () => {
+    expect(readingsAt(frames, 1)).toEqual({
+      rpm: { value: 2000, receivedAt: 1500 },
+      eyeDrowsy: { value: false, receivedAt: 1000 },
+    });
+    expect(readingsAt(frames, -1)).toEqual({});
+  });
+});
+
+describe("createReadingsCursor", () => {
+  const long = Array.from({ length: 1000 }, (_, i) => ({
+    timestamp: i * 100,
+    frame: i % 3 === 0 ? { rpm: i } : { eyeDrowsy: i % 2 === 0 },
+  }));
+
+  it("should match a full rebuild while playing, seeking back and ahead", () => {
+    const cursor = createReadingsCursor(long);
+
+    [-1, 0, 1, 2, 300, 301, 999, 5000, 700, 255, 256, 0, -1, 512].forEach(
+      (index) => expect(cursor.at(index)).toEqual(readingsAt(long, index)),
+    );
+  });
+
+  it("should hand back the same readings while the frame stays put", () => {
+    const cursor = createReadingsCursor(frames);
+    expect(cursor.at(1)).toBe(cursor.at(1));
+  });
+});
+
+describe("advancePlayback", () => {
+  it("should move by elapsed time times speed", () => {
+    const state = { position: 1000, playing: true, speed: 4 };
+    expect(advancePlayback(state, 100, 5000).position).toBe(1400);
+    expect(advancePlayback({ ...state, playing: false }, 100, 5000)).toEqual({
+      ...state,
+      playing: false,
+    });
+  });
+
+  it("should stop at the end", () => {
+    const state = { position: 4900, playing: true, speed: 16 };
+    expect(advancePlayback(state, 100, 5000)).toEqual({
+      position: 5000,
+      playing: false,
+      speed: 16,
+    });
+  });
+});
+
+describe("nextIncidentStart", () => {
+  it("should skip incidents that already started", () => {
+    const incidents = [{ start: 1000 }, { start: 3000 }] as Incident[];
+    expect(nextIncidentStart(incidents, 1000)).toBe(3000);
+    expect(nextIncidentStart(incidents, 3000)).toBeNull();
+  });
+});
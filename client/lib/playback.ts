@@ -0,0 +1,103 @@
+import type { ActiveAlert } from "./alert-rules";
+import { recordReadings, type FieldReadings } from "./freshness";
+import type { Incident } from "./incidents";
+import type { RecordedFrame } from "./telemetry-replay";
+
+export const PLAYBACK_SPEEDS = [0.5, 1, 2, 4, 8, 16] as const;
+
+/** A received frame with the alerts the dashboard showed for it */
+export interface SessionFrame extends RecordedFrame {
+  alerts: ActiveAlert[];
+}
+
+export interface PlaybackState {
+  /** Epoch ms of recording time being shown */
+  position: number;
+  playing: boolean;
+  speed: number;
+}
+
+/** Index of the last frame at or before `time`, -1 before the first frame */
+export function frameIndexAt(frames: RecordedFrame[], time: number): number {
+  let low = 0;
+  let high = frames.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (frames[mid].timestamp <= time) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+}
+
+// Readings are kept after every this many frames for seeking back
+const CHECKPOINT_FRAMES = 256;
+
+/**
+ * Field readings as they stood after a frame, with receive times from the
+ * recording so freshness replays too. Moving forward merges only the frames
+ * since the last call; moving back resumes from the closest checkpoint
+ * instead of the first frame.
+ */
+export function createReadingsCursor(frames: RecordedFrame[]) {
+  // Readings before frame `k * CHECKPOINT_FRAMES`
+  const checkpoints: FieldReadings[] = [{}];
+  let index = -1;
+  let readings: FieldReadings = {};
+
+  return {
+    at: (target: number): FieldReadings => {
+      const last = Math.min(target, frames.length - 1);
+      if (last < index) {
+        const checkpoint = Math.min(
+          Math.floor((last + 1) / CHECKPOINT_FRAMES),
+          checkpoints.length - 1,
+        );
+        index = checkpoint * CHECKPOINT_FRAMES - 1;
+        readings = checkpoints[checkpoint];
+      }
+      while (index < last) {
+        index++;
+        readings = recordReadings(
+          readings,
+          frames[index].frame,
+          frames[index].timestamp,
+        );
+        if ((index + 1) % CHECKPOINT_FRAMES === 0) {
+          checkpoints[(index + 1) / CHECKPOINT_FRAMES] = readings;
+        }
+      }
+      return readings;
+    },
+  };
+}
+
+/** Readings after frame `index`, rebuilt from the first frame */
+export const readingsAt = (frames: RecordedFrame[], index: number) =>
+  createReadingsCursor(frames).at(index);
+
+/** Move the clock by `elapsedMs` of wall time; playback stops at `end` */
+export function advancePlayback(
+  state: PlaybackState,
+  elapsedMs: number,
+  end: number,
+): PlaybackState {
+  if (!state.playing) return state;
+  const position = state.position + elapsedMs * state.speed;
+  return position >= end
+    ? { ...state, position: end, playing: false }
+    : { ...state, position };
+}
+
+/** Start of the first incident after `position`, or `null` if none */
+export function nextIncidentStart(
+  incidents: Incident[],
+  position: number,
+): number | null {
+  const next = incidents.find((incident) => incident.start > position);
+  return next ? next.start : null;
+}
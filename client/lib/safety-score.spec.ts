@@ -0,0 +1,126 @@
+import { describe, it, expect } from "vitest";
+import {
+  createSafetyScorer,
+  getScoreStatus,
+  scoreFrames,
+  DEFAULT_SCORE_OPTIONS,
+  type PenaltyType,
+  type SafetyScore,
+} from "./safety-score";
+import { kmhToRpm } from "./telemetry";
+
+const frame = (timestamp: number, kmh: number, flags = {}) => ({
+  timestamp,
+  frame: {
+    rpm: kmhToRpm(kmh),
+    eyeDrowsy: false,
+    steerInactive: false,
+    rolloverDetected: false,
+    ...flags,
+  },
+});
+
+const penalty = (score: SafetyScore, type: PenaltyType) =>
+  score.penalties.find((p) => p.type === type);
+
+describe("scoreFrames", () => {
+  it("should give a clean drive full marks", () => {
+    const score = scoreFrames([frame(0, 50), frame(1000, 60), frame(2000, 70)]);
+    expect(score.score).toBe(100);
+    expect(score.monitoredMs).toBe(2000);
+    expect(score.penalties.every((p) => p.points === 0)).toBe(true);
+  });
+
+  it("should charge time above the speed thresholds per minute", () => {
+    // 5s steps so no interval is dropped as missing data
+    const frames = [];
+    for (let t = 0; t < 90000; t += 5000) {
+      frames.push(frame(t, t < 60000 ? 100 : 130));
+    }
+    frames.push(frame(90000, 50));
+
+    const score = scoreFrames(frames);
+    expect(penalty(score, "speeding")).toEqual({
+      type: "speeding",
+      amount: 60000,
+      points: 2,
+    });
+    expect(penalty(score, "severeSpeeding")).toEqual({
+      type: "severeSpeeding",
+      amount: 30000,
+      points: 2.5,
+    });
+    expect(score.score).toBe(96);
+  });
+
+  it("should charge speeding on the speed the device sent", () => {
+    const score = scoreFrames([
+      { timestamp: 0, frame: { speed: 130 } },
+      { timestamp: 5000, frame: { speed: 130 } },
+    ]);
+    expect(penalty(score, "severeSpeeding").amount).toBe(5000);
+  });
+
+  it("should count each drowsiness and rollover episode once", () => {
+    const score = scoreFrames([
+      frame(0, 50, { eyeDrowsy: true }),
+      frame(1000, 50, { eyeDrowsy: true }),
+      frame(2000, 50),
+      frame(3000, 50, { eyeDrowsy: true }),
+      frame(4000, 0, { rolloverDetected: true }),
+    ]);
+    expect(penalty(score, "drowsy").amount).toBe(2);
+    expect(penalty(score, "rollover").amount).toBe(1);
+    expect(score.score).toBe(100 - 20 - 25);
+  });
+
+  it("should not charge gaps in the data", () => {
+    const score = scoreFrames([
+      frame(0, 50, { steerInactive: true }),
+      frame(60000, 50, { steerInactive: true }),
+    ]);
+    expect(score.monitoredMs).toBe(0);
+    expect(penalty(score, "steerInactive").points).toBe(0);
+  });
+
+  it("should never go below zero", () => {
+    const frames = Array.from({ length: 10 }, (_, i) =>
+      frame(i * 2000, 0, { rolloverDetected: i % 2 === 0 }),
+    );
+    expect(scoreFrames(frames).score).toBe(0);
+  });
+
+  it("should skip speed penalties without thresholds", () => {
+    const score = scoreFrames([frame(0, 150), frame(5000, 150)], {
+      ...DEFAULT_SCORE_OPTIONS,
+      speedThresholds: { warning: null, danger: null },
+    });
+    expect(score.score).toBe(100);
+  });
+});
+
+describe("createSafetyScorer", () => {
+  it("should keep fields that a frame did not carry", () => {
+    const scorer = createSafetyScorer();
+    scorer.add(0, { steerInactive: true });
+    scorer.add(3000, { rpm: 0 });
+    scorer.add(6000, { steerInactive: false });
+    expect(scorer.getScore().penalties[3]).toEqual({
+      type: "steerInactive",
+      amount: 6000,
+      points: 0.3,
+    });
+
+    scorer.reset();
+    expect(scorer.getScore().monitoredMs).toBe(0);
+  });
+});
+
+describe("getScoreStatus", () => {
+  it("should map scores to status levels", () => {
+    expect(getScoreStatus(100)).toBe("safe");
+    expect(getScoreStatus(80)).toBe("safe");
+    expect(getScoreStatus(79)).toBe("warning");
+    expect(getScoreStatus(59)).toBe("danger");
+  });
+});
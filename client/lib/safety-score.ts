@@ -0,0 +1,202 @@
+import type { TelemetryFrame } from "@shared/api";
+import { getSpeedThresholds, loadAlertRules } from "./alert-rules";
+import {
+  DEFAULT_CALIBRATION,
+  loadCalibration,
+  type CalibrationProfile,
+} from "./calibration";
+import {
+  frameSpeed,
+  SPEED_DANGER_KMH,
+  SPEED_WARNING_KMH,
+  type StatusLevel,
+} from "./telemetry";
+import type { StoredFrame } from "./trip-storage";
+
+export type PenaltyType =
+  "speeding" | "severeSpeeding" | "drowsy" | "steerInactive" | "rollover";
+
+export const PENALTY_TYPES: PenaltyType[] = [
+  "speeding",
+  "severeSpeeding",
+  "drowsy",
+  "steerInactive",
+  "rollover",
+];
+
+export const PENALTY_LABELS: Record<PenaltyType, string> = {
+  speeding: "Above warning speed",
+  severeSpeeding: "Above danger speed",
+  drowsy: "Drowsiness episodes",
+  steerInactive: "Steering inactive",
+  rollover: "Rollover events",
+};
+
+/**
+ * Time-based penalties cost points per minute spent in the state, episodes
+ * cost points each time they start.
+ */
+export const PENALTY_RATES: Record<
+  PenaltyType,
+  { per: "minute" | "episode"; points: number }
+> = {
+  speeding: { per: "minute", points: 2 },
+  severeSpeeding: { per: "minute", points: 5 },
+  drowsy: { per: "episode", points: 10 },
+  steerInactive: { per: "minute", points: 3 },
+  rollover: { per: "episode", points: 25 },
+};
+
+export interface Penalty {
+  type: PenaltyType;
+  /** Milliseconds for per-minute penalties, a count for episodes */
+  amount: number;
+  points: number;
+}
+
+export interface SafetyScore {
+  /** 0–100, higher is safer */
+  score: number;
+  /** Every penalty type, including those that cost nothing */
+  penalties: Penalty[];
+  /** Time covered by frames, without gaps */
+  monitoredMs: number;
+}
+
+export interface ScoreOptions {
+  /** km/h; `null` disables the matching speed penalty */
+  speedThresholds: { warning: number | null; danger: number | null };
+  calibration: CalibrationProfile;
+}
+
+export const DEFAULT_SCORE_OPTIONS: ScoreOptions = {
+  speedThresholds: { warning: SPEED_WARNING_KMH, danger: SPEED_DANGER_KMH },
+  calibration: DEFAULT_CALIBRATION,
+};
+
+/** A vehicle's stored speed rules and calibration */
+export const loadScoreOptions = (vehicleId?: string): ScoreOptions => ({
+  speedThresholds: getSpeedThresholds(loadAlertRules(vehicleId)),
+  calibration: loadCalibration(vehicleId),
+});
+
+// Longer gaps are missing data; the time is not held against the driver
+export const MAX_FRAME_GAP_MS = 5000;
+
+type Durations = Record<
+  "speeding" | "severeSpeeding" | "steerInactive",
+  number
+>;
+
+type Episodes = Record<"drowsy" | "rollover", number>;
+
+const EPISODE_FIELDS = {
+  drowsy: "eyeDrowsy",
+  rollover: "rolloverDetected",
+} as const;
+
+export const getScoreStatus = (score: number): StatusLevel =>
+  score >= 80 ? "safe" : score >= 60 ? "warning" : "danger";
+
+/**
+ * Scores a frame stream incrementally. Frames only need the fields that
+ * changed; missing fields keep their previous value, like live readings.
+ * Options are read on every frame so threshold or calibration changes apply
+ * from then on.
+ */
+export function createSafetyScorer(
+  getOptions: () => ScoreOptions = () => DEFAULT_SCORE_OPTIONS,
+) {
+  let last: { timestamp: number; state: TelemetryFrame } | null = null;
+  let monitoredMs = 0;
+  const durations: Durations = {
+    speeding: 0,
+    severeSpeeding: 0,
+    steerInactive: 0,
+  };
+  const episodes: Episodes = { drowsy: 0, rollover: 0 };
+
+  // Time between two frames is charged to the state of the earlier one
+  const accrue = (state: TelemetryFrame, ms: number) => {
+    const { speedThresholds, calibration } = getOptions();
+    const speed = frameSpeed(state, calibration);
+    monitoredMs += ms;
+    if (speed !== null) {
+      if (speedThresholds.danger !== null && speed > speedThresholds.danger) {
+        durations.severeSpeeding += ms;
+      } else if (
+        speedThresholds.warning !== null &&
+        speed > speedThresholds.warning
+      ) {
+        durations.speeding += ms;
+      }
+    }
+    if (state.steerInactive === true) durations.steerInactive += ms;
+  };
+
+  const add = (timestamp: number, frame: TelemetryFrame) => {
+    const merged: Record<string, unknown> = { ...last?.state };
+    Object.entries(frame).forEach(([field, value]) => {
+      if (value !== undefined) merged[field] = value;
+    });
+    const state = merged as TelemetryFrame;
+
+    if (last) {
+      const gap = timestamp - last.timestamp;
+      if (gap > 0 && gap <= MAX_FRAME_GAP_MS) accrue(last.state, gap);
+    }
+    (Object.keys(EPISODE_FIELDS) as (keyof Episodes)[]).forEach((type) => {
+      const field = EPISODE_FIELDS[type];
+      if (state[field] === true && last?.state[field] !== true) {
+        episodes[type]++;
+      }
+    });
+    last = { timestamp, state };
+  };
+
+  const getScore = (): SafetyScore => {
+    const penalties = PENALTY_TYPES.map((type): Penalty => {
+      const rate = PENALTY_RATES[type];
+      const amount =
+        rate.per === "minute"
+          ? durations[type as keyof Durations]
+          : episodes[type as keyof Episodes];
+      const units = rate.per === "minute" ? amount / 60000 : amount;
+      return {
+        type,
+        amount,
+        points: Math.round(units * rate.points * 10) / 10,
+      };
+    });
+    const total = penalties.reduce((sum, penalty) => sum + penalty.points, 0);
+    return {
+      score: Math.max(0, Math.round(100 - total)),
+      penalties,
+      monitoredMs,
+    };
+  };
+
+  const reset = () => {
+    last = null;
+    monitoredMs = 0;
+    durations.speeding = 0;
+    durations.severeSpeeding = 0;
+    durations.steerInactive = 0;
+    episodes.drowsy = 0;
+    episodes.rollover = 0;
+  };
+
+  return { add, getScore, reset };
+}
+
+export type SafetyScorer = ReturnType<typeof createSafetyScorer>;
+
+/** Score stored frames, ordered by timestamp */
+export function scoreFrames(
+  frames: StoredFrame[],
+  options: ScoreOptions = DEFAULT_SCORE_OPTIONS,
+): SafetyScore {
+  const scorer = createSafetyScorer(() => options);
+  frames.forEach(({ timestamp, frame }) => scorer.add(timestamp, frame));
+  return scorer.getScore();
+}
@@ -0,0 +1,13 @@
+/**
+ * Register `public/sw.js`, which caches the app shell so the dashboard
+ * starts without network. Development builds skip it so it does not get in
+ * the way of hot reloading.
+ */
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+  window.addEventListener("load", () => {
+    navigator.serviceWorker
+      .register("/sw.js")
+      .catch((err) => console.warn("Offline support unavailable:", err));
+  });
+}
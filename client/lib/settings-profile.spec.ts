@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import { AUTH_REQUIRED_STORAGE_KEY, AUTH_SESSION_STORAGE_KEY } from "./auth";
+import {
+  applySettingsProfile,
+  exportSettingsProfile,
+  parseSettingsProfile,
+  SETTINGS_PROFILE_FORMAT,
+} from "./settings-profile";
+
+const createStorage = (entries: Record<string, string> = {}) => {
+  const items = new Map(Object.entries(entries));
+  return {
+    get length() {
+      return items.size;
+    },
+    key: (index: number) => [...items.keys()][index] ?? null,
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+    removeItem: (key: string) => void items.delete(key),
+    items,
+  };
+};
+
+const RULES_KEY = "driving-safety-dashboard:alert-rules";
+const SETTINGS_KEY = "driving-safety-dashboard:settings";
+
+describe("settings profiles", () => {
+  it("should export only dashboard settings", () => {
+    const storage = createStorage({
+      [SETTINGS_KEY]: '{"maxHistoryEntries":80}',
+      [RULES_KEY]: "[]",
+      "other-app:token": "secret",
+    });
+    const profile = exportSettingsProfile(storage, new Date(0));
+
+    expect(profile).toEqual({
+      format: SETTINGS_PROFILE_FORMAT,
+      version: 1,
+      exportedAt: "1970-01-01T00:00:00.000Z",
+      values: { [RULES_KEY]: "[]", [SETTINGS_KEY]: '{"maxHistoryEntries":80}' },
+    });
+  });
+
+  it("should round-trip through JSON", () => {
+    const source = createStorage({
+      [SETTINGS_KEY]: '{"streamUrl":"ws://car.local/"}',
+    });
+    const target = createStorage({
+      [RULES_KEY]: "[]",
+      [SETTINGS_KEY]: "{}",
+      "other-app:token": "secret",
+    });
+    const profile = parseSettingsProfile(
+      JSON.stringify(exportSettingsProfile(source)),
+    );
+
+    expect(applySettingsProfile(profile, target).sort()).toEqual([
+      RULES_KEY,
+      SETTINGS_KEY,
+    ]);
+    expect(Object.fromEntries(target.items)).toEqual({
+      [SETTINGS_KEY]: '{"streamUrl":"ws://car.local/"}',
+      "other-app:token": "secret",
+    });
+    expect(applySettingsProfile(profile, target)).toEqual([]);
+  });
+
+  it("should leave the sign-in out of exports and imports", () => {
+    const signedIn = {
+      [SETTINGS_KEY]: "{}",
+      [AUTH_SESSION_STORAGE_KEY]: '{"token":"mine"}',
+      [AUTH_REQUIRED_STORAGE_KEY]: "true",
+    };
+    const profile = exportSettingsProfile(createStorage(signedIn));
+    const target = createStorage(signedIn);
+
+    expect(Object.keys(profile.values)).toEqual([SETTINGS_KEY]);
+    applySettingsProfile({ ...profile, values: {} }, target);
+    expect(target.items.get(AUTH_SESSION_STORAGE_KEY)).toBe('{"token":"mine"}');
+    expect(target.items.get(AUTH_REQUIRED_STORAGE_KEY)).toBe("true");
+    expect(() =>
+      parseSettingsProfile(
+        JSON.stringify({
+          ...profile,
+          values: { [AUTH_SESSION_STORAGE_KEY]: '{"token":"theirs"}' },
+        }),
+      ),
+    ).toThrow("Unexpected setting");
+  });
+
+  it("should reject files that are not profiles", () => {
+    expect(() => parseSettingsProfile("not json")).toThrow("Not a JSON file");
+    expect(() => parseSettingsProfile('{"values":{}}')).toThrow(
+      "Not a settings profile",
+    );
+  });
+
+  it("should reject keys outside the dashboard's settings", () => {
+    const text = JSON.stringify({
+      format: SETTINGS_PROFILE_FORMAT,
+      version: 1,
+      exportedAt: "2024-01-01T00:00:00.000Z",
+      values: { "other-app:token": "x" },
+    });
+    expect(() => parseSettingsProfile(text)).toThrow(
+      'Unexpected setting "other-app:token"',
+    );
+  });
+});
@@ -0,0 +1,122 @@
+import { z } from "zod";
+
+/**
+ * A settings profile is every `driving-safety-dashboard:*` localStorage
+ * entry: connection settings, alert rules and calibrations of every
+ * vehicle, units, freshness and alarm preferences. Values are copied as
+ * stored and validated by their own loaders when read. The sign-in is kept
+ * under another prefix and never part of a profile.
+ */
+export const SETTINGS_PROFILE_FORMAT = "driving-safety-dashboard/settings";
+export const SETTINGS_PROFILE_VERSION = 1;
+
+const SETTINGS_PREFIX = "driving-safety-dashboard:";
+
+export interface SettingsProfile {
+  format: typeof SETTINGS_PROFILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  /** Raw localStorage values by key */
+  values: Record<string, string>;
+}
+
+const settingsProfileSchema = z.object({
+  format: z.literal(SETTINGS_PROFILE_FORMAT),
+  version: z.literal(SETTINGS_PROFILE_VERSION),
+  exportedAt: z.string(),
+  values: z.record(z.string()),
+});
+
+type SettingsStorage = Pick<
+  Storage,
+  "getItem" | "setItem" | "removeItem" | "key" | "length"
+>;
+
+export const isSettingsKey = (key: string | null) =>
+  key?.startsWith(SETTINGS_PREFIX) ?? false;
+
+const settingsKeys = (storage: SettingsStorage) => {
+  const keys: string[] = [];
+  for (let i = 0; i < storage.length; i++) {
+    const key = storage.key(i);
+    if (isSettingsKey(key)) keys.push(key);
+  }
+  return keys.sort();
+};
+
+export function exportSettingsProfile(
+  storage: SettingsStorage = localStorage,
+  now = new Date(),
+): SettingsProfile {
+  return {
+    format: SETTINGS_PROFILE_FORMAT,
+    version: SETTINGS_PROFILE_VERSION,
+    exportedAt: now.toISOString(),
+    values: Object.fromEntries(
+      settingsKeys(storage).map((key) => [key, storage.getItem(key)]),
+    ),
+  };
+}
+
+export function parseSettingsProfile(text: string): SettingsProfile {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(text);
+  } catch {
+    throw new Error("Not a JSON file");
+  }
+  const result = settingsProfileSchema.safeParse(decoded);
+  if (!result.success) throw new Error("Not a settings profile");
+  const unknownKey = Object.keys(result.data.values).find(
+    (key) => !isSettingsKey(key),
+  );
+  if (unknownKey) throw new Error(`Unexpected setting "${unknownKey}"`);
+  return result.data as SettingsProfile;
+}
+
+/**
+ * Replace the current settings with the profile's. Returns the keys that
+ * changed so open views can reload them.
+ */
+export function applySettingsProfile(
+  profile: SettingsProfile,
+  storage: SettingsStorage = localStorage,
+): string[] {
+  const changed: string[] = [];
+  settingsKeys(storage).forEach((key) => {
+    if (key in profile.values) return;
+    storage.removeItem(key);
+    changed.push(key);
+  });
+  Object.entries(profile.values).forEach(([key, value]) => {
+    if (storage.getItem(key) === value) return;
+    storage.setItem(key, value);
+    changed.push(key);
+  });
+  return changed;
+}
+
+/**
+ * Storage events only reach other tabs. Settings hooks listen for them, so
+ * replaying them here applies changes made on this page without a reload.
+ */
+export function notifySettingsChanged(keys: string[]) {
+  keys.forEach((key) =>
+    window.dispatchEvent(new StorageEvent("storage", { key })),
+  );
+}
+
+export function downloadSettingsProfile(
+  profile: SettingsProfile,
+  date = new Date(),
+) {
+  const blob = new Blob([JSON.stringify(profile, null, 2)], {
+    type: "application/json",
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `dashboard-settings-${date.toISOString().slice(0, 10)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,215 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  createTelemetryConnection,
+  getBackoffDelay,
+  DEFAULT_BACKOFF,
+  type ConnectionState,
+} from "./telemetry-connection";
+import { withLastEventId, type TransportHandlers } from "./telemetry-transport";
+
+class FakeEventSource {
+  static instances: FakeEventSource[] = [];
+  onopen: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+  closed = false;
+
+  constructor(public url: string) {
+    FakeEventSource.instances.push(this);
+  }
+
+  close() {
+    this.closed = true;
+  }
+
+  open() {
+    this.onopen?.(new Event("open"));
+  }
+
+  emit(data: string, lastEventId = "") {
+    this.onmessage?.(new MessageEvent("message", { data, lastEventId }));
+  }
+
+  fail() {
+    this.onerror?.(new Event("error"));
+  }
+}
+
+const latest = () =>
+  FakeEventSource.instances[FakeEventSource.instances.length - 1];
+
+const setup = (overrides = {}) => {
+  const states: ConnectionState[] = [];
+  const messages: string[] = [];
+  const connection = createTelemetryConnection({
+    url: "https://example.test/dashboard/stream",
+    onMessage: (data) => messages.push(data),
+    onStatusChange: (status) => {
+      if (states[states.length - 1] !== status.state) states.push(status.state);
+    },
+    createEventSource: (url) =>
+      new FakeEventSource(url) as unknown as EventSource,
+    random: () => 0.5,
+    ...overrides,
+  });
+  return { connection, states, messages };
+};
+
+describe("getBackoffDelay", () => {
+  it("should grow exponentially up to the max delay", () => {
+    const noJitter = { ...DEFAULT_BACKOFF, jitter: 0 };
+    expect(getBackoffDelay(0, noJitter)).toBe(1000);
+    expect(getBackoffDelay(1, noJitter)).toBe(2000);
+    expect(getBackoffDelay(3, noJitter)).toBe(8000);
+    expect(getBackoffDelay(10, noJitter)).toBe(30000);
+  });
+
+  it("should keep jittered delays within the configured spread", () => {
+    expect(getBackoffDelay(1, DEFAULT_BACKOFF, () => 0)).toBe(1000);
+    expect(getBackoffDelay(1, DEFAULT_BACKOFF, () => 1)).toBe(2000);
+  });
+});
+
+describe("withLastEventId", () => {
+  it("should leave the url untouched without an id", () => {
+    expect(withLastEventId("/dashboard/stream", null)).toBe(
+      "/dashboard/stream",
+    );
+  });
+
+  it("should add or replace the resume parameter", () => {
+    expect(withLastEventId("https://a.test/s?x=1&lastEventId=3", "9")).toBe(
+      "https://a.test/s?x=1&lastEventId=9",
+    );
+    expect(withLastEventId("/dashboard/stream", "42")).toBe(
+      "/dashboard/stream?lastEventId=42",
+    );
+  });
+});
+
+describe("createTelemetryConnection", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    FakeEventSource.instances = [];
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should go live on open and forward messages", () => {
+    const { connection, states, messages } = setup();
+    connection.start();
+    latest().open();
+    latest().emit('{"rpm":100}', "1");
+
+    expect(states).toEqual(["live"]);
+    expect(messages).toEqual(['{"rpm":100}']);
+    expect(connection.getStatus().lastEventId).toBe("1");
+  });
+
+  it("should mark the connection stale when messages stop", () => {
+    const { connection, states } = setup({ staleAfter: 1000 });
+    connection.start();
+    latest().open();
+    vi.advanceTimersByTime(1000);
+    expect(states).toEqual(["live", "stale"]);
+
+    latest().emit("{}");
+    expect(connection.getStatus().state).toBe("live");
+  });
+
+  it("should reconnect with backoff and resume from the last event id", () => {
+    const { connection, states } = setup();
+    connection.start();
+    latest().open();
+    latest().emit("{}", "7");
+    latest().fail();
+
+    expect(latest().closed).toBe(true);
+    expect(connection.getStatus()).toMatchObject({
+      state: "backoff",
+      retryCount: 1,
+    });
+
+    vi.advanceTimersByTime(getBackoffDelay(0, DEFAULT_BACKOFF, () => 0.5));
+    expect(FakeEventSource.instances).toHaveLength(2);
+    expect(latest().url).toBe(
+      "https://example.test/dashboard/stream?lastEventId=7",
+    );
+
+    latest().open();
+    expect(states).toEqual(["live", "backoff", "connecting", "live"]);
+    expect(connection.getStatus()).toMatchObject({
+      retryCount: 0,
+      reconnectCount: 1,
+    });
+  });
+
+  it("should remember when the stream was lost until it is back", () => {
+    let time = 1000;
+    const { connection } = setup({ now: () => time });
+    connection.start();
+    latest().open();
+    time = 2000;
+    latest().fail();
+    time = 9000;
+    vi.runOnlyPendingTimers();
+    latest().fail();
+    expect(connection.getStatus().disconnectedSince).toBe(2000);
+
+    vi.runOnlyPendingTimers();
+    latest().open();
+    expect(connection.getStatus().disconnectedSince).toBeNull();
+  });
+
+  it("should treat an attempt that never opens as a failure", () => {
+    const { connection } = setup({ connectTimeout: 2000 });
+    connection.start();
+    vi.advanceTimersByTime(2000);
+    expect(connection.getStatus().state).toBe("backoff");
+  });
+
+  it("should go offline once retries are exhausted", () => {
+    const { connection } = setup({ maxRetries: 2 });
+    connection.start();
+    for (let i = 0; i < 3; i++) {
+      latest().fail();
+      vi.runOnlyPendingTimers();
+    }
+    expect(connection.getStatus()).toMatchObject({
+      state: "offline",
+      retryCount: 2,
+    });
+    expect(FakeEventSource.instances).toHaveLength(3);
+  });
+
+  it("should stop reconnecting after stop", () => {
+    const { connection } = setup();
+    connection.start();
+    latest().fail();
+    connection.stop();
+    vi.runAllTimers();
+    expect(FakeEventSource.instances).toHaveLength(1);
+  });
+
+  it("should report the same states over a WebSocket transport", () => {
+    const transports: TransportHandlers[] = [];
+    const { connection, states, messages } = setup({
+      url: "wss://example.test/dashboard/ws",
+      createTransport: (_url: string, handlers: TransportHandlers) => {
+        transports.push(handlers);
+        return { close: () => {} };
+      },
+    });
+    connection.start();
+    transports[0].onOpen();
+    transports[0].onMessage('{"rpm":100}');
+    transports[0].onError();
+    vi.runOnlyPendingTimers();
+    transports[1].onOpen();
+
+    expect(states).toEqual(["live", "backoff", "connecting", "live"]);
+    expect(messages).toEqual(['{"rpm":100}']);
+  });
+});
@@ -0,0 +1,260 @@
+import {
+  selectTransport,
+  type Transport,
+  type TransportFactory,
+  type TransportOptions,
+} from "./telemetry-transport";
+
+export type ConnectionState =
+  "connecting" | "live" | "stale" | "backoff" | "offline";
+
+export interface ConnectionStatus {
+  state: ConnectionState;
+  /** Consecutive failed attempts since the last successful open */
+  retryCount: number;
+  /** Total reconnect attempts over the lifetime of the connection */
+  reconnectCount: number;
+  /** Epoch ms of the next scheduled attempt while in `backoff` */
+  nextRetryAt: number | null;
+  lastEventId: string | null;
+  lastMessageAt: number | null;
+  /** Epoch ms the stream was lost; null while connected */
+  disconnectedSince: number | null;
+}
+
+export interface BackoffOptions {
+  initialDelay: number;
+  maxDelay: number;
+  multiplier: number;
+  /** Fraction (0-1) of each delay that is randomized */
+  jitter: number;
+}
+
+export interface TelemetryConnectionOptions extends TransportOptions {
+  url: string;
+  onMessage: (data: string) => void;
+  onStatusChange?: (status: ConnectionStatus) => void;
+  /** Mark a live connection stale after this long without a message */
+  staleAfter?: number;
+  /** Give up on an attempt that has not opened within this time */
+  connectTimeout?: number;
+  /** Go offline after this many consecutive failures */
+  maxRetries?: number;
+  backoff?: Partial<BackoffOptions>;
+  /** Defaults to the transport for the URL's scheme */
+  createTransport?: TransportFactory;
+  random?: () => number;
+  now?: () => number;
+}
+
+export interface TelemetryConnection {
+  start: () => void;
+  stop: () => void;
+  getStatus: () => ConnectionStatus;
+}
+
+export const DEFAULT_BACKOFF: BackoffOptions = {
+  initialDelay: 1000,
+  maxDelay: 30000,
+  multiplier: 2,
+  jitter: 0.5,
+};
+
+const DEFAULT_STALE_AFTER = 5000;
+const DEFAULT_CONNECT_TIMEOUT = 5000;
+
+export const createConnectionStatus = (
+  state: ConnectionState = "connecting",
+): ConnectionStatus => ({
+  state,
+  retryCount: 0,
+  reconnectCount: 0,
+  nextRetryAt: null,
+  lastEventId: null,
+  lastMessageAt: null,
+  disconnectedSince: null,
+});
+
+// Delay before retry number `attempt` (0-based). The randomized part keeps a
+// wall of dashboards from reconnecting in lockstep after a server restart.
+export function getBackoffDelay(
+  attempt: number,
+  options: BackoffOptions = DEFAULT_BACKOFF,
+  random: () => number = Math.random,
+): number {
+  const base = Math.min(
+    options.maxDelay,
+    options.initialDelay * Math.pow(options.multiplier, attempt),
+  );
+  const fixed = base * (1 - options.jitter);
+  return Math.round(fixed + random() * (base - fixed));
+}
+
+export function createTelemetryConnection(
+  options: TelemetryConnectionOptions,
+): TelemetryConnection {
+  const {
+    url,
+    onMessage,
+    onStatusChange,
+    staleAfter = DEFAULT_STALE_AFTER,
+    connectTimeout = DEFAULT_CONNECT_TIMEOUT,
+    maxRetries = Infinity,
+    createTransport = selectTransport(options.url, options),
+    random = Math.random,
+    now = Date.now,
+  } = options;
+  const backoff = { ...DEFAULT_BACKOFF, ...options.backoff };
+
+  let status = createConnectionStatus();
+  let transport: Transport | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let staleTimer: ReturnType<typeof setTimeout> | null = null;
+  let connectTimer: ReturnType<typeof setTimeout> | null = null;
+  let running = false;
+
+  const setStatus = (patch: Partial<ConnectionStatus>) => {
+    const next = { ...status, ...patch };
+    const changed = (Object.keys(next) as (keyof ConnectionStatus)[]).some(
+      (key) => next[key] !== status[key],
+    );
+    status = next;
+    if (changed) onStatusChange?.(status);
+  };
+
+  const clearTimers = () => {
+    if (retryTimer) clearTimeout(retryTimer);
+    if (staleTimer) clearTimeout(staleTimer);
+    if (connectTimer) clearTimeout(connectTimer);
+    retryTimer = staleTimer = connectTimer = null;
+  };
+
+  const closeTransport = () => {
+    if (!transport) return;
+    transport.close();
+    transport = null;
+  };
+
+  const isBrowserOffline = () =>
+    typeof navigator !== "undefined" && navigator.onLine === false;
+
+  const armStaleTimer = () => {
+    if (staleTimer) clearTimeout(staleTimer);
+    staleTimer = setTimeout(() => {
+      if (running && status.state === "live") setStatus({ state: "stale" });
+    }, staleAfter);
+  };
+
+  const fail = () => {
+    closeTransport();
+    clearTimers();
+    if (!running) return;
+
+    if (isBrowserOffline() || status.retryCount >= maxRetries) {
+      setStatus({
+        state: "offline",
+        nextRetryAt: null,
+        disconnectedSince: status.disconnectedSince ?? now(),
+      });
+      return;
+    }
+
+    const delay = getBackoffDelay(status.retryCount, backoff, random);
+    setStatus({
+      state: "backoff",
+      retryCount: status.retryCount + 1,
+      nextRetryAt: now() + delay,
+      disconnectedSince: status.disconnectedSince ?? now(),
+    });
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      setStatus({ reconnectCount: status.reconnectCount + 1 });
+      open();
+    }, delay);
+  };
+
+  const open = () => {
+    if (!running) return;
+    if (isBrowserOffline()) {
+      setStatus({
+        state: "offline",
+        nextRetryAt: null,
+        disconnectedSince: status.disconnectedSince ?? now(),
+      });
+      return;
+    }
+
+    setStatus({ state: "connecting", nextRetryAt: null });
+    try {
+      transport = createTransport(
+        url,
+        {
+          onOpen: () => {
+            if (connectTimer) clearTimeout(connectTimer);
+            connectTimer = null;
+            setStatus({
+              state: "live",
+              retryCount: 0,
+              disconnectedSince: null,
+            });
+            armStaleTimer();
+          },
+          onMessage: (data, eventId) => {
+            setStatus({
+              state: "live",
+              retryCount: 0,
+              disconnectedSince: null,
+              lastMessageAt: now(),
+              lastEventId: eventId || status.lastEventId,
+            });
+            armStaleTimer();
+            onMessage(data);
+          },
+          onError: () => fail(),
+        },
+        status.lastEventId,
+      );
+    } catch (err) {
+      console.error("Failed to open telemetry stream:", err);
+      fail();
+      return;
+    }
+
+    connectTimer = setTimeout(() => {
+      connectTimer = null;
+      if (status.state === "connecting") fail();
+    }, connectTimeout);
+  };
+
+  const handleOnline = () => {
+    if (!running || status.state !== "offline") return;
+    setStatus({ retryCount: 0 });
+    open();
+  };
+
+  const handleOffline = () => {
+    if (running) fail();
+  };
+
+  return {
+    start: () => {
+      if (running) return;
+      running = true;
+      if (typeof window !== "undefined") {
+        window.addEventListener("online", handleOnline);
+        window.addEventListener("offline", handleOffline);
+      }
+      open();
+    },
+    stop: () => {
+      running = false;
+      if (typeof window !== "undefined") {
+        window.removeEventListener("online", handleOnline);
+        window.removeEventListener("offline", handleOffline);
+      }
+      clearTimers();
+      closeTransport();
+    },
+    getStatus: () => status,
+  };
+}
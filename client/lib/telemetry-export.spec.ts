@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+import { parseRecording } from "./telemetry-replay";
+import {
+  EXPORT_FORMATS,
+  parseCsv,
+  parseEntries,
+  serializeEntries,
+  type ExportEntry,
+} from "./telemetry-export";
+
+const START = Date.parse("2025-03-01T08:00:00.000Z");
+
+const ENTRIES: ExportEntry[] = [
+  {
+    timestamp: START,
+    frame: {
+      vehicleId: "truck-1",
+      rpm: 1520,
+      speed: 24,
+      eyeDrowsy: false,
+      steerInactive: false,
+      rolloverDetected: false,
+    },
+    alerts: [],
+  },
+  {
+    timestamp: START + 500,
+    frame: { vehicleId: "truck-1", rpm: null, speed: null, eyeDrowsy: true },
+    alerts: [
+      { ruleId: "drowsy", name: "Driver drowsy", severity: "danger" },
+      {
+        ruleId: "custom",
+        name: 'Odd "name", with: separators',
+        severity: "warning",
+      },
+    ],
+  },
+  {
+    timestamp: START + 1000,
+    frame: { rpm: 8000, speed: 126.4, steerInactive: true },
+    alerts: [{ ruleId: "speed-danger", name: "Speed", severity: "danger" }],
+  },
+];
+
+describe("serializeEntries / parseEntries", () => {
+  it.each(EXPORT_FORMATS)("should round-trip %s", (format) => {
+    const text = serializeEntries(ENTRIES, format);
+    expect(parseEntries(text)).toEqual(ENTRIES);
+  });
+
+  it("should write ISO timestamps and one CSV column per field", () => {
+    const [header, first] = serializeEntries(ENTRIES, "csv").split("\n");
+    expect(header).toBe(
+      "timestamp,vehicleId,eyeDrowsy,steerInactive,rolloverDetected,rpm,speed," +
+        "temperature,batteryVoltage,seatbelt,latitude,longitude,heading,accelX,accelY,accelZ,roll,pitch," +
+        "extra,alerts",
+    );
+    expect(first).toBe(
+      "2025-03-01T08:00:00.000Z,truck-1,false,false,false,1520,24,,,,,,,,,,,,,",
+    );
+  });
+
+  it("should round-trip unknown sensor fields through every format", () => {
+    const entries: ExportEntry[] = [
+      {
+        timestamp: START,
+        frame: {
+          rpm: 900,
+          temperature: 21.5,
+          extra: { tirePressure: 2.4, cabin: 'open, "rear"', dtc: null },
+        },
+        alerts: [],
+      },
+    ];
+
+    for (const format of EXPORT_FORMATS) {
+      expect(parseEntries(serializeEntries(entries, format), format)).toEqual(
+        entries,
+      );
+    }
+  });
+
+  it("should keep unknown CSV columns as extras", () => {
+    const [entry] = parseEntries(
+      "timestamp,rpm,oilLevel,alerts\n2025-03-01T08:00:00Z,900,low,\n",
+    );
+    expect(entry.frame).toEqual({ rpm: 900, extra: { oilLevel: "low" } });
+  });
+
+  it("should produce NDJSON that the replay source can play", () => {
+    const recording = parseRecording(serializeEntries(ENTRIES, "ndjson"));
+    expect(recording.map((entry) => entry.timestamp)).toEqual(
+      ENTRIES.map((entry) => entry.timestamp),
+    );
+  });
+
+  it("should drop imported values that fail validation", () => {
+    const [entry] = parseEntries(
+      "timestamp,rpm,speed\n2025-03-01T08:00:00Z,abc,50\n",
+    );
+    expect(entry.frame).toEqual({ speed: 50 });
+  });
+
+  it("should sort imported entries by time", () => {
+    const text = serializeEntries([...ENTRIES].reverse(), "json");
+    expect(parseEntries(text)).toEqual(ENTRIES);
+  });
+
+  it("should report the line of a broken entry", () => {
+    const text = serializeEntries(ENTRIES, "ndjson").replace(
+      /\n.*\n/,
+      "\n{broken\n",
+    );
+    expect(() => parseEntries(text)).toThrow("Line 2: Invalid JSON");
+    expect(() => parseEntries("rpm\n100")).toThrow("Missing timestamp column");
+  });
+});
+
+describe("parseCsv", () => {
+  it("should handle quoted cells and CRLF line endings", () => {
+    expect(parseCsv('a,b\r\n"x, ""y""","line\nbreak"\r\n')).toEqual([
+      ["a", "b"],
+      ['x, "y"', "line\nbreak"],
+    ]);
+  });
+});
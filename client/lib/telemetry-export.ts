@@ -0,0 +1,303 @@
+import {
+  parseTelemetryFrame,
+  TELEMETRY_FIELDS,
+  type TelemetryFrame,
+} from "@shared/api";
+import type { ActiveAlert, AlertSeverity } from "./alert-rules";
+
+export const EXPORT_FORMATS = ["csv", "json", "ndjson"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv",
+  json: "application/json",
+  ndjson: "application/x-ndjson",
+};
+
+export type ExportedAlert = Pick<ActiveAlert, "ruleId" | "name" | "severity">;
+
+export interface ExportEntry {
+  timestamp: number;
+  /** Includes the derived `speed` next to the raw `rpm` */
+  frame: TelemetryFrame;
+  /** Alerts active at this frame */
+  alerts: ExportedAlert[];
+}
+
+// `line` is 1-based: the line (NDJSON), row (CSV) or entry index (JSON)
+const importError = (message: string, line?: number) =>
+  new Error(line === undefined ? message : `Line ${line}: ${message}`);
+
+const CSV_COLUMNS = [
+  "timestamp",
+  "vehicleId",
+  ...TELEMETRY_FIELDS,
+  "extra",
+  "alerts",
+] as const;
+
+// JSON and NDJSON records match what `parseRecording()` replays
+const toRecord = ({ timestamp, frame, alerts }: ExportEntry) => ({
+  timestamp: new Date(timestamp).toISOString(),
+  frame,
+  alerts: alerts.map(({ ruleId, name, severity }) => ({
+    ruleId,
+    name,
+    severity,
+  })),
+});
+
+const escapeCsv = (value: string) =>
+  /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// Unavailable readings are written as `null` so they survive a round trip;
+// an empty cell means the field was not sent
+const formatCsvValue = (value: unknown) =>
+  value === undefined ? "" : value === null ? "null" : String(value);
+
+// `severity:ruleId:name`, several alerts separated by `|`
+const formatCsvAlerts = (alerts: ExportedAlert[]) =>
+  alerts
+    .map(({ severity, ruleId, name }) => `${severity}:${ruleId}:${name}`)
+    .join("|");
+
+// Unknown sensor fields as one JSON object, so their types survive
+const formatCsvExtra = (extra: TelemetryFrame["extra"]) =>
+  extra ? JSON.stringify(extra) : "";
+
+const parseCsvExtra = (value: unknown, line: number) => {
+  if (value === undefined) return undefined;
+  const extra = parseJsonLine(value as string, line);
+  if (extra === null || typeof extra !== "object" || Array.isArray(extra)) {
+    throw importError("extra must be a JSON object", line);
+  }
+  return extra;
+};
+
+export function serializeEntries(
+  entries: ExportEntry[],
+  format: ExportFormat,
+): string {
+  switch (format) {
+    case "json":
+      return JSON.stringify(entries.map(toRecord), null, 2);
+    case "ndjson":
+      return entries.map((entry) => JSON.stringify(toRecord(entry))).join("\n");
+    case "csv": {
+      const rows = entries.map((entry) => {
+        const record = toRecord(entry);
+        const frame = entry.frame as Record<string, unknown>;
+        return CSV_COLUMNS.map((column) => {
+          if (column === "timestamp") return record.timestamp;
+          if (column === "alerts") return formatCsvAlerts(entry.alerts);
+          if (column === "extra") return formatCsvExtra(entry.frame.extra);
+          return formatCsvValue(frame[column]);
+        })
+          .map(escapeCsv)
+          .join(",");
+      });
+      return [CSV_COLUMNS.join(","), ...rows].join("\n");
+    }
+  }
+}
+
+/**
+ * Split CSV text into rows of cells, honoring quoted cells with embedded
+ * commas, quotes and newlines.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((value) => value !== ""));
+}
+
+const parseCsvAlerts = (value: string, line: number): ExportedAlert[] =>
+  value === ""
+    ? []
+    : value.split("|").map((part) => {
+        const [severity, ruleId, ...name] = part.split(":");
+        if ((severity !== "warning" && severity !== "danger") || !ruleId) {
+          throw importError(`Invalid alert "${part}"`, line);
+        }
+        return {
+          ruleId,
+          name: name.join(":") || ruleId,
+          severity: severity as AlertSeverity,
+        };
+      });
+
+const parseTimestamp = (value: unknown, line: number) => {
+  const timestamp =
+    typeof value === "string" ? Date.parse(value) : (value as number);
+  if (typeof timestamp !== "number" || !Number.isFinite(timestamp)) {
+    throw importError(`Invalid timestamp "${value}"`, line);
+  }
+  return timestamp;
+};
+
+// Imported files are untrusted, so frames go through the same validation as
+// live data; fields that fail are dropped
+const parseFrame = (value: unknown, line: number) => {
+  const { frame } = parseTelemetryFrame(value);
+  if (!frame) throw importError("Invalid frame", line);
+  return frame;
+};
+
+const parseAlerts = (value: unknown, line: number): ExportedAlert[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    throw importError("alerts must be an array", line);
+  }
+  return value.map((alert) => {
+    const { ruleId, name, severity } = (alert ?? {}) as Record<string, unknown>;
+    if (
+      typeof ruleId !== "string" ||
+      (severity !== "warning" && severity !== "danger")
+    ) {
+      throw importError("Invalid alert", line);
+    }
+    return {
+      ruleId,
+      name: typeof name === "string" ? name : ruleId,
+      severity,
+    };
+  });
+};
+
+const fromRecord = (record: unknown, line: number): ExportEntry => {
+  if (record === null || typeof record !== "object") {
+    throw importError("Expected an object", line);
+  }
+  const { timestamp, frame, data, alerts } = record as Record<string, unknown>;
+  return {
+    timestamp: parseTimestamp(timestamp, line),
+    frame: parseFrame(frame ?? data, line),
+    alerts: parseAlerts(alerts, line),
+  };
+};
+
+const parseJsonLine = (text: string, line: number) => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw importError("Invalid JSON", line);
+  }
+};
+
+export function detectExportFormat(text: string): ExportFormat {
+  const trimmed = text.trimStart();
+  if (trimmed.startsWith("[")) return "json";
+  if (trimmed.startsWith("{")) return "ndjson";
+  return "csv";
+}
+
+/**
+ * Parse an exported file back into entries, oldest first. The format is
+ * detected from the content unless given.
+ */
+export function parseEntries(
+  text: string,
+  format: ExportFormat = detectExportFormat(text),
+): ExportEntry[] {
+  let entries: ExportEntry[];
+
+  if (format === "json") {
+    const records = parseJsonLine(text, 1);
+    if (!Array.isArray(records)) {
+      throw importError("Expected a JSON array");
+    }
+    entries = records.map((record, index) => fromRecord(record, index + 1));
+  } else if (format === "ndjson") {
+    entries = text
+      .split("\n")
+      .map((line, index) => ({ line, number: index + 1 }))
+      .filter(({ line }) => line.trim() !== "")
+      .map(({ line, number }) =>
+        fromRecord(parseJsonLine(line, number), number),
+      );
+  } else {
+    const [header, ...rows] = parseCsv(text);
+    if (!header?.includes("timestamp")) {
+      throw importError("Missing timestamp column");
+    }
+    entries = rows.map((cells, index) => {
+      const line = index + 2;
+      const raw: Record<string, unknown> = {};
+      header.forEach((column, i) => {
+        const value = cells[i] ?? "";
+        if (value !== "") raw[column] = value === "null" ? null : value;
+      });
+      // Any other column is a frame field; unknown ones become extras
+      const { timestamp, alerts, extra, ...fields } = raw;
+      return {
+        timestamp: parseTimestamp(timestamp, line),
+        frame: parseFrame(
+          { ...fields, extra: parseCsvExtra(extra, line) },
+          line,
+        ),
+        alerts: parseCsvAlerts((alerts as string) ?? "", line),
+      };
+    });
+  }
+
+  return entries.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+export function exportFileName(
+  label: string,
+  format: ExportFormat,
+  date = new Date(),
+) {
+  const stamp = date.toISOString().slice(0, 19).replace(/:/g, "-");
+  return `telemetry-${label}-${stamp}.${format}`;
+}
+
+export function downloadEntries(
+  entries: ExportEntry[],
+  format: ExportFormat,
+  fileName: string,
+) {
+  const blob = new Blob([serializeEntries(entries, format)], {
+    type: EXPORT_MIME_TYPES[format],
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
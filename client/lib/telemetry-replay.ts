@@ -0,0 +1,128 @@
+import type { TelemetryFrame } from "@shared/api";
+import {
+  createConnectionStatus,
+  type ConnectionState,
+  type TelemetryConnection,
+  type TelemetryConnectionOptions,
+} from "./telemetry-connection";
+
+export const REPLAY_SPEEDS = [1, 4, 16] as const;
+
+// Gaps between recorded frames (e.g. parked between trips) are shortened to
+// this many milliseconds of recording time
+const MAX_REPLAY_GAP = 5000;
+
+export interface RecordedFrame {
+  /** Epoch ms when the frame was received */
+  timestamp: number;
+  frame: TelemetryFrame;
+}
+
+/**
+ * Parse a recorded session. Accepts a JSON array or newline-delimited JSON
+ * of `{ timestamp, frame }` entries (`data` is accepted for `frame`, matching
+ * the dashboard's history entries).
+ */
+export function parseRecording(text: string): RecordedFrame[] {
+  const trimmed = text.trim();
+  const entries: unknown[] = trimmed.startsWith("[")
+    ? JSON.parse(trimmed)
+    : trimmed
+        .split("\n")
+        .filter((line) => line.trim() !== "")
+        .map((line) => JSON.parse(line));
+
+  return entries
+    .map((entry) => {
+      const { timestamp, frame, data } = entry as Record<string, unknown>;
+      const time =
+        typeof timestamp === "string" ? Date.parse(timestamp) : timestamp;
+      return {
+        timestamp: time as number,
+        frame: (frame ?? data) as TelemetryFrame,
+      };
+    })
+    .filter((entry) => Number.isFinite(entry.timestamp) && entry.frame)
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+export interface ReplaySourceOptions extends Pick<
+  TelemetryConnectionOptions,
+  "onMessage" | "onStatusChange"
+> {
+  /** Recorded frames, or a URL to fetch them from */
+  recording: RecordedFrame[] | string;
+  speed?: number;
+  loop?: boolean;
+}
+
+/**
+ * Replays a recorded session with its original timing, sped up by `speed`.
+ */
+export function createReplaySource({
+  recording,
+  speed = 1,
+  loop = true,
+  onMessage,
+  onStatusChange,
+}: ReplaySourceOptions): TelemetryConnection {
+  let status = createConnectionStatus();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let running = false;
+
+  const setState = (state: ConnectionState) => {
+    status = { ...status, state };
+    onStatusChange?.(status);
+  };
+
+  const play = (frames: RecordedFrame[], index: number) => {
+    if (!running) return;
+    if (index >= frames.length) {
+      if (loop && frames.length > 0) play(frames, 0);
+      else setState("offline");
+      return;
+    }
+
+    status = { ...status, lastMessageAt: Date.now() };
+    onMessage(JSON.stringify(frames[index].frame));
+
+    const next = frames[index + 1];
+    const delay = next
+      ? Math.min(next.timestamp - frames[index].timestamp, MAX_REPLAY_GAP) /
+        speed
+      : 1000 / speed;
+    timer = setTimeout(() => play(frames, index + 1), delay);
+  };
+
+  const load = async (): Promise<RecordedFrame[]> => {
+    if (typeof recording !== "string") return recording;
+    const response = await fetch(recording);
+    if (!response.ok) {
+      throw new Error(`Failed to load recording: ${response.status}`);
+    }
+    return parseRecording(await response.text());
+  };
+
+  return {
+    start: () => {
+      if (running) return;
+      running = true;
+      load()
+        .then((frames) => {
+          if (!running) return;
+          setState("live");
+          play(frames, 0);
+        })
+        .catch((err) => {
+          console.error("Failed to start replay:", err);
+          setState("offline");
+        });
+    },
+    stop: () => {
+      running = false;
+      if (timer) clearTimeout(timer);
+      timer = null;
+    },
+    getStatus: () => status,
+  };
+}
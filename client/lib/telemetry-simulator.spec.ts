@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import type { TelemetryFrame } from "@shared/api";
+import { createRandom, generateScenario } from "./telemetry-simulator";
+import { rpmToKmh } from "./telemetry";
+
+const take = (frames: Generator<TelemetryFrame>, count: number) =>
+  Array.from({ length: count }, () => frames.next().value);
+
+describe("createRandom", () => {
+  it("should be reproducible for the same seed", () => {
+    const a = createRandom(42);
+    const b = createRandom(42);
+    expect([a(), a(), a()]).toEqual([b(), b(), b()]);
+    expect(createRandom(7)()).not.toBe(createRandom(42)());
+  });
+});
+
+describe("generateScenario", () => {
+  it("should produce identical frames for the same seed", () => {
+    const first = take(generateScenario("drowsy-driver", { seed: 3 }), 200);
+    const second = take(generateScenario("drowsy-driver", { seed: 3 }), 200);
+    expect(first).toEqual(second);
+  });
+
+  it("should exceed the danger speed on the highway", () => {
+    const frames = take(generateScenario("highway-speeding"), 240);
+    const maxSpeed = Math.max(...frames.map((f) => rpmToKmh(f.rpm) ?? 0));
+    expect(maxSpeed).toBeGreaterThan(120);
+  });
+
+  it("should contain drowsiness and steering episodes", () => {
+    const drowsy = take(generateScenario("drowsy-driver"), 360);
+    const steering = take(generateScenario("steering-inactivity"), 360);
+    expect(drowsy.some((f) => f.eyeDrowsy)).toBe(true);
+    expect(steering.some((f) => f.steerInactive)).toBe(true);
+  });
+
+  it("should move the vehicle along a route while it drives", () => {
+    const frames = take(generateScenario("rollover"), 120);
+    const position = (f: TelemetryFrame) => [f.latitude, f.longitude];
+    expect(position(frames[40])).not.toEqual(position(frames[0]));
+    // Stopped after the rollover
+    expect(position(frames[119])).toEqual(position(frames[100]));
+    expect(frames.every((f) => f.heading >= 0 && f.heading <= 360)).toBe(true);
+  });
+
+  it("should brake hard into the rollover and end upside down", () => {
+    const frames = take(generateScenario("rollover"), 120);
+    expect(frames.some((f) => f.accelX <= -0.4)).toBe(true);
+    expect(frames.find((f) => f.rolloverDetected).accelZ).toBe(-1);
+    const highway = take(generateScenario("highway-speeding"), 240);
+    expect(highway.every((f) => Math.abs(f.accelX) < 0.35)).toBe(true);
+  });
+
+  it("should stop the vehicle during a rollover", () => {
+    const frames = take(generateScenario("rollover"), 120);
+    const rollover = frames.filter((f) => f.rolloverDetected);
+    expect(rollover.length).toBeGreaterThan(0);
+    expect(rollover.slice(4).every((f) => f.rpm === 0)).toBe(true);
+  });
+});
@@ -0,0 +1,252 @@
+import type { TelemetryFrame } from "@shared/api";
+import { kmhToRpm } from "./telemetry";
+import {
+  createConnectionStatus,
+  type TelemetryConnection,
+  type TelemetryConnectionOptions,
+} from "./telemetry-connection";
+
+export const SIMULATOR_SCENARIOS = [
+  "highway-speeding",
+  "drowsy-driver",
+  "steering-inactivity",
+  "rollover",
+] as const;
+
+export type SimulatorScenario = (typeof SIMULATOR_SCENARIOS)[number];
+
+/** Seconds between the start of one episode and the next, and its length */
+interface EpisodeConfig {
+  gap: [number, number];
+  length: [number, number];
+}
+
+interface ScenarioScript {
+  /** Loop length in seconds */
+  duration: number;
+  /** [second, km/h] keyframes, linearly interpolated */
+  speed: [number, number][];
+  /** Random +/- km/h added to the interpolated speed */
+  speedNoise: number;
+  drowsy?: EpisodeConfig;
+  steerInactive?: EpisodeConfig;
+  /** [from, to] seconds within the loop */
+  rollover?: [number, number];
+}
+
+const SCRIPTS: Record<SimulatorScenario, ScenarioScript> = {
+  "highway-speeding": {
+    duration: 120,
+    speed: [
+      [0, 0],
+      [20, 100],
+      [50, 105],
+      [60, 130],
+      [80, 135],
+      [90, 95],
+      [110, 95],
+      [120, 0],
+    ],
+    speedNoise: 4,
+  },
+  "drowsy-driver": {
+    duration: 180,
+    speed: [
+      [0, 0],
+      [15, 70],
+      [165, 75],
+      [180, 0],
+    ],
+    speedNoise: 3,
+    drowsy: { gap: [12, 25], length: [2, 8] },
+  },
+  "steering-inactivity": {
+    duration: 180,
+    speed: [
+      [0, 0],
+      [15, 60],
+      [165, 65],
+      [180, 0],
+    ],
+    speedNoise: 3,
+    steerInactive: { gap: [8, 20], length: [4, 10] },
+  },
+  rollover: {
+    duration: 60,
+    speed: [
+      [0, 0],
+      [10, 60],
+      [25, 65],
+      [27, 0],
+      [60, 0],
+    ],
+    speedNoise: 2,
+    rollover: [26, 45],
+  },
+};
+
+// Where every simulated trip starts
+const ORIGIN = { latitude: 52.52, longitude: 13.405 };
+
+const KM_PER_DEGREE = 111.32;
+
+const G = 9.81;
+
+// mulberry32: tiny, fast and good enough to make demos reproducible
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const between = (random: () => number, [min, max]: [number, number]) =>
+  min + random() * (max - min);
+
+const interpolate = (keyframes: [number, number][], second: number) => {
+  for (let i = 1; i < keyframes.length; i++) {
+    const [t1, v1] = keyframes[i];
+    if (second <= t1) {
+      const [t0, v0] = keyframes[i - 1];
+      return v0 + ((v1 - v0) * (second - t0)) / (t1 - t0 || 1);
+    }
+  }
+  return keyframes[keyframes.length - 1][1];
+};
+
+// Stateful on/off schedule; must be called with increasing time
+const createEpisodes = (random: () => number, config: EpisodeConfig) => {
+  let start = between(random, config.gap);
+  let end = start + between(random, config.length);
+  return (second: number) => {
+    while (second >= end) {
+      start = end + between(random, config.gap);
+      end = start + between(random, config.length);
+    }
+    return second >= start;
+  };
+};
+
+// Body accelerations in g. Longitudinal comes from the scripted speed without
+// noise, which would otherwise read as harsh braking; lateral from the turn
+const imu = (
+  script: ScenarioScript,
+  inLoop: number,
+  kmh: number,
+  turnRate: number,
+  interval: number,
+) => {
+  const dt = interval / 1000;
+  const slope =
+    (interpolate(script.speed, inLoop + dt) -
+      interpolate(script.speed, inLoop)) /
+    3.6 /
+    dt;
+  const upsideDown =
+    script.rollover &&
+    inLoop >= script.rollover[0] &&
+    inLoop < script.rollover[1];
+  const round = (g: number) => Number(g.toFixed(2));
+  return {
+    accelX: round(slope / G),
+    accelY: round(((kmh / 3.6) * turnRate) / G),
+    accelZ: upsideDown ? -1 : 1,
+  };
+};
+
+/**
+ * Endless, deterministic frame sequence for a scenario. The same seed always
+ * yields the same frames, so demos and bug reports are reproducible.
+ */
+export function* generateScenario(
+  scenario: SimulatorScenario,
+  { seed = 1, interval = 500 }: { seed?: number; interval?: number } = {},
+): Generator<TelemetryFrame> {
+  const script = SCRIPTS[scenario];
+  const random = createRandom(seed);
+  const drowsy = script.drowsy && createEpisodes(random, script.drowsy);
+  const steer =
+    script.steerInactive && createEpisodes(random, script.steerInactive);
+
+  let { latitude, longitude } = ORIGIN;
+
+  for (let tick = 0; ; tick++) {
+    const second = (tick * interval) / 1000;
+    const inLoop = second % script.duration;
+    const base = interpolate(script.speed, inLoop);
+    const noise = base > 0 ? (random() - 0.5) * 2 * script.speedNoise : 0;
+    const kmh = Math.max(0, base + noise);
+
+    // A gently winding road heading roughly east
+    const heading = 90 + 40 * Math.sin(second / 30);
+    const turnRate = ((40 / 30) * Math.cos(second / 30) * Math.PI) / 180;
+    const km = (kmh * interval) / 3_600_000;
+    const radians = (heading * Math.PI) / 180;
+    latitude += (km * Math.cos(radians)) / KM_PER_DEGREE;
+    longitude +=
+      (km * Math.sin(radians)) /
+      (KM_PER_DEGREE * Math.cos((latitude * Math.PI) / 180));
+
+    yield {
+      rpm: kmhToRpm(kmh),
+      eyeDrowsy: drowsy ? drowsy(second) : false,
+      steerInactive: steer ? steer(second) : false,
+      rolloverDetected: script.rollover
+        ? inLoop >= script.rollover[0] && inLoop < script.rollover[1]
+        : false,
+      latitude: Number(latitude.toFixed(6)),
+      longitude: Number(longitude.toFixed(6)),
+      heading: Math.round(heading),
+      ...imu(script, inLoop, kmh, turnRate, interval),
+    };
+  }
+}
+
+export interface SimulatorSourceOptions extends Pick<
+  TelemetryConnectionOptions,
+  "onMessage" | "onStatusChange"
+> {
+  scenario: SimulatorScenario;
+  seed?: number;
+  interval?: number;
+}
+
+/**
+ * Drop-in replacement for the live stream that emits a scripted scenario.
+ */
+export function createSimulatorSource({
+  scenario,
+  seed = 1,
+  interval = 500,
+  onMessage,
+  onStatusChange,
+}: SimulatorSourceOptions): TelemetryConnection {
+  let status = createConnectionStatus();
+  let timer: ReturnType<typeof setInterval> | null = null;
+
+  const setState = (state: typeof status.state) => {
+    status = { ...status, state };
+    onStatusChange?.(status);
+  };
+
+  return {
+    start: () => {
+      if (timer) return;
+      const frames = generateScenario(scenario, { seed, interval });
+      setState("live");
+      timer = setInterval(() => {
+        status = { ...status, lastMessageAt: Date.now() };
+        onMessage(JSON.stringify(frames.next().value));
+      }, interval);
+    },
+    stop: () => {
+      if (timer) clearInterval(timer);
+      timer = null;
+    },
+    getStatus: () => status,
+  };
+}
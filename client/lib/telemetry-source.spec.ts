@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import {
+  getServerUrl,
+  resolveTelemetrySource,
+  scopeToVehicle,
+  withAccessToken,
+} from "./telemetry-source";
+
+const STREAM = "/dashboard/stream";
+
+describe("resolveTelemetrySource", () => {
+  it("should default to the live stream", () => {
+    expect(resolveTelemetrySource("", STREAM, undefined)).toEqual({
+      kind: "stream",
+      url: STREAM,
+    });
+  });
+
+  it("should prefer the query parameter over the env var", () => {
+    expect(
+      resolveTelemetrySource("?source=sim:rollover&seed=9", STREAM, "stream"),
+    ).toEqual({ kind: "simulator", scenario: "rollover", seed: 9 });
+  });
+
+  it("should parse replay urls and speed", () => {
+    expect(
+      resolveTelemetrySource(
+        "?speed=16",
+        STREAM,
+        "replay:https://example.test/trip.ndjson",
+      ),
+    ).toEqual({
+      kind: "replay",
+      url: "https://example.test/trip.ndjson",
+      speed: 16,
+    });
+  });
+});
+
+describe("withAccessToken", () => {
+  it("should pass the token in the stream url", () => {
+    expect(
+      withAccessToken({ kind: "stream", url: `${STREAM}?vehicleId=a` }, "t.k"),
+    ).toEqual({
+      kind: "stream",
+      url: "/dashboard/stream?vehicleId=a&access_token=t.k",
+    });
+  });
+
+  it("should leave brokers and signed-out sources unchanged", () => {
+    const broker = { kind: "stream" as const, url: "mqtt+wss://broker.test" };
+    const stream = { kind: "stream" as const, url: STREAM };
+    expect(withAccessToken(broker, "t.k")).toBe(broker);
+    expect(withAccessToken(stream, null)).toBe(stream);
+  });
+});
+
+describe("scopeToVehicle", () => {
+  it("should filter the stream on the server", () => {
+    expect(scopeToVehicle({ kind: "stream", url: STREAM }, "truck-1")).toEqual({
+      kind: "stream",
+      url: "/dashboard/stream?vehicleId=truck-1",
+    });
+  });
+
+  it("should leave simulated sources unchanged", () => {
+    const config = resolveTelemetrySource("?source=sim:rollover", STREAM);
+    expect(scopeToVehicle(config, "truck-1")).toBe(config);
+  });
+
+  it("should leave MQTT topics to client-side filtering", () => {
+    const config = {
+      kind: "stream" as const,
+      url: "mqtt+wss://broker.test/mqtt?topic=vehicles/+/telemetry",
+    };
+    expect(scopeToVehicle(config, "truck-1")).toBe(config);
+  });
+});
+
+describe("getServerUrl", () => {
+  it("should resolve against the stream's origin", () => {
+    expect(
+      getServerUrl("https://a.test/dashboard/stream", "/api/vehicles"),
+    ).toBe("https://a.test/api/vehicles");
+    expect(getServerUrl(STREAM, "/api/vehicles")).toBe("/api/vehicles");
+  });
+
+  it("should use HTTP for a WebSocket stream's server", () => {
+    expect(getServerUrl("wss://a.test/dashboard/ws", "/api/vehicles")).toBe(
+      "https://a.test/api/vehicles",
+    );
+  });
+});
@@ -0,0 +1,145 @@
+import {
+  createTelemetryConnection,
+  type TelemetryConnection,
+  type TelemetryConnectionOptions,
+} from "./telemetry-connection";
+import {
+  createSimulatorSource,
+  SIMULATOR_SCENARIOS,
+  type SimulatorScenario,
+} from "./telemetry-simulator";
+import { createReplaySource } from "./telemetry-replay";
+import { getTransportKind, withQueryParam } from "./telemetry-transport";
+
+export const STREAM_URL =
+  import.meta.env.VITE_API_URL ||
+  (import.meta.env.DEV
+    ? "/dashboard/stream"
+    : "https://esp32-server-sage.vercel.app/dashboard/stream");
+
+export type TelemetrySourceConfig =
+  | { kind: "stream"; url: string }
+  | { kind: "simulator"; scenario: SimulatorScenario; seed: number }
+  | { kind: "replay"; url: string; speed: number };
+
+export type TelemetrySourceHandlers = Pick<
+  TelemetryConnectionOptions,
+  "onMessage" | "onStatusChange"
+>;
+
+/**
+ * Pick the data source from `?source=` (takes precedence) or
+ * `VITE_TELEMETRY_SOURCE`. Values: `stream`, `sim:<scenario>` or
+ * `replay:<url>`, with optional `seed` and `speed` query parameters.
+ */
+export function resolveTelemetrySource(
+  search: string,
+  streamUrl: string,
+  envSource: string | undefined = import.meta.env.VITE_TELEMETRY_SOURCE,
+): TelemetrySourceConfig {
+  const params = new URLSearchParams(search);
+  const source = params.get("source") ?? envSource ?? "stream";
+  const [kind, ...rest] = source.split(":");
+  const argument = rest.join(":");
+
+  if (kind === "sim") {
+    const scenario = SIMULATOR_SCENARIOS.includes(argument as SimulatorScenario)
+      ? (argument as SimulatorScenario)
+      : SIMULATOR_SCENARIOS[0];
+    const seed = Number(params.get("seed"));
+    return {
+      kind: "simulator",
+      scenario,
+      seed: Number.isFinite(seed) && seed !== 0 ? seed : 1,
+    };
+  }
+
+  if (kind === "replay" && argument) {
+    const speed = Number(params.get("speed"));
+    return {
+      kind: "replay",
+      url: argument,
+      speed: speed > 0 ? speed : 1,
+    };
+  }
+
+  return { kind: "stream", url: streamUrl };
+}
+
+/**
+ * Ask the server for one vehicle's frames only. Simulated, replayed and
+ * MQTT frames are filtered by the caller instead.
+ */
+export function scopeToVehicle(
+  config: TelemetrySourceConfig,
+  vehicleId: string,
+): TelemetrySourceConfig {
+  return config.kind === "stream" && getTransportKind(config.url) !== "mqtt"
+    ? { ...config, url: withQueryParam(config.url, "vehicleId", vehicleId) }
+    : config;
+}
+
+/**
+ * Adds the sign-in token to a server stream's URL as `access_token`:
+ * EventSource and WebSocket cannot send an Authorization header.
+ */
+export function withAccessToken(
+  config: TelemetrySourceConfig,
+  token: string | null,
+): TelemetrySourceConfig {
+  return token &&
+    config.kind === "stream" &&
+    getTransportKind(config.url) !== "mqtt"
+    ? { ...config, url: withQueryParam(config.url, "access_token", token) }
+    : config;
+}
+
+/**
+ * URL of another endpoint on the server that serves the stream. A
+ * WebSocket stream's server answers plain HTTP on the same host.
+ */
+export function getServerUrl(streamUrl: string, path: string) {
+  if (!/^[a-z][a-z\d+.-]*:/i.test(streamUrl)) return path;
+  const url = new URL(path, streamUrl);
+  if (url.protocol === "ws:") url.protocol = "http:";
+  if (url.protocol === "wss:") url.protocol = "https:";
+  return url.toString();
+}
+
+/** Whether the stream comes from this app's server rather than a broker */
+export const hasServer = (config: TelemetrySourceConfig) =>
+  config.kind === "stream" && getTransportKind(config.url) !== "mqtt";
+
+export function describeTelemetrySource(config: TelemetrySourceConfig) {
+  switch (config.kind) {
+    case "simulator":
+      return `Simulated: ${config.scenario} (seed ${config.seed})`;
+    case "replay":
+      return `Replay ${config.speed}x`;
+    default:
+      return null;
+  }
+}
+
+export function createTelemetrySource(
+  config: TelemetrySourceConfig,
+  handlers: TelemetrySourceHandlers,
+  streamOptions: Partial<TelemetryConnectionOptions> = {},
+): TelemetryConnection {
+  switch (config.kind) {
+    case "simulator":
+      return createSimulatorSource({ ...handlers, ...config });
+    case "replay":
+      return createReplaySource({
+        ...handlers,
+        recording: config.url,
+        speed: config.speed,
+      });
+    default:
+      return createTelemetryConnection({
+        ...streamOptions,
+        ...handlers,
+        url: config.url,
+      });
+  }
+}
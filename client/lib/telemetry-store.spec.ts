@@ -0,0 +1,233 @@
+import { describe, expect, it, vi } from "vitest";
+import type { TelemetryFrame } from "@shared/api";
+import type { ActiveAlert } from "./alert-rules";
+import {
+  createInitialTelemetryState,
+  createTelemetryStore,
+  seedChartFrames,
+  selectFieldState,
+  telemetryReducer,
+  type TelemetryAction,
+  type TelemetryState,
+} from "./telemetry-store";
+
+const sampling = { intervalMs: 3000, maxEntries: 3 };
+
+const alert = (ruleId: string, since = 0): ActiveAlert => ({
+  ruleId,
+  name: ruleId,
+  severity: "warning",
+  target: "speed",
+  since,
+});
+
+const reduce = (
+  actions: TelemetryAction[],
+  state = createInitialTelemetryState(),
+) => actions.reduce(telemetryReducer, state);
+
+const frameAt = (
+  receivedAt: number,
+  frame: TelemetryFrame = { rpm: 1000, speed: 16 },
+  alerts: ActiveAlert[] = [],
+): TelemetryAction => ({ type: "frame", frame, receivedAt, alerts, sampling });
+
+describe("telemetryReducer", () => {
+  it("should record frames as readings", () => {
+    const state = reduce([frameAt(1000)]);
+
+    expect(state.loading).toBe(false);
+    expect(state.lastUpdate).toBe(1000);
+    expect(state.frameCount).toBe(1);
+    expect(selectFieldState(state, "speed", 5000)).toEqual({
+      value: 16,
+      freshness: "fresh",
+      ageMs: 0,
+    });
+  });
+
+  it("should age readings on ticks", () => {
+    const state = reduce([frameAt(1000), { type: "tick", now: 7000 }]);
+
+    expect(selectFieldState(state, "speed", 5000)).toEqual({
+      value: 16,
+      freshness: "stale",
+      ageMs: 6000,
+    });
+  });
+
+  it("should sample history at the configured interval", () => {
+    const state = reduce([
+      frameAt(3000),
+      frameAt(4000),
+      frameAt(6000),
+      frameAt(9000),
+      frameAt(12000),
+    ]);
+
+    expect(state.history.map((entry) => entry.timestamp)).toEqual([
+      6000, 9000, 12000,
+    ]);
+  });
+
+  it("should not keep frames without readings in the history", () => {
+    const state = reduce([
+      frameAt(3000, { rpm: null, speed: null }),
+      frameAt(4000),
+    ]);
+
+    expect(state.history.map((entry) => entry.timestamp)).toEqual([4000]);
+    expect(selectFieldState(state, "rpm", 5000).value).toBe(1000);
+  });
+
+  it("should keep the latest value of each extra sensor", () => {
+    const state = reduce([
+      frameAt(1000, { rpm: 1000, extra: { oil: "ok", tire: 2.4 } }),
+      frameAt(2000, { rpm: 1000, extra: { oil: "low" } }),
+    ]);
+
+    expect(state.extras).toEqual({
+      oil: { value: "low", receivedAt: 2000 },
+      tire: { value: 2.4, receivedAt: 1000 },
+    });
+  });
+
+  it("should keep unchanged alerts by identity", () => {
+    const first = reduce([frameAt(1000, undefined, [alert("speed", 500)])]);
+    const second = telemetryReducer(
+      first,
+      frameAt(1500, undefined, [alert("speed", 500)]),
+    );
+    const third = telemetryReducer(
+      second,
+      frameAt(2000, undefined, [alert("speed", 500), alert("rpm", 2000)]),
+    );
+
+    expect(second.alerts).toBe(first.alerts);
+    expect(third.alerts).not.toBe(second.alerts);
+    expect(third.alerts).toHaveLength(2);
+  });
+
+  it("should clear alerts while showing fallback values", () => {
+    const state = reduce([
+      frameAt(1000, undefined, [alert("speed")]),
+      { type: "fallback", frame: { rpm: 0 }, receivedAt: 2000 },
+    ]);
+
+    expect(state.usingFallback).toBe(true);
+    expect(state.alerts).toEqual([]);
+    expect(state.lastUpdate).toBe(1000);
+    expect(state.history).toHaveLength(1);
+
+    const recovered = telemetryReducer(state, frameAt(2500));
+    expect(recovered.usingFallback).toBe(false);
+  });
+
+  it("should stop loading when the connection fails", () => {
+    const status = (state: "connecting" | "backoff"): TelemetryAction => ({
+      type: "status",
+      status: {
+        state,
+        retryCount: 0,
+        reconnectCount: 0,
+        nextRetryAt: null,
+        lastEventId: null,
+        lastMessageAt: null,
+        disconnectedSince: null,
+      },
+    });
+
+    expect(reduce([status("connecting")]).loading).toBe(true);
+    expect(reduce([status("backoff")]).loading).toBe(false);
+  });
+
+  it("should restore saved readings only before live data", () => {
+    const saved = [
+      { timestamp: 100, frame: { rpm: 500, speed: 8 } },
+      { timestamp: 200, frame: { eyeDrowsy: true } },
+    ];
+    const restored = reduce([{ type: "restore", frames: saved }]);
+
+    expect(restored.loading).toBe(false);
+    expect(restored.lastUpdate).toBe(200);
+    expect(selectFieldState(restored, "rpm", 5000).value).toBe(500);
+    expect(selectFieldState(restored, "eyeDrowsy", 5000).value).toBe(true);
+
+    const live = reduce([frameAt(1000)]);
+    expect(telemetryReducer(live, { type: "restore", frames: saved })).toBe(
+      live,
+    );
+  });
+
+  it("should count rejected values per field", () => {
+    const error = (field: "rpm" | "speed") => ({
+      field,
+      message: "bad",
+      value: "x",
+    });
+    const state = reduce([
+      { type: "rejected", errors: [error("rpm"), error("speed")] },
+      { type: "rejected", errors: [error("rpm")] },
+      { type: "rejected", errors: [] },
+    ]);
+
+    expect(state.quality).toEqual({
+      malformedFrames: 2,
+      fieldErrors: { rpm: 2, speed: 1 },
+      lastError: error("rpm"),
+    });
+  });
+});
+
+describe("createTelemetryStore", () => {
+  it("should notify subscribers of changes only", () => {
+    const store = createTelemetryStore(createInitialTelemetryState());
+    const listener = vi.fn();
+    const unsubscribe = store.subscribe(listener);
+
+    store.dispatch(frameAt(1000));
+    store.dispatch({ type: "rejected", errors: [] });
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(store.getState().frameCount).toBe(1);
+
+    unsubscribe();
+    store.dispatch(frameAt(2000));
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it("should leave untouched slices unchanged", () => {
+    const store = createTelemetryStore(createInitialTelemetryState());
+    store.dispatch(frameAt(1000));
+    const before: TelemetryState = store.getState();
+    store.dispatch({ type: "tick", now: 2000 });
+
+    expect(store.getState().readings).toBe(before.readings);
+    expect(store.getState().history).toBe(before.history);
+    expect(store.getState().quality).toBe(before.quality);
+  });
+});
+
+describe("seedChartFrames", () => {
+  const entry = (timestamp: number, vehicleId?: string) => ({
+    timestamp,
+    frame: { speed: 50, ...(vehicleId && { vehicleId }) },
+  });
+  const isTruck = ({ frame }: { frame: TelemetryFrame }) =>
+    frame.vehicleId === "truck-1";
+
+  it("should seed only the vehicle's own saved frames before live data", () => {
+    const stored = [
+      entry(1000, "truck-1"),
+      entry(1500, "bus-9"),
+      entry(2000),
+      entry(2500, "truck-1"),
+      entry(3000, "truck-1"),
+    ];
+    const live = [entry(3000, "truck-1"), entry(4000, "truck-1")];
+
+    expect(
+      seedChartFrames(stored, live, isTruck, 10).map((e) => e.timestamp),
+    ).toEqual([1000, 2500, 3000, 4000]);
+    expect(seedChartFrames(stored, live, isTruck, 2)).toEqual(live);
+  });
+});
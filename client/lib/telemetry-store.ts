@@ -0,0 +1,295 @@
+import {
+  TELEMETRY_FIELDS,
+  type TelemetryField,
+  type TelemetryFieldError,
+  type TelemetryFrame,
+} from "@shared/api";
+import type { ActiveAlert } from "./alert-rules";
+import {
+  getFieldState,
+  recordReadings,
+  type FieldReading,
+  type FieldReadings,
+  type FieldState,
+} from "./freshness";
+import type { Incident } from "./incidents";
+import type { SafetyScore } from "./safety-score";
+import type { ConnectionStatus } from "./telemetry-connection";
+import type { StoredFrame } from "./trip-storage";
+
+export interface HistoricalEntry {
+  timestamp: number;
+  data: TelemetryFrame;
+  /** Alerts active when the entry was recorded */
+  alerts: ActiveAlert[];
+}
+
+export interface DataQuality {
+  malformedFrames: number;
+  fieldErrors: Record<string, number>;
+  lastError: TelemetryFieldError | null;
+}
+
+/**
+ * Everything the dashboard shows about the live session. Views subscribe to
+ * the slices they render, so a frame only re-renders what it changed.
+ */
+export interface TelemetryState {
+  connection: ConnectionStatus | null;
+  /** Nothing received or restored yet, and still trying */
+  loading: boolean;
+  /** Placeholder values are shown instead of readings */
+  usingFallback: boolean;
+  /** Receive time of the last real frame */
+  lastUpdate: number | null;
+  /** Real frames received this session */
+  frameCount: number;
+  /** Last value and receive time of every field; missing fields keep aging */
+  readings: FieldReadings;
+  /** Fields the dashboard has no metric for, by name */
+  extras: Record<string, FieldReading>;
+  /** Clock the readings are aged against */
+  now: number;
+  alerts: ActiveAlert[];
+  history: HistoricalEntry[];
+  lastHistoryAt: number;
+  quality: DataQuality;
+  score: SafetyScore | null;
+  incidents: Incident[];
+  chartFrames: StoredFrame[];
+}
+
+/** How the live history list is thinned out */
+export interface HistorySampling {
+  intervalMs: number;
+  maxEntries: number;
+}
+
+export type TelemetryAction =
+  | { type: "status"; status: ConnectionStatus }
+  /** A real frame with the alerts the rules raised for it */
+  | {
+      type: "frame";
+      frame: TelemetryFrame;
+      receivedAt: number;
+      alerts: ActiveAlert[];
+      sampling: HistorySampling;
+    }
+  /** Placeholder values while the server is not responding */
+  | { type: "fallback"; frame: TelemetryFrame; receivedAt: number }
+  /** Saved frames of an earlier session, oldest first */
+  | { type: "restore"; frames: StoredFrame[] }
+  | { type: "rejected"; errors: TelemetryFieldError[] }
+  | { type: "tick"; now: number }
+  | { type: "session"; score: SafetyScore | null; incidents: Incident[] }
+  | { type: "charts"; frames: StoredFrame[] };
+
+export const createInitialTelemetryState = (now = 0): TelemetryState => ({
+  connection: null,
+  loading: true,
+  usingFallback: false,
+  lastUpdate: null,
+  frameCount: 0,
+  readings: {},
+  extras: {},
+  now,
+  alerts: [],
+  history: [],
+  lastHistoryAt: -Infinity,
+  quality: { malformedFrames: 0, fieldErrors: {}, lastError: null },
+  score: null,
+  incidents: [],
+  chartFrames: [],
+});
+
+/** A frame with at least one known metric value; others are not worth keeping */
+export const hasReadings = (frame: TelemetryFrame) =>
+  TELEMETRY_FIELDS.some((field) => frame[field] != null);
+
+/**
+ * Charts after a reload: the vehicle's saved frames from before the first
+ * live one, then the live ones, keeping the newest `max`. Other vehicles'
+ * saved frames are left out.
+ */
+export const seedChartFrames = (
+  stored: StoredFrame[],
+  live: StoredFrame[],
+  isOwnFrame: (entry: StoredFrame) => boolean,
+  max: number,
+): StoredFrame[] => {
+  const liveFrom = live[0]?.timestamp ?? Infinity;
+  return [
+    ...stored.filter(
+      (entry) => entry.timestamp < liveFrom && isOwnFrame(entry),
+    ),
+    ...live,
+  ].slice(-max);
+};
+
+const recordExtras = (
+  extras: Record<string, FieldReading>,
+  frame: TelemetryFrame,
+  now: number,
+) => {
+  if (!frame.extra) return extras;
+  const next = { ...extras };
+  Object.entries(frame.extra).forEach(([name, value]) => {
+    next[name] = { value, receivedAt: now };
+  });
+  return next;
+};
+
+const sameAlerts = (a: ActiveAlert[], b: ActiveAlert[]) =>
+  a.length === b.length &&
+  a.every(
+    (alert, i) =>
+      alert.ruleId === b[i].ruleId &&
+      alert.severity === b[i].severity &&
+      alert.since === b[i].since,
+  );
+
+// Unchanged alerts keep their identity so their subscribers do not re-render
+const withAlerts = (state: TelemetryState, alerts: ActiveAlert[]) =>
+  sameAlerts(state.alerts, alerts) ? state.alerts : alerts;
+
+export function telemetryReducer(
+  state: TelemetryState,
+  action: TelemetryAction,
+): TelemetryState {
+  switch (action.type) {
+    case "status": {
+      const disconnected =
+        action.status.state === "backoff" || action.status.state === "offline";
+      return {
+        ...state,
+        connection: action.status,
+        loading: disconnected ? false : state.loading,
+      };
+    }
+    case "frame": {
+      const { frame, receivedAt, alerts, sampling } = action;
+      const next: TelemetryState = {
+        ...state,
+        loading: false,
+        usingFallback: false,
+        lastUpdate: receivedAt,
+        frameCount: state.frameCount + 1,
+        readings: recordReadings(state.readings, frame, receivedAt),
+        extras: recordExtras(state.extras, frame, receivedAt),
+        now: receivedAt,
+        alerts: withAlerts(state, alerts),
+      };
+      if (
+        hasReadings(frame) &&
+        receivedAt - state.lastHistoryAt >= sampling.intervalMs
+      ) {
+        next.history = [
+          ...state.history,
+          { timestamp: receivedAt, data: frame, alerts: next.alerts },
+        ].slice(-sampling.maxEntries);
+        next.lastHistoryAt = receivedAt;
+      }
+      return next;
+    }
+    case "fallback":
+      // Placeholders are not real readings, so they must not raise or keep alerts
+      return {
+        ...state,
+        loading: false,
+        usingFallback: true,
+        readings: recordReadings(
+          state.readings,
+          action.frame,
+          action.receivedAt,
+        ),
+        now: action.receivedAt,
+        alerts: withAlerts(state, []),
+      };
+    case "restore": {
+      // Live readings are newer than anything saved
+      if (
+        action.frames.length === 0 ||
+        Object.keys(state.readings).length > 0
+      ) {
+        return state;
+      }
+      return {
+        ...state,
+        loading: false,
+        lastUpdate: action.frames[action.frames.length - 1].timestamp,
+        readings: action.frames.reduce(
+          (acc, entry) => recordReadings(acc, entry.frame, entry.timestamp),
+          state.readings,
+        ),
+        extras: action.frames.reduce(
+          (acc, entry) => recordExtras(acc, entry.frame, entry.timestamp),
+          state.extras,
+        ),
+      };
+    }
+    case "rejected": {
+      if (action.errors.length === 0) return state;
+      const fieldErrors = { ...state.quality.fieldErrors };
+      action.errors.forEach(({ field }) => {
+        fieldErrors[field] = (fieldErrors[field] ?? 0) + 1;
+      });
+      return {
+        ...state,
+        quality: {
+          malformedFrames: state.quality.malformedFrames + 1,
+          fieldErrors,
+          lastError: action.errors[action.errors.length - 1],
+        },
+      };
+    }
+    case "tick":
+      return { ...state, now: action.now };
+    case "session":
+      return { ...state, score: action.score, incidents: action.incidents };
+    case "charts":
+      return { ...state, chartFrames: action.frames };
+  }
+}
+
+/**
+ * A minimal external store for `useSyncExternalStore`. Listeners are only
+ * called when an action changed the state.
+ */
+export function createTelemetryStore(
+  initialState: TelemetryState = createInitialTelemetryState(Date.now()),
+) {
+  let state = initialState;
+  const listeners = new Set<() => void>();
+
+  return {
+    getState: () => state,
+    dispatch: (action: TelemetryAction) => {
+      const next = telemetryReducer(state, action);
+      if (next === state) return;
+      state = next;
+      listeners.forEach((listener) => listener());
+    },
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+export type TelemetryStore = ReturnType<typeof createTelemetryStore>;
+
+/** What a card needs to render one field at a point in time */
+export interface TelemetrySnapshot {
+  readings: FieldReadings;
+  now: number;
+  alerts: ActiveAlert[];
+}
+
+export const selectFieldState = <T>(
+  snapshot: TelemetrySnapshot,
+  field: TelemetryField,
+  staleAfterMs: number,
+): FieldState<T> =>
+  getFieldState<T>(snapshot.readings, field, snapshot.now, staleAfterMs);
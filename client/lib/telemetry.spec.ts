@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_CALIBRATION } from "./calibration";
+import { rpmToKmh, withSpeed } from "./telemetry";
+
+describe("withSpeed", () => {
+  it("should derive the speed from rpm when the device sent none", () => {
+    expect(withSpeed({ rpm: 3000 })).toEqual({
+      rpm: 3000,
+      speed: rpmToKmh(3000, DEFAULT_CALIBRATION),
+    });
+    expect(withSpeed({ rpm: null })).toEqual({ rpm: null, speed: null });
+  });
+
+  it("should keep a speed the device sent", () => {
+    expect(withSpeed({ rpm: 3000, speed: 72 })).toEqual({
+      rpm: 3000,
+      speed: 72,
+    });
+    expect(withSpeed({ rpm: 3000, speed: null })).toEqual({
+      rpm: 3000,
+      speed: null,
+    });
+  });
+
+  it("should leave frames without speed or rpm alone", () => {
+    const frame = { temperature: 20 };
+    expect(withSpeed(frame)).toBe(frame);
+  });
+});
@@ -0,0 +1,51 @@
+import type { TelemetryFrame } from "@shared/api";
+import {
+  calibratedRpm,
+  calibratedSpeed,
+  DEFAULT_CALIBRATION,
+  type CalibrationProfile,
+} from "./calibration";
+
+// Speeds are kept in whole km/h internally; see `units.ts` for display
+export const rpmToKmh = (
+  rpm: number | null,
+  calibration: CalibrationProfile = DEFAULT_CALIBRATION,
+): number | null => {
+  if (rpm === null || rpm === undefined) return null;
+  return Math.round(calibratedSpeed(rpm, calibration));
+};
+
+/**
+ * The frame with a speed: as the device sent it, or derived from rpm when it
+ * sent none. A derived speed is only as fresh as the rpm reading.
+ */
+export const withSpeed = (
+  frame: TelemetryFrame,
+  calibration: CalibrationProfile = DEFAULT_CALIBRATION,
+): TelemetryFrame =>
+  frame.speed !== undefined || frame.rpm === undefined
+    ? frame
+    : { ...frame, speed: rpmToKmh(frame.rpm, calibration) };
+
+/** The frame's speed in km/h, from rpm only when the device sent none */
+export const frameSpeed = (
+  frame: TelemetryFrame,
+  calibration: CalibrationProfile = DEFAULT_CALIBRATION,
+): number | null => withSpeed(frame, calibration).speed ?? null;
+
+export const kmhToRpm = (
+  kmh: number,
+  calibration: CalibrationProfile = DEFAULT_CALIBRATION,
+): number => Math.round(calibratedRpm(kmh, calibration));
+
+export type StatusLevel = "safe" | "warning" | "danger";
+
+export const SPEED_WARNING_KMH = 80;
+export const SPEED_DANGER_KMH = 120;
+
+export const getSpeedStatus = (speed: number | null): StatusLevel => {
+  if (speed === null) return "safe";
+  if (speed > SPEED_DANGER_KMH) return "danger";
+  if (speed > SPEED_WARNING_KMH) return "warning";
+  return "safe";
+};
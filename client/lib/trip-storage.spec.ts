@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import { createTripSegmenter, importedTripId } from "./trip-storage";
+
+const OPTIONS = { gapMs: 60_000, idleMs: 30_000 };
+
+describe("createTripSegmenter", () => {
+  it("should not start a trip while the vehicle is stationary", () => {
+    const segmenter = createTripSegmenter(OPTIONS);
+    expect(segmenter.assign(0, 0)).toBeNull();
+    expect(segmenter.assign(1000, null)).toBeNull();
+    expect(segmenter.assign(2000, 40)).toBe("trip-2000");
+  });
+
+  it("should keep short stops within the same trip", () => {
+    const segmenter = createTripSegmenter(OPTIONS);
+    segmenter.assign(0, 50);
+    expect(segmenter.assign(20_000, 0)).toBe("trip-0");
+    expect(segmenter.assign(25_000, 30)).toBe("trip-0");
+  });
+
+  it("should end the trip after standing still too long", () => {
+    const segmenter = createTripSegmenter(OPTIONS);
+    segmenter.assign(0, 50);
+    segmenter.assign(10_000, 0);
+    expect(segmenter.assign(31_000, 0)).toBeNull();
+    expect(segmenter.assign(40_000, 20)).toBe("trip-40000");
+  });
+
+  it("should split trips on a gap in received data", () => {
+    const segmenter = createTripSegmenter(OPTIONS);
+    segmenter.assign(0, 50);
+    expect(segmenter.assign(61_001, 50)).toBe("trip-61001");
+  });
+
+  it("should start a new trip after an explicit end", () => {
+    const segmenter = createTripSegmenter(OPTIONS);
+    segmenter.assign(0, 50);
+    segmenter.endTrip();
+    expect(segmenter.activeTripId()).toBeNull();
+    expect(segmenter.assign(1000, 50)).toBe("trip-1000");
+  });
+
+  it("should keep every vehicle's trip apart", () => {
+    const segmenter = createTripSegmenter(OPTIONS);
+    expect(segmenter.assign(0, 50, "truck-1")).toBe("trip-truck-1-0");
+    expect(segmenter.assign(1000, 0, "bus-9")).toBeNull();
+    expect(segmenter.assign(2000, 30, "bus-9")).toBe("trip-bus-9-2000");
+    // The bus standing still does not end the truck's trip
+    segmenter.assign(40_000, 0, "bus-9");
+    expect(segmenter.assign(45_000, 60, "truck-1")).toBe("trip-truck-1-0");
+    expect(segmenter.assign(46_000, 0, "bus-9")).toBeNull();
+
+    segmenter.endTrip("truck-1");
+    expect(segmenter.activeTripId("truck-1")).toBeNull();
+    expect(segmenter.assign(47_000, 20, "bus-9")).toBe("trip-bus-9-47000");
+    segmenter.endTrip();
+    expect(segmenter.activeTripId("bus-9")).toBeNull();
+  });
+
+  it("should resume trips per vehicle", () => {
+    const segmenter = createTripSegmenter(OPTIONS, [
+      {
+        vehicleId: "truck-1",
+        tripId: "trip-truck-1-0",
+        lastTimestamp: 5000,
+        lastMovingAt: 5000,
+      },
+    ]);
+    expect(segmenter.assign(6000, 40, "truck-1")).toBe("trip-truck-1-0");
+    expect(segmenter.activeTripId()).toBeNull();
+  });
+});
+
+describe("importedTripId", () => {
+  it("should give files imported in the same millisecond their own trips", () => {
+    const ids = [importedTripId(5000), importedTripId(5000)];
+
+    expect(ids[0]).not.toBe(ids[1]);
+    ids.forEach((id) => expect(id).toMatch(/^import-5000-/));
+  });
+});
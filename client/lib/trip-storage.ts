@@ -0,0 +1,381 @@
+import {
+  DEFAULT_VEHICLE_ID,
+  getVehicleId,
+  type TelemetryFrame,
+} from "@shared/api";
+
+export interface StoredFrame {
+  id?: number;
+  /** Absent for frames recorded while no trip was in progress */
+  tripId?: string;
+  timestamp: number;
+  /** Validated frame including the derived `speed` */
+  frame: TelemetryFrame;
+}
+
+export interface Trip {
+  id: string;
+  /** Absent on trips recorded before trips were kept per vehicle */
+  vehicleId?: string;
+  startedAt: number;
+  endedAt: number;
+  frameCount: number;
+  /** Set for trips loaded from a file; retention counts from this time */
+  importedAt?: number;
+  /** File name of an imported trip */
+  name?: string;
+}
+
+const IMPORTED_TRIP_PREFIX = "import-";
+
+export const isImportedTrip = (trip: Trip) => trip.importedAt !== undefined;
+
+const isImportedFrame = (frame: StoredFrame) =>
+  frame.tripId?.startsWith(IMPORTED_TRIP_PREFIX) ?? false;
+
+/**
+ * Id for a trip imported at `importedAt`. Files imported together share the
+ * millisecond, so a random suffix keeps one from overwriting another;
+ * `crypto.randomUUID()` is missing outside secure contexts (plain http).
+ */
+export const importedTripId = (importedAt: number) =>
+  `${IMPORTED_TRIP_PREFIX}${importedAt}-${Math.random().toString(36).slice(2, 10)}`;
+
+export interface TripSegmentation {
+  /** A gap in received frames longer than this ends the trip */
+  gapMs: number;
+  /** Standing still (speed 0) for longer than this ends the trip */
+  idleMs: number;
+}
+
+export interface TripRetention {
+  maxTrips: number;
+  maxAgeMs: number;
+}
+
+export const DEFAULT_SEGMENTATION: TripSegmentation = {
+  gapMs: 5 * 60 * 1000,
+  idleMs: 2 * 60 * 1000,
+};
+
+export const DEFAULT_RETENTION: TripRetention = {
+  maxTrips: 100,
+  maxAgeMs: 30 * 24 * 60 * 60 * 1000,
+};
+
+interface ActiveSegment {
+  vehicleId: string;
+  tripId: string;
+  lastTimestamp: number;
+  lastMovingAt: number;
+}
+
+const tripIdFor = (vehicleId: string, timestamp: number) =>
+  vehicleId === DEFAULT_VEHICLE_ID
+    ? `trip-${timestamp}`
+    : `trip-${vehicleId}-${timestamp}`;
+
+/**
+ * Decides which trip a frame belongs to, separately for every vehicle. A
+ * trip starts with the vehicle's first moving frame and ends after a gap in
+ * its data, a long stop or an explicit `endTrip()` (e.g. when the
+ * connection drops).
+ */
+export function createTripSegmenter(
+  { gapMs, idleMs }: TripSegmentation = DEFAULT_SEGMENTATION,
+  resume: ActiveSegment[] = [],
+) {
+  const current = new Map(
+    resume.map((segment) => [segment.vehicleId, segment]),
+  );
+
+  return {
+    assign: (
+      timestamp: number,
+      speed: number | null,
+      vehicleId = DEFAULT_VEHICLE_ID,
+    ): string | null => {
+      let segment = current.get(vehicleId);
+      if (
+        segment &&
+        (timestamp - segment.lastTimestamp > gapMs ||
+          (speed === 0 && timestamp - segment.lastMovingAt > idleMs))
+      ) {
+        current.delete(vehicleId);
+        segment = undefined;
+      }
+
+      if (!segment) {
+        if (!speed) return null;
+        segment = {
+          vehicleId,
+          tripId: tripIdFor(vehicleId, timestamp),
+          lastTimestamp: timestamp,
+          lastMovingAt: timestamp,
+        };
+        current.set(vehicleId, segment);
+        return segment.tripId;
+      }
+
+      segment.lastTimestamp = timestamp;
+      if (speed) segment.lastMovingAt = timestamp;
+      return segment.tripId;
+    },
+    /** Ends one vehicle's trip, or every vehicle's without an id */
+    endTrip: (vehicleId?: string) => {
+      if (vehicleId === undefined) current.clear();
+      else current.delete(vehicleId);
+    },
+    activeTripId: (vehicleId = DEFAULT_VEHICLE_ID) =>
+      current.get(vehicleId)?.tripId ?? null,
+  };
+}
+
+const DB_NAME = "driving-safety-dashboard";
+const DB_VERSION = 1;
+const FRAMES = "frames";
+const TRIPS = "trips";
+// Retention is re-applied after this many recorded frames
+const PRUNE_EVERY = 1000;
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const completion = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      const frames = db.createObjectStore(FRAMES, {
+        keyPath: "id",
+        autoIncrement: true,
+      });
+      frames.createIndex("timestamp", "timestamp");
+      frames.createIndex("tripId", "tripId");
+      const trips = db.createObjectStore(TRIPS, { keyPath: "id" });
+      trips.createIndex("startedAt", "startedAt");
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Delete every record reachable through a cursor request, except the kept ones
+const deleteAll = (
+  request: IDBRequest<IDBCursorWithValue | null>,
+  keep: (value: StoredFrame) => boolean = () => false,
+) =>
+  new Promise<void>((resolve, reject) => {
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return resolve();
+      if (!keep(cursor.value)) cursor.delete();
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+export interface TripStorage {
+  recordFrame: (timestamp: number, frame: TelemetryFrame) => Promise<void>;
+  /** Close every active trip, e.g. because the connection dropped */
+  endTrip: () => void;
+  activeTripId: (vehicleId?: string) => string | null;
+  listTrips: () => Promise<Trip[]>;
+  getTrip: (id: string) => Promise<Trip | undefined>;
+  getTripFrames: (id: string) => Promise<StoredFrame[]>;
+  getFrames: (range: { from: number; to: number }) => Promise<StoredFrame[]>;
+  /** Store frames from a file as a separate trip, kept out of live history */
+  importTrip: (
+    frames: { timestamp: number; frame: TelemetryFrame }[],
+    name: string,
+  ) => Promise<Trip>;
+  prune: () => Promise<void>;
+}
+
+export async function openTripStorage({
+  segmentation = DEFAULT_SEGMENTATION,
+  retention = DEFAULT_RETENTION,
+}: {
+  segmentation?: TripSegmentation;
+  retention?: TripRetention;
+} = {}): Promise<TripStorage> {
+  const db = await openDatabase();
+
+  const listTrips = async () => {
+    const trips = await promisify<Trip[]>(
+      db.transaction(TRIPS).objectStore(TRIPS).index("startedAt").getAll(),
+    );
+    return trips.reverse();
+  };
+
+  // Continue each vehicle's most recent trip if the page was only briefly
+  // reloaded; trips are listed newest first
+  const activeTrips = new Map<string, Trip>();
+  (await listTrips()).forEach((trip) => {
+    const vehicleId = trip.vehicleId ?? DEFAULT_VEHICLE_ID;
+    if (isImportedTrip(trip) || activeTrips.has(vehicleId)) return;
+    if (Date.now() - trip.endedAt <= segmentation.gapMs) {
+      activeTrips.set(vehicleId, trip);
+    }
+  });
+  const segmenter = createTripSegmenter(
+    segmentation,
+    [...activeTrips].map(([vehicleId, trip]) => ({
+      vehicleId,
+      tripId: trip.id,
+      lastTimestamp: trip.endedAt,
+      lastMovingAt: trip.endedAt,
+    })),
+  );
+  let framesSincePrune = 0;
+
+  const prune = async () => {
+    const cutoff = Date.now() - retention.maxAgeMs;
+    const trips = await listTrips();
+    const expired = trips.filter(
+      (trip, index) =>
+        index >= retention.maxTrips ||
+        (trip.importedAt ?? trip.endedAt) < cutoff,
+    );
+
+    const transaction = db.transaction([FRAMES, TRIPS], "readwrite");
+    const frames = transaction.objectStore(FRAMES);
+    const pending = [
+      // Imported frames are usually old; they expire with their trip instead
+      deleteAll(
+        frames.index("timestamp").openCursor(IDBKeyRange.upperBound(cutoff)),
+        isImportedFrame,
+      ),
+      ...expired.map((trip) => {
+        transaction.objectStore(TRIPS).delete(trip.id);
+        return deleteAll(
+          frames.index("tripId").openCursor(IDBKeyRange.only(trip.id)),
+        );
+      }),
+    ];
+    await Promise.all([...pending, completion(transaction)]);
+  };
+
+  await prune();
+
+  return {
+    recordFrame: async (timestamp, frame) => {
+      const vehicleId = getVehicleId(frame);
+      const tripId = segmenter.assign(
+        timestamp,
+        frame.speed ?? null,
+        vehicleId,
+      );
+      let activeTrip = activeTrips.get(vehicleId) ?? null;
+      if (tripId && activeTrip?.id !== tripId) {
+        activeTrip = {
+          id: tripId,
+          vehicleId,
+          startedAt: timestamp,
+          endedAt: timestamp,
+          frameCount: 0,
+        };
+      } else if (!tripId) {
+        activeTrip = null;
+        activeTrips.delete(vehicleId);
+      }
+
+      const transaction = db.transaction([FRAMES, TRIPS], "readwrite");
+      const record: StoredFrame = tripId
+        ? { tripId, timestamp, frame }
+        : { timestamp, frame };
+      transaction.objectStore(FRAMES).add(record);
+      if (activeTrip) {
+        activeTrip = {
+          ...activeTrip,
+          endedAt: timestamp,
+          frameCount: activeTrip.frameCount + 1,
+        };
+        activeTrips.set(vehicleId, activeTrip);
+        transaction.objectStore(TRIPS).put(activeTrip);
+      }
+      await completion(transaction);
+
+      if (++framesSincePrune >= PRUNE_EVERY) {
+        framesSincePrune = 0;
+        await prune();
+      }
+    },
+    endTrip: () => {
+      segmenter.endTrip();
+      activeTrips.clear();
+    },
+    activeTripId: segmenter.activeTripId,
+    listTrips,
+    getTrip: (id) =>
+      promisify<Trip | undefined>(
+        db.transaction(TRIPS).objectStore(TRIPS).get(id),
+      ),
+    getTripFrames: (id) =>
+      promisify<StoredFrame[]>(
+        db
+          .transaction(FRAMES)
+          .objectStore(FRAMES)
+          .index("tripId")
+          .getAll(IDBKeyRange.only(id)),
+      ),
+    getFrames: async ({ from, to }) => {
+      const frames = await promisify<StoredFrame[]>(
+        db
+          .transaction(FRAMES)
+          .objectStore(FRAMES)
+          .index("timestamp")
+          .getAll(IDBKeyRange.bound(from, to)),
+      );
+      return frames.filter((frame) => !isImportedFrame(frame));
+    },
+    importTrip: async (entries, name) => {
+      if (entries.length === 0) throw new Error("The file contains no frames");
+      const sorted = [...entries].sort((a, b) => a.timestamp - b.timestamp);
+      const importedAt = Date.now();
+      const trip: Trip = {
+        id: importedTripId(importedAt),
+        startedAt: sorted[0].timestamp,
+        endedAt: sorted[sorted.length - 1].timestamp,
+        frameCount: sorted.length,
+        importedAt,
+        name,
+      };
+
+      const transaction = db.transaction([FRAMES, TRIPS], "readwrite");
+      const frames = transaction.objectStore(FRAMES);
+      sorted.forEach(({ timestamp, frame }) =>
+        frames.add({ tripId: trip.id, timestamp, frame }),
+      );
+      transaction.objectStore(TRIPS).put(trip);
+      await completion(transaction);
+      return trip;
+    },
+    prune,
+  };
+}
+
+let storagePromise: Promise<TripStorage> | null = null;
+
+/**
+ * Shared storage instance for the app. Rejects when IndexedDB is unavailable
+ * (private browsing in some browsers), in which case history stays in memory.
+ */
+export function getTripStorage(): Promise<TripStorage> {
+  if (!storagePromise) {
+    storagePromise =
+      typeof indexedDB === "undefined"
+        ? Promise.reject(new Error("IndexedDB is not available"))
+        : openTripStorage();
+  }
+  return storagePromise;
+}
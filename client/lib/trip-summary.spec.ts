@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import { summarizeTrip, formatDuration } from "./trip-summary";
+import { kmhToRpm } from "./telemetry";
+
+const frame = (timestamp: number, kmh: number, flags = {}) => ({
+  timestamp,
+  frame: {
+    rpm: kmhToRpm(kmh),
+    eyeDrowsy: false,
+    steerInactive: false,
+    rolloverDetected: false,
+    ...flags,
+  },
+});
+
+describe("summarizeTrip", () => {
+  it("should derive speed statistics from rpm", () => {
+    const summary = summarizeTrip([
+      frame(0, 40),
+      frame(1000, 80),
+      frame(2000, 60),
+    ]);
+    expect(summary.durationMs).toBe(2000);
+    expect(summary.maxSpeed).toBe(80);
+    expect(summary.averageSpeed).toBe(60);
+  });
+
+  it("should use the speed the device sent", () => {
+    const summary = summarizeTrip([
+      { timestamp: 0, frame: { speed: 130 } },
+      { timestamp: 1000, frame: { speed: 90, rpm: kmhToRpm(40) } },
+    ]);
+    expect(summary.maxSpeed).toBe(130);
+    expect(summary.averageSpeed).toBe(110);
+  });
+
+  it("should count each continuous episode once", () => {
+    const summary = summarizeTrip([
+      frame(0, 50, { eyeDrowsy: true }),
+      frame(1000, 50, { eyeDrowsy: true }),
+      frame(2000, 50),
+      frame(3000, 50, { eyeDrowsy: true, steerInactive: true }),
+      frame(4000, 0, { rolloverDetected: true }),
+    ]);
+    expect(summary.eventCounts).toEqual({
+      drowsy: 2,
+      steerInactive: 1,
+      rollover: 1,
+      harshBraking: 0,
+      harshAcceleration: 0,
+      harshCornering: 0,
+    });
+    expect(summary.events[0]).toEqual({ type: "drowsy", start: 0, end: 2000 });
+    expect(summary.events[summary.events.length - 1]).toMatchObject({
+      type: "rollover",
+      end: 4000,
+    });
+  });
+
+  it("should keep an event open across frames without its field", () => {
+    const summary = summarizeTrip([
+      { timestamp: 0, frame: { eyeDrowsy: true } },
+      { timestamp: 1000, frame: { temperature: 20 } },
+      { timestamp: 2000, frame: { eyeDrowsy: true } },
+      { timestamp: 3000, frame: { eyeDrowsy: false } },
+    ]);
+    expect(summary.events).toEqual([{ type: "drowsy", start: 0, end: 3000 }]);
+  });
+
+  it("should detect harsh driving from accelerations", () => {
+    const summary = summarizeTrip([
+      frame(0, 50, { accelX: 0.1, accelY: 0 }),
+      frame(500, 40, { accelX: -0.6, accelY: 0 }),
+      frame(1000, 30, { accelX: -0.5, accelY: 0.5 }),
+      frame(1500, 30, { accelX: 0, accelY: 0 }),
+    ]);
+    expect(summary.events).toEqual([
+      { type: "harshBraking", start: 500, end: 1500 },
+      { type: "harshCornering", start: 1000, end: 1500 },
+    ]);
+  });
+
+  it("should handle an empty trip", () => {
+    expect(summarizeTrip([]).maxSpeed).toBeNull();
+  });
+});
+
+describe("formatDuration", () => {
+  it("should pick the largest sensible units", () => {
+    expect(formatDuration(42_000)).toBe("42s");
+    expect(formatDuration(125_000)).toBe("2m 5s");
+    expect(formatDuration(3_900_000)).toBe("1h 5m");
+  });
+});
@@ -0,0 +1,150 @@
+import type { TelemetryFrame } from "@shared/api";
+import { DEFAULT_CALIBRATION, type CalibrationProfile } from "./calibration";
+import { isHarshEvent, type HarshEventType } from "./imu";
+import { frameSpeed, type StatusLevel } from "./telemetry";
+import type { StoredFrame } from "./trip-storage";
+
+export type TripEventType =
+  "drowsy" | "steerInactive" | "rollover" | HarshEventType;
+
+export interface TripEvent {
+  type: TripEventType;
+  start: number;
+  /** Timestamp of the first frame where the condition had cleared */
+  end: number;
+}
+
+export interface TripSummary {
+  startedAt: number;
+  endedAt: number;
+  durationMs: number;
+  maxSpeed: number | null;
+  averageSpeed: number | null;
+  eventCounts: Record<TripEventType, number>;
+  events: TripEvent[];
+}
+
+export const TRIP_EVENT_LABELS: Record<TripEventType, string> = {
+  drowsy: "Drowsiness",
+  steerInactive: "Steering inactive",
+  rollover: "Rollover",
+  harshBraking: "Harsh braking",
+  harshAcceleration: "Harsh acceleration",
+  harshCornering: "Harsh cornering",
+};
+
+export const TRIP_EVENT_STATUS: Record<TripEventType, StatusLevel> = {
+  drowsy: "danger",
+  steerInactive: "warning",
+  rollover: "danger",
+  harshBraking: "warning",
+  harshAcceleration: "warning",
+  harshCornering: "warning",
+};
+
+/** Overlay colors on charts and maps */
+export const TRIP_EVENT_COLORS: Record<TripEventType, string> = {
+  drowsy: "#f87171",
+  steerInactive: "#facc15",
+  rollover: "#c084fc",
+  harshBraking: "#fb923c",
+  harshAcceleration: "#22d3ee",
+  harshCornering: "#2dd4bf",
+};
+
+type EventCondition = (frame: TelemetryFrame) => boolean | undefined;
+
+const flagCondition =
+  (field: "eyeDrowsy" | "steerInactive" | "rolloverDetected"): EventCondition =>
+  (frame) =>
+    frame[field] === undefined ? undefined : frame[field] === true;
+
+const harshCondition =
+  (type: HarshEventType): EventCondition =>
+  (frame) =>
+    isHarshEvent(type, frame);
+
+/**
+ * Whether a frame is in each event, `undefined` when it does not carry the
+ * fields the event depends on.
+ */
+export const TRIP_EVENT_CONDITIONS: Record<TripEventType, EventCondition> = {
+  drowsy: flagCondition("eyeDrowsy"),
+  steerInactive: flagCondition("steerInactive"),
+  rollover: flagCondition("rolloverDetected"),
+  harshBraking: harshCondition("harshBraking"),
+  harshAcceleration: harshCondition("harshAcceleration"),
+  harshCornering: harshCondition("harshCornering"),
+};
+
+export const TRIP_EVENT_TYPES = Object.keys(
+  TRIP_EVENT_CONDITIONS,
+) as TripEventType[];
+
+/**
+ * Summarize a trip from its stored frames (ordered by timestamp). Frames
+ * without a speed get one from rpm with `calibration`.
+ */
+export function summarizeTrip(
+  frames: StoredFrame[],
+  calibration: CalibrationProfile = DEFAULT_CALIBRATION,
+): TripSummary {
+  const startedAt = frames[0]?.timestamp ?? 0;
+  const endedAt = frames[frames.length - 1]?.timestamp ?? startedAt;
+  const speeds = frames
+    .map(({ frame }) => frameSpeed(frame, calibration))
+    .filter((speed): speed is number => speed !== null);
+
+  const events: TripEvent[] = [];
+  const open: Partial<Record<TripEventType, number>> = {};
+  frames.forEach(({ timestamp, frame }) => {
+    TRIP_EVENT_TYPES.forEach((type) => {
+      const active = TRIP_EVENT_CONDITIONS[type](frame);
+      // Like the live incident detector, a frame without the fields keeps
+      // the event as it was
+      if (active === undefined) return;
+      if (active && open[type] === undefined) {
+        open[type] = timestamp;
+      } else if (!active && open[type] !== undefined) {
+        events.push({ type, start: open[type], end: timestamp });
+        delete open[type];
+      }
+    });
+  });
+  TRIP_EVENT_TYPES.forEach((type) => {
+    if (open[type] !== undefined) {
+      events.push({ type, start: open[type], end: endedAt });
+    }
+  });
+  events.sort((a, b) => a.start - b.start);
+
+  const eventCounts = Object.fromEntries(
+    TRIP_EVENT_TYPES.map((type) => [type, 0]),
+  ) as Record<TripEventType, number>;
+  events.forEach((event) => eventCounts[event.type]++);
+
+  return {
+    startedAt,
+    endedAt,
+    durationMs: endedAt - startedAt,
+    maxSpeed: speeds.length > 0 ? Math.max(...speeds) : null,
+    averageSpeed:
+      speeds.length > 0
+        ? Math.round(
+            speeds.reduce((sum, speed) => sum + speed, 0) / speeds.length,
+          )
+        : null,
+    eventCounts,
+    events,
+  };
+}
+
+export const formatDuration = (ms: number) => {
+  const totalSeconds = Math.round(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${seconds}s`;
+  return `${seconds}s`;
+};
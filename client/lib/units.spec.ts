@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import { formatSpeed, fromKmh, toKmh } from "./units";
+
+describe("speed units", () => {
+  it("should convert km/h to whole mph", () => {
+    expect(fromKmh(100, "mph")).toBe(62);
+    expect(fromKmh(80, "kmh")).toBe(80);
+    expect(fromKmh(null, "mph")).toBeNull();
+  });
+
+  it("should convert entered mph back to exact km/h", () => {
+    expect(toKmh(50, "mph")).toBeCloseTo(80.4672, 4);
+    expect(fromKmh(toKmh(50, "mph"), "mph")).toBe(50);
+  });
+
+  it("should format with the unit label", () => {
+    expect(formatSpeed(120, "mph")).toBe("75 mph");
+    expect(formatSpeed(null, "kmh")).toBe("N/A");
+  });
+});
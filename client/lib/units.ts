@@ -0,0 +1,38 @@
+export const SPEED_UNITS = ["kmh", "mph"] as const;
+
+export type SpeedUnit = (typeof SPEED_UNITS)[number];
+
+export const SPEED_UNIT_LABELS: Record<SpeedUnit, string> = {
+  kmh: "km/h",
+  mph: "mph",
+};
+
+export const KM_PER_MILE = 1.609344;
+
+/** Display value of a km/h speed, rounded to whole units */
+export const fromKmh = (kmh: number | null, unit: SpeedUnit): number | null => {
+  if (kmh === null || kmh === undefined) return null;
+  return Math.round(unit === "mph" ? kmh / KM_PER_MILE : kmh);
+};
+
+/** km/h for a value entered in `unit`; not rounded so thresholds stay exact */
+export const toKmh = (value: number, unit: SpeedUnit): number =>
+  unit === "mph" ? value * KM_PER_MILE : value;
+
+export const formatSpeed = (kmh: number | null, unit: SpeedUnit) => {
+  const value = fromKmh(kmh, unit);
+  return value === null ? "N/A" : `${value} ${SPEED_UNIT_LABELS[unit]}`;
+};
+
+export const SPEED_UNIT_STORAGE_KEY = "driving-safety-dashboard:speed-unit";
+
+export function loadSpeedUnit(): SpeedUnit {
+  const stored = localStorage.getItem(SPEED_UNIT_STORAGE_KEY);
+  return SPEED_UNITS.includes(stored as SpeedUnit)
+    ? (stored as SpeedUnit)
+    : "kmh";
+}
+
+export function saveSpeedUnit(unit: SpeedUnit) {
+  localStorage.setItem(SPEED_UNIT_STORAGE_KEY, unit);
+}
@@ -0,0 +1,254 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { ChevronRight, Truck } from "lucide-react";
+import PageLayout from "@/components/PageLayout";
+import ConnectionIndicator from "@/components/ConnectionIndicator";
+import { STATUS_COLORS } from "@/components/DataCard";
+import {
+  highestSeverity,
+  isAlertRulesKey,
+  loadAlertRules,
+} from "@/lib/alert-rules";
+import {
+  createFleetTracker,
+  getVehicleConnectionState,
+  sortFleet,
+  type VehicleState,
+} from "@/lib/fleet";
+import {
+  isCalibrationKey,
+  loadCalibration,
+  type CalibrationProfile,
+} from "@/lib/calibration";
+import { formatDuration } from "@/lib/trip-summary";
+import { withSpeed } from "@/lib/telemetry";
+import type { ConnectionState } from "@/lib/telemetry-connection";
+import {
+  createTelemetrySource,
+  getServerUrl,
+  hasServer,
+  resolveTelemetrySource,
+  withAccessToken,
+} from "@/lib/telemetry-source";
+import { getStreamUrl } from "@/lib/app-settings";
+import { authHeaders } from "@/lib/auth";
+import { useAppSettings } from "@/hooks/use-app-settings";
+import { useAuth } from "@/hooks/use-auth";
+import { useFreshnessSettings } from "@/hooks/use-freshness-settings";
+import { fromKmh, SPEED_UNIT_LABELS, type SpeedUnit } from "@/lib/units";
+import { useSpeedUnit } from "@/hooks/use-speed-unit";
+import { cn } from "@/lib/utils";
+import {
+  getVehicleId,
+  parseTelemetryMessage,
+  type TelemetryFrame,
+} from "@shared/api";
+
+// Tiles re-render on this interval so last-seen times and staleness advance
+const REFRESH_INTERVAL = 1000;
+
+const TILE_BORDERS = {
+  warning: "border-yellow-500/70",
+  danger: "border-red-500/70",
+};
+
+const VehicleTile = ({
+  vehicle,
+  now,
+  streamState,
+  speedUnit,
+}: {
+  vehicle: VehicleState;
+  now: number;
+  streamState: ConnectionState;
+  speedUnit: SpeedUnit;
+}) => {
+  const severity = highestSeverity(vehicle.alerts);
+  const speed = vehicle.frame.speed ?? null;
+
+  return (
+    <Link
+      to={`/vehicles/${encodeURIComponent(vehicle.vehicleId)}`}
+      className={cn(
+        "block bg-slate-800/50 border rounded-lg p-4 hover:bg-slate-800 transition-colors",
+        severity ? TILE_BORDERS[severity] : "border-slate-700",
+      )}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <p className="font-semibold flex items-center gap-2 truncate">
+          <Truck className="w-4 h-4 shrink-0" />
+          {vehicle.vehicleId}
+        </p>
+        <ChevronRight className="w-4 h-4 text-slate-500 shrink-0" />
+      </div>
+      <div className="mt-2">
+        <ConnectionIndicator
+          state={getVehicleConnectionState(vehicle.lastSeen, now, streamState)}
+        >
+          {` • seen ${formatDuration(Math.max(0, now - vehicle.lastSeen))} ago`}
+        </ConnectionIndicator>
+      </div>
+      <p className="text-3xl font-bold mt-3">
+        {fromKmh(speed, speedUnit) ?? "N/A"}
+        <span className="text-sm font-normal text-slate-400">
+          {" "}
+          {SPEED_UNIT_LABELS[speedUnit]}
+        </span>
+      </p>
+      <div className="flex flex-wrap gap-1 mt-3 text-xs min-h-6">
+        {vehicle.alerts.length === 0 ? (
+          <span
+            className={cn(
+              "px-2 py-1 rounded border text-slate-900",
+              STATUS_COLORS.safe,
+            )}
+          >
+            No alerts
+          </span>
+        ) : (
+          vehicle.alerts.map((alert) => (
+            <span
+              key={alert.ruleId}
+              className={cn(
+                "px-2 py-1 rounded border text-slate-900",
+                STATUS_COLORS[alert.severity],
+              )}
+            >
+              {alert.name}
+            </span>
+          ))
+        )}
+      </div>
+    </Link>
+  );
+};
+
+export default function Fleet() {
+  const { settings } = useAppSettings();
+  const streamUrl = getStreamUrl(settings);
+  const { token } = useAuth();
+  const source = useMemo(
+    () =>
+      withAccessToken(
+        resolveTelemetrySource(window.location.search, streamUrl),
+        token,
+      ),
+    [streamUrl, token],
+  );
+  const { settings: freshness } = useFreshnessSettings();
+  const trackerRef = useRef(
+    createFleetTracker(loadAlertRules, freshness.staleAfterMs),
+  );
+  const [vehicles, setVehicles] = useState<VehicleState[]>([]);
+  const [streamState, setStreamState] = useState<ConnectionState>("connecting");
+  const [disconnectedSince, setDisconnectedSince] = useState<number | null>(
+    null,
+  );
+  const [now, setNow] = useState(Date.now());
+  const { unit: speedUnit } = useSpeedUnit();
+  // Speeds the devices leave out are derived with each vehicle's calibration
+  const calibrationsRef = useRef(new Map<string, CalibrationProfile>());
+  const calibrated = (frame: TelemetryFrame): TelemetryFrame => {
+    const vehicleId = getVehicleId(frame);
+    let calibration = calibrationsRef.current.get(vehicleId);
+    if (!calibration) {
+      calibration = loadCalibration(vehicleId);
+      calibrationsRef.current.set(vehicleId, calibration);
+    }
+    return withSpeed(frame, calibration);
+  };
+
+  // Vehicles that are currently quiet are only known to the server
+  const snapshot = useQuery({
+    queryKey: ["vehicles", source],
+    enabled: hasServer(source),
+    retry: false,
+    queryFn: async () => {
+      const response = await fetch(getServerUrl(streamUrl, "/api/vehicles"), {
+        headers: authHeaders(token),
+      });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      return (await response.json()) as {
+        receivedAt: number;
+        frame: TelemetryFrame;
+      }[];
+    },
+  });
+
+  useEffect(() => {
+    snapshot.data?.forEach(({ frame, receivedAt }) =>
+      trackerRef.current.seed(calibrated(frame), receivedAt),
+    );
+  }, [snapshot.data]);
+
+  useEffect(() => {
+    const connection = createTelemetrySource(
+      source,
+      {
+        onStatusChange: (status) => {
+          setStreamState(status.state);
+          setDisconnectedSince(status.disconnectedSince);
+        },
+        onMessage: (raw) => {
+          const { frame } = parseTelemetryMessage(raw);
+          if (!frame || Object.keys(frame).length === 0) return;
+          trackerRef.current.ingest(calibrated(frame), Date.now());
+        },
+      },
+      { connectTimeout: settings.connectTimeoutMs },
+    );
+    connection.start();
+    return () => connection.stop();
+  }, [source, settings.connectTimeoutMs]);
+
+  useEffect(() => {
+    const onStorage = (event: StorageEvent) => {
+      if (isAlertRulesKey(event.key)) trackerRef.current.reloadRules();
+      if (isCalibrationKey(event.key)) calibrationsRef.current.clear();
+    };
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, []);
+
+  useEffect(() => {
+    const refresh = () => {
+      const time = Date.now();
+      trackerRef.current.age(time);
+      setNow(time);
+      setVehicles(sortFleet(trackerRef.current.getVehicles()));
+    };
+    refresh();
+    const timer = setInterval(refresh, REFRESH_INTERVAL);
+    return () => clearInterval(timer);
+  }, []);
+
+  return (
+    <PageLayout
+      title="Fleet"
+      subtitle="Every vehicle on the stream, most urgent first"
+      status={
+        <ConnectionIndicator state={streamState} since={disconnectedSince} />
+      }
+    >
+      {vehicles.length === 0 ? (
+        <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-8 text-center text-slate-400">
+          No vehicles have reported yet. Devices identify themselves with a{" "}
+          <code>vehicleId</code> field in each frame.
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
+          {vehicles.map((vehicle) => (
+            <VehicleTile
+              key={vehicle.vehicleId}
+              vehicle={vehicle}
+              now={now}
+              streamState={streamState}
+              speedUnit={speedUnit}
+            />
+          ))}
+        </div>
+      )}
+    </PageLayout>
+  );
+}
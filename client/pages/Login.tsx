@@ -0,0 +1,106 @@
+import { useState } from "react";
+import {
+  Navigate,
+  useLocation,
+  useNavigate,
+  type Location,
+} from "react-router-dom";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { LogIn, Smartphone } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { loginRequestSchema, type LoginRequest } from "@shared/api";
+
+const inputClass =
+  "bg-slate-900 border border-slate-600 rounded px-3 py-2 text-sm text-slate-100";
+
+export default function Login() {
+  const { status, login } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [error, setError] = useState<string | null>(null);
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<LoginRequest>({
+    resolver: zodResolver(loginRequestSchema),
+    defaultValues: { username: "", password: "" },
+  });
+
+  // Where the guard sent the visitor from
+  const from = (location.state as { from?: Location } | null)?.from;
+  const target = from ? `${from.pathname}${from.search}${from.hash}` : "/";
+
+  if (status === "open" || status === "signedIn") {
+    return <Navigate to={target} replace />;
+  }
+
+  const submit = async (credentials: LoginRequest) => {
+    setError(null);
+    try {
+      await login(credentials);
+      navigate(target, { replace: true });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 text-white flex items-center justify-center px-4">
+      <form
+        onSubmit={handleSubmit(submit)}
+        className="w-full max-w-sm bg-slate-800/50 border border-slate-700 rounded-lg p-6 space-y-4"
+      >
+        <div className="flex items-center gap-3 mb-2">
+          <div className="w-10 h-10 bg-gradient-to-br from-blue-400 to-blue-600 rounded-lg flex items-center justify-center">
+            <Smartphone className="w-6 h-6" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold">Sign in</h1>
+            <p className="text-slate-400 text-xs">
+              Vehicle Safety Monitoring System
+            </p>
+          </div>
+        </div>
+        <label className="flex flex-col gap-1 text-sm text-slate-300">
+          Username
+          <input
+            autoComplete="username"
+            autoFocus
+            className={inputClass}
+            {...register("username")}
+          />
+          {errors.username && (
+            <span className="text-xs text-red-300">Enter your username</span>
+          )}
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-slate-300">
+          Password
+          <input
+            type="password"
+            autoComplete="current-password"
+            className={inputClass}
+            {...register("password")}
+          />
+          {errors.password && (
+            <span className="text-xs text-red-300">Enter your password</span>
+          )}
+        </label>
+        {error && (
+          <p role="alert" className="text-sm text-red-300">
+            {error}
+          </p>
+        )}
+        <button
+          type="submit"
+          disabled={isSubmitting || status === "checking"}
+          className="w-full px-3 py-2 rounded bg-blue-600 hover:bg-blue-500 text-white flex items-center justify-center gap-2 disabled:opacity-50"
+        >
+          <LogIn className="w-4 h-4" />
+          {isSubmitting ? "Signing in…" : "Sign in"}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+import { useMemo, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { AlertCircle, ArrowLeft, Printer } from "lucide-react";
+import PageLayout from "@/components/PageLayout";
+import SafetyScoreGauge from "@/components/SafetyScoreGauge";
+import SafetyScoreBreakdown from "@/components/SafetyScoreBreakdown";
+import { useStoredFrames, useTrip } from "@/hooks/use-trip-storage";
+import { useSpeedUnit } from "@/hooks/use-speed-unit";
+import {
+  getScoreStatus,
+  loadScoreOptions,
+  scoreFrames,
+} from "@/lib/safety-score";
+import {
+  formatDuration,
+  summarizeTrip,
+  TRIP_EVENT_LABELS,
+} from "@/lib/trip-summary";
+import { formatSpeed } from "@/lib/units";
+import { getVehicleId } from "@shared/api";
+
+const VERDICTS = {
+  safe: "Driven safely",
+  warning: "Needs attention",
+  danger: "Unsafe driving",
+};
+
+/**
+ * Printable report for one trip (`?trip=<id>`) or a time range of live data
+ * (`?from=<ms>&to=<ms>&vehicleId=<id>`, `to` defaults to when the page was
+ * opened).
+ */
+export default function SafetyReport() {
+  const [params] = useSearchParams();
+  const tripId = params.get("trip");
+  const [generatedAt] = useState(() => Date.now());
+  const range = tripId
+    ? null
+    : {
+        kind: "custom" as const,
+        from: Number(params.get("from") ?? 0),
+        to: Number(params.get("to") ?? generatedAt),
+      };
+
+  const trip = useTrip(tripId);
+  const rangeFrames = useStoredFrames(range);
+  const { unit: speedUnit } = useSpeedUnit();
+
+  const frames = useMemo(() => {
+    if (tripId) return trip.data?.frames ?? [];
+    const vehicleId = params.get("vehicleId");
+    return (rangeFrames.data ?? []).filter(
+      ({ frame }) => !vehicleId || getVehicleId(frame) === vehicleId,
+    );
+  }, [tripId, trip.data, rangeFrames.data, params]);
+
+  const vehicleId =
+    params.get("vehicleId") ??
+    (frames.length > 0 ? getVehicleId(frames[0].frame) : undefined);
+
+  const report = useMemo(() => {
+    if (frames.length === 0) return null;
+    // Scored with the vehicle's current rules and calibration
+    const options = loadScoreOptions(vehicleId);
+    return {
+      score: scoreFrames(frames, options),
+      summary: summarizeTrip(frames, options.calibration),
+    };
+  }, [frames, vehicleId]);
+
+  const isLoading = tripId ? trip.isLoading : rangeFrames.isLoading;
+
+  return (
+    <PageLayout
+      title="Safety Report"
+      subtitle={tripId ? "Trip" : "Dashboard session"}
+    >
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-6 print:hidden">
+        <Link
+          to={tripId ? `/trips/${tripId}` : "/"}
+          className="inline-flex items-center gap-1 text-sm text-slate-400 hover:text-white"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          {tripId ? "Trip details" : "Dashboard"}
+        </Link>
+        {report && (
+          <button
+            onClick={() => window.print()}
+            className="px-3 py-1 rounded bg-blue-600 text-sm flex items-center gap-1"
+          >
+            <Printer className="w-4 h-4" /> Print
+          </button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="h-96 bg-slate-700 rounded-lg animate-pulse" />
+      ) : !report ? (
+        <div className="bg-slate-700/30 border border-slate-600 rounded-lg p-8 text-center">
+          <AlertCircle className="w-12 h-12 text-slate-400 mx-auto mb-3" />
+          <p className="text-slate-400">No recorded data for this report</p>
+        </div>
+      ) : (
+        <article className="bg-white text-slate-900 rounded-lg p-6 sm:p-10 max-w-3xl mx-auto print:p-0 print:max-w-none">
+          <header className="flex flex-wrap justify-between gap-4 border-b border-slate-200 pb-4">
+            <div>
+              <h2 className="text-2xl font-bold">Driving Safety Report</h2>
+              <p className="text-sm text-slate-600 mt-1">
+                Vehicle {vehicleId ?? "default"}
+              </p>
+            </div>
+            <dl className="text-sm text-slate-600 grid grid-cols-[auto_auto] gap-x-3">
+              <dt>From</dt>
+              <dd>{new Date(report.summary.startedAt).toLocaleString()}</dd>
+              <dt>To</dt>
+              <dd>{new Date(report.summary.endedAt).toLocaleString()}</dd>
+              <dt>Monitored</dt>
+              <dd>{formatDuration(report.score.monitoredMs)}</dd>
+            </dl>
+          </header>
+
+          <section className="flex flex-col sm:flex-row items-center gap-6 py-6 border-b border-slate-200">
+            <div className="text-center">
+              <SafetyScoreGauge
+                score={report.score.score}
+                className="w-48 text-slate-900"
+              />
+              <p className="font-semibold">
+                {VERDICTS[getScoreStatus(report.score.score)]}
+              </p>
+            </div>
+            <SafetyScoreBreakdown
+              penalties={report.score.penalties}
+              className="flex-1"
+            />
+          </section>
+
+          <section className="py-6 border-b border-slate-200">
+            <h3 className="font-semibold mb-2">Trip</h3>
+            <dl className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
+              <div>
+                <dt className="text-slate-500">Duration</dt>
+                <dd>{formatDuration(report.summary.durationMs)}</dd>
+              </div>
+              <div>
+                <dt className="text-slate-500">Max speed</dt>
+                <dd>{formatSpeed(report.summary.maxSpeed, speedUnit)}</dd>
+              </div>
+              <div>
+                <dt className="text-slate-500">Average speed</dt>
+                <dd>{formatSpeed(report.summary.averageSpeed, speedUnit)}</dd>
+              </div>
+              <div>
+                <dt className="text-slate-500">Frames</dt>
+                <dd>{frames.length}</dd>
+              </div>
+            </dl>
+          </section>
+
+          <section className="py-6">
+            <h3 className="font-semibold mb-2">Events</h3>
+            {report.summary.events.length === 0 ? (
+              <p className="text-sm text-slate-600">No safety events.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-slate-500">
+                    <th className="font-medium py-1">Time</th>
+                    <th className="font-medium py-1">Event</th>
+                    <th className="font-medium py-1 text-right">Lasted</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.summary.events.map((event) => (
+                    <tr key={`${event.type}-${event.start}`}>
+                      <td className="py-1 font-mono">
+                        {new Date(event.start).toLocaleTimeString()}
+                      </td>
+                      <td className="py-1">{TRIP_EVENT_LABELS[event.type]}</td>
+                      <td className="py-1 text-right font-mono">
+                        {formatDuration(event.end - event.start)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </section>
+
+          <footer className="text-xs text-slate-500 border-t border-slate-200 pt-4">
+            Generated {new Date(generatedAt).toLocaleString()} with the current
+            alert thresholds and speed calibration of this vehicle.
+          </footer>
+        </article>
+      )}
+    </PageLayout>
+  );
+}
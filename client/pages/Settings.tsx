@@ -0,0 +1,328 @@
+import { useEffect, useRef, type ReactNode } from "react";
+import { useSearchParams } from "react-router-dom";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { toast } from "sonner";
+import {
+  Download,
+  FileUp,
+  Gauge,
+  Plug,
+  RotateCcw,
+  Save,
+  SlidersHorizontal,
+} from "lucide-react";
+import PageLayout from "@/components/PageLayout";
+import FreshnessSettingsPanel from "@/components/FreshnessSettingsPanel";
+import CalibrationPanel from "@/components/CalibrationPanel";
+import AlertRulesPanel from "@/components/AlertRulesPanel";
+import { useAppSettings } from "@/hooks/use-app-settings";
+import { useFreshnessSettings } from "@/hooks/use-freshness-settings";
+import { useSpeedUnit } from "@/hooks/use-speed-unit";
+import { useAlertRules } from "@/hooks/use-alert-rules";
+import { useCalibration } from "@/hooks/use-calibration";
+import {
+  APP_SETTINGS_LIMITS,
+  appSettingsSchema,
+  DEFAULT_APP_SETTINGS,
+  getCommandUrl,
+  getStreamUrl,
+  type AppSettings,
+} from "@/lib/app-settings";
+import {
+  applySettingsProfile,
+  downloadSettingsProfile,
+  exportSettingsProfile,
+  notifySettingsChanged,
+  parseSettingsProfile,
+} from "@/lib/settings-profile";
+import { STREAM_URL } from "@/lib/telemetry-source";
+import { DEFAULT_VEHICLE_ID, vehicleIdSchema } from "@shared/api";
+
+const inputClass =
+  "bg-slate-900 border border-slate-600 rounded px-2 py-1 text-sm text-slate-100";
+
+const Field = ({
+  label,
+  hint,
+  error,
+  children,
+}: {
+  label: string;
+  hint?: string;
+  error?: string;
+  children: ReactNode;
+}) => (
+  <label className="flex flex-col gap-1 text-sm text-slate-300">
+    {label}
+    {children}
+    {error ? (
+      <span className="text-xs text-red-300">{error}</span>
+    ) : (
+      hint && <span className="text-xs text-slate-500">{hint}</span>
+    )}
+  </label>
+);
+
+const Section = ({
+  icon,
+  title,
+  children,
+}: {
+  icon: ReactNode;
+  title: string;
+  children: ReactNode;
+}) => (
+  <section className="mb-8 sm:mb-12">
+    <h2 className="text-xl sm:text-2xl font-bold mb-4 flex items-center gap-2">
+      {icon}
+      {title}
+    </h2>
+    {children}
+  </section>
+);
+
+const rangeHint = ({ min, max }: { min: number; max: number }, unit = "") =>
+  `${min}–${max}${unit}`;
+
+function ConnectionForm() {
+  const { settings, setSettings } = useAppSettings();
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors, isDirty },
+  } = useForm<AppSettings>({
+    resolver: zodResolver(appSettingsSchema),
+    defaultValues: settings,
+  });
+
+  // Follow changes from an imported profile or another tab
+  useEffect(() => reset(settings), [settings, reset]);
+
+  const save = (values: AppSettings) => {
+    setSettings(values);
+    toast.success("Settings saved", {
+      description: "Open dashboards reconnect with the new settings.",
+    });
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit(save)}
+      className="bg-slate-800/50 border border-slate-700 rounded-lg p-4 space-y-4"
+    >
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Field
+          label="Telemetry stream"
+          hint={`Empty uses ${STREAM_URL}. SSE path or URL, ws(s):// or mqtt+ws(s)://`}
+          error={errors.streamUrl?.message}
+        >
+          <input
+            {...register("streamUrl")}
+            placeholder={STREAM_URL}
+            className={inputClass}
+          />
+        </Field>
+        <Field
+          label="Command endpoint"
+          hint={`Empty uses ${getCommandUrl({ ...settings, commandUrl: "" }) ?? "none (MQTT stream)"}`}
+          error={errors.commandUrl?.message}
+        >
+          <input
+            {...register("commandUrl")}
+            placeholder={
+              getCommandUrl({ ...settings, commandUrl: "" }) ?? "Not available"
+            }
+            className={inputClass}
+          />
+        </Field>
+        <Field
+          label="Live history rows"
+          hint={rangeHint(APP_SETTINGS_LIMITS.maxHistoryEntries)}
+          error={errors.maxHistoryEntries?.message}
+        >
+          <input
+            type="number"
+            {...register("maxHistoryEntries")}
+            className={inputClass}
+          />
+        </Field>
+        <Field
+          label="History interval (ms)"
+          hint={`Minimum time between live history rows, ${rangeHint(APP_SETTINGS_LIMITS.historyAddIntervalMs, " ms")}`}
+          error={errors.historyAddIntervalMs?.message}
+        >
+          <input
+            type="number"
+            step={100}
+            {...register("historyAddIntervalMs")}
+            className={inputClass}
+          />
+        </Field>
+        <Field
+          label="Connection timeout (ms)"
+          hint={`An attempt that has not opened by then is retried, ${rangeHint(APP_SETTINGS_LIMITS.connectTimeoutMs, " ms")}`}
+          error={errors.connectTimeoutMs?.message}
+        >
+          <input
+            type="number"
+            step={500}
+            {...register("connectTimeoutMs")}
+            className={inputClass}
+          />
+        </Field>
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="submit"
+          disabled={!isDirty}
+          className="px-3 py-1 rounded bg-blue-600 hover:bg-blue-500 text-sm flex items-center gap-1 disabled:opacity-50"
+        >
+          <Save className="w-4 h-4" /> Save
+        </button>
+        <button
+          type="button"
+          onClick={() =>
+            reset(DEFAULT_APP_SETTINGS, { keepDefaultValues: true })
+          }
+          className="px-3 py-1 rounded border border-slate-600 text-slate-300 text-sm flex items-center gap-1"
+        >
+          <RotateCcw className="w-4 h-4" /> Defaults
+        </button>
+        <span className="text-xs text-slate-500">
+          Currently streaming from {getStreamUrl(settings)}
+        </span>
+      </div>
+    </form>
+  );
+}
+
+function VehicleSettings({ vehicleId }: { vehicleId: string }) {
+  const { rules, setRules, resetRules } = useAlertRules(vehicleId);
+  const { calibration, setCalibration, resetCalibration } =
+    useCalibration(vehicleId);
+  const { unit: speedUnit, setUnit: setSpeedUnit } = useSpeedUnit();
+
+  return (
+    <div className="space-y-4">
+      <CalibrationPanel
+        calibration={calibration}
+        onSave={setCalibration}
+        onReset={resetCalibration}
+        speedUnit={speedUnit}
+        onSpeedUnitChange={setSpeedUnit}
+      />
+      <AlertRulesPanel
+        rules={rules}
+        onSave={setRules}
+        onReset={resetRules}
+        speedUnit={speedUnit}
+      />
+    </div>
+  );
+}
+
+/**
+ * Runtime configuration. `?vehicleId=` selects whose alert rules and
+ * calibration are edited.
+ */
+export default function Settings() {
+  const [params, setParams] = useSearchParams();
+  const parsedVehicle = vehicleIdSchema.safeParse(params.get("vehicleId"));
+  const vehicleId = parsedVehicle.success
+    ? (parsedVehicle.data as string)
+    : DEFAULT_VEHICLE_ID;
+  const { settings: freshness, setSettings: setFreshness } =
+    useFreshnessSettings();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const importProfile = async (file: File) => {
+    try {
+      const profile = parseSettingsProfile(await file.text());
+      const changed = applySettingsProfile(profile);
+      notifySettingsChanged(changed);
+      toast.success(`Loaded settings from ${file.name}`, {
+        description: `${changed.length} setting${changed.length === 1 ? "" : "s"} changed`,
+      });
+    } catch (err) {
+      console.error("Settings import failed:", err);
+      toast.error(`Could not load ${file.name}`, {
+        description: err instanceof Error ? err.message : undefined,
+      });
+    }
+  };
+
+  return (
+    <PageLayout
+      title="Settings"
+      subtitle="Connection, history and alert configuration"
+      status={
+        <div className="flex gap-2">
+          <button
+            onClick={() => downloadSettingsProfile(exportSettingsProfile())}
+            className="px-3 py-1 rounded border border-slate-600 text-slate-300 text-sm flex items-center gap-1"
+          >
+            <Download className="w-4 h-4" />
+            Export profile
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="px-3 py-1 rounded border border-slate-600 text-slate-300 text-sm flex items-center gap-1"
+          >
+            <FileUp className="w-4 h-4" />
+            Import profile
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = "";
+              if (file) importProfile(file);
+            }}
+          />
+        </div>
+      }
+    >
+      <Section
+        icon={<Plug className="w-6 h-6" />}
+        title="Connection and History"
+      >
+        <ConnectionForm />
+      </Section>
+
+      <Section icon={<Gauge className="w-6 h-6" />} title="Data Freshness">
+        <FreshnessSettingsPanel settings={freshness} onChange={setFreshness} />
+      </Section>
+
+      <Section
+        icon={<SlidersHorizontal className="w-6 h-6" />}
+        title="Thresholds and Calibration"
+      >
+        <label className="flex items-center gap-2 text-sm text-slate-300 mb-4">
+          Vehicle
+          <input
+            key={vehicleId}
+            defaultValue={vehicleId}
+            onBlur={(e) => {
+              const next = e.target.value.trim();
+              setParams(
+                next && next !== DEFAULT_VEHICLE_ID ? { vehicleId: next } : {},
+                { replace: true },
+              );
+            }}
+            className={inputClass}
+          />
+          <span className="text-xs text-slate-500">
+            “{DEFAULT_VEHICLE_ID}” applies to vehicles without their own
+            settings
+          </span>
+        </label>
+        <VehicleSettings vehicleId={vehicleId} />
+      </Section>
+    </PageLayout>
+  );
+}
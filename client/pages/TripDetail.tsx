@@ -0,0 +1,235 @@
+import { useMemo } from "react";
+import { Link, useParams } from "react-router-dom";
+import {
+  Activity,
+  AlertCircle,
+  AlertTriangle,
+  ArrowLeft,
+  Clock,
+  Eye,
+  Gauge,
+  History,
+  Map as MapIcon,
+  Move3d,
+  ShieldCheck,
+} from "lucide-react";
+import PageLayout from "@/components/PageLayout";
+import ExportMenu from "@/components/ExportMenu";
+import TripMap from "@/components/TripMap";
+import { useAlertRules } from "@/hooks/use-alert-rules";
+import { evaluateFrames } from "@/lib/alert-rules";
+import DataCard, { STATUS_COLORS } from "@/components/DataCard";
+import { useTrip } from "@/hooks/use-trip-storage";
+import { useSpeedUnit } from "@/hooks/use-speed-unit";
+import { loadTripCalibration } from "@/lib/calibration";
+import { extractTrack } from "@/lib/geo";
+import { getSpeedStatus } from "@/lib/telemetry";
+import {
+  formatDuration,
+  summarizeTrip,
+  TRIP_EVENT_LABELS,
+  TRIP_EVENT_STATUS,
+} from "@/lib/trip-summary";
+import { fromKmh, SPEED_UNIT_LABELS } from "@/lib/units";
+import {
+  getScoreStatus,
+  loadScoreOptions,
+  scoreFrames,
+} from "@/lib/safety-score";
+import { cn } from "@/lib/utils";
+import { getVehicleId } from "@shared/api";
+
+export default function TripDetail() {
+  const { id } = useParams<{ id: string }>();
+  const { data, isLoading } = useTrip(id);
+  const summary = data
+    ? summarizeTrip(data.frames, loadTripCalibration(data.frames))
+    : null;
+  const track = useMemo(() => (data ? extractTrack(data.frames) : []), [data]);
+  const { unit: speedUnit } = useSpeedUnit();
+  const safetyScore =
+    data && data.frames.length > 0
+      ? scoreFrames(
+          data.frames,
+          loadScoreOptions(getVehicleId(data.frames[0].frame)),
+        )
+      : null;
+  const { rules } = useAlertRules();
+  const harshEvents = summary
+    ? summary.eventCounts.harshBraking +
+      summary.eventCounts.harshAcceleration +
+      summary.eventCounts.harshCornering
+    : 0;
+
+  // Alert states are re-evaluated with the current rules
+  const loadExportEntries = () => {
+    const alerts = evaluateFrames(rules, data.frames);
+    return data.frames.map(({ timestamp, frame }, i) => ({
+      timestamp,
+      frame,
+      alerts: alerts[i],
+    }));
+  };
+
+  return (
+    <PageLayout
+      title="Trip Details"
+      subtitle={
+        data ? new Date(data.trip.startedAt).toLocaleString() : "Loading…"
+      }
+    >
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+        <Link
+          to="/trips"
+          className="inline-flex items-center gap-1 text-sm text-slate-400 hover:text-white"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          All trips
+        </Link>
+        {data && (
+          <div className="flex flex-wrap items-center gap-2">
+            <Link
+              to={`/report?trip=${encodeURIComponent(data.trip.id)}`}
+              className="px-3 py-1 rounded border border-slate-600 text-slate-300 text-sm flex items-center gap-1"
+            >
+              <ShieldCheck className="w-4 h-4" />
+              Safety report
+            </Link>
+            <ExportMenu label={data.trip.id} loadEntries={loadExportEntries} />
+          </div>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6">
+          {[1, 2, 3].map((i) => (
+            <div
+              key={i}
+              className="h-32 bg-slate-700 rounded-lg animate-pulse"
+            />
+          ))}
+        </div>
+      ) : !data || !summary ? (
+        <div className="bg-slate-700/30 border border-slate-600 rounded-lg p-8 text-center">
+          <AlertCircle className="w-12 h-12 text-slate-400 mx-auto mb-3" />
+          <p className="text-slate-400">Trip not found</p>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6 mb-8 sm:mb-12">
+            <DataCard
+              icon={<Clock className="w-6 h-6" />}
+              label="Duration"
+              value={formatDuration(summary.durationMs)}
+            />
+            <DataCard
+              icon={<ShieldCheck className="w-6 h-6" />}
+              label="Safety Score"
+              value={safetyScore?.score ?? null}
+              unit={safetyScore ? "/ 100" : ""}
+              status={
+                safetyScore ? getScoreStatus(safetyScore.score) : undefined
+              }
+            />
+            <DataCard
+              icon={<Gauge className="w-6 h-6" />}
+              label="Max Speed"
+              value={fromKmh(summary.maxSpeed, speedUnit)}
+              unit={
+                summary.maxSpeed !== null ? SPEED_UNIT_LABELS[speedUnit] : ""
+              }
+              status={getSpeedStatus(summary.maxSpeed)}
+            />
+            <DataCard
+              icon={<Gauge className="w-6 h-6" />}
+              label="Average Speed"
+              value={fromKmh(summary.averageSpeed, speedUnit)}
+              unit={
+                summary.averageSpeed !== null
+                  ? SPEED_UNIT_LABELS[speedUnit]
+                  : ""
+              }
+              status={getSpeedStatus(summary.averageSpeed)}
+            />
+            <DataCard
+              icon={<Eye className="w-6 h-6" />}
+              label="Drowsiness Events"
+              value={summary.eventCounts.drowsy}
+              status={summary.eventCounts.drowsy > 0 ? "danger" : "safe"}
+            />
+            <DataCard
+              icon={<Activity className="w-6 h-6" />}
+              label="Steering Inactive Events"
+              value={summary.eventCounts.steerInactive}
+              status={
+                summary.eventCounts.steerInactive > 0 ? "warning" : "safe"
+              }
+            />
+            <DataCard
+              icon={<AlertTriangle className="w-6 h-6" />}
+              label="Rollover Events"
+              value={summary.eventCounts.rollover}
+              status={summary.eventCounts.rollover > 0 ? "danger" : "safe"}
+            />
+            <DataCard
+              icon={<Move3d className="w-6 h-6" />}
+              label="Harsh Driving Events"
+              value={harshEvents}
+              status={harshEvents > 0 ? "warning" : "safe"}
+            />
+          </div>
+
+          {track.length > 0 && (
+            <>
+              <h2 className="text-xl sm:text-2xl font-bold mb-4 sm:mb-6 flex items-center gap-2">
+                <MapIcon className="w-6 h-6" />
+                Route
+              </h2>
+              <TripMap
+                track={track}
+                events={summary.events}
+                className="mb-8 sm:mb-12"
+              />
+            </>
+          )}
+
+          <h2 className="text-xl sm:text-2xl font-bold mb-4 sm:mb-6 flex items-center gap-2">
+            <History className="w-6 h-6" />
+            Event Timeline
+          </h2>
+
+          {summary.events.length === 0 ? (
+            <p className="text-slate-400">No safety events during this trip.</p>
+          ) : (
+            <ol className="relative border-l border-slate-700 ml-2 space-y-4">
+              {summary.events.map((event) => (
+                <li key={`${event.type}-${event.start}`} className="ml-4">
+                  <div className="absolute -left-1.5 mt-3 w-3 h-3 rounded-full bg-slate-500" />
+                  <div
+                    className={cn(
+                      "rounded-lg border-2 p-3 text-slate-900",
+                      STATUS_COLORS[TRIP_EVENT_STATUS[event.type]],
+                    )}
+                  >
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <p className="font-semibold">
+                        {TRIP_EVENT_LABELS[event.type]}
+                      </p>
+                      <p className="text-xs font-mono text-slate-600">
+                        {new Date(event.start).toLocaleTimeString()} • +
+                        {formatDuration(event.start - summary.startedAt)}
+                      </p>
+                    </div>
+                    <p className="text-xs text-slate-600 mt-1">
+                      Lasted {formatDuration(event.end - event.start)}
+                    </p>
+                  </div>
+                </li>
+              ))}
+            </ol>
+          )}
+        </>
+      )}
+    </PageLayout>
+  );
+}
@@ -0,0 +1,187 @@
+import { useRef, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  AlertCircle,
+  ChevronRight,
+  FileUp,
+  Route as RouteIcon,
+} from "lucide-react";
+import PageLayout from "@/components/PageLayout";
+import { STATUS_COLORS } from "@/components/DataCard";
+import { useTrip, useTrips } from "@/hooks/use-trip-storage";
+import { useSpeedUnit } from "@/hooks/use-speed-unit";
+import { useAuth } from "@/hooks/use-auth";
+import { REQUIRED_ROLES } from "@/lib/auth";
+import { loadTripCalibration } from "@/lib/calibration";
+import { getTripStorage, type Trip } from "@/lib/trip-storage";
+import { parseEntries } from "@/lib/telemetry-export";
+import { getSpeedStatus } from "@/lib/telemetry";
+import {
+  formatDuration,
+  summarizeTrip,
+  TRIP_EVENT_LABELS,
+  TRIP_EVENT_STATUS,
+  type TripEventType,
+} from "@/lib/trip-summary";
+import { formatSpeed } from "@/lib/units";
+import { cn } from "@/lib/utils";
+
+const TripRow = ({ trip }: { trip: Trip }) => {
+  const { data } = useTrip(trip.id);
+  const { unit: speedUnit } = useSpeedUnit();
+  const summary = data
+    ? summarizeTrip(data.frames, loadTripCalibration(data.frames))
+    : null;
+  const speedStatus = getSpeedStatus(summary?.maxSpeed ?? null);
+
+  return (
+    <Link
+      to={`/trips/${trip.id}`}
+      className="block bg-slate-800/50 border border-slate-700 rounded-lg p-4 hover:border-slate-500 transition-colors"
+    >
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+        <div>
+          <p className="font-semibold">
+            {new Date(trip.startedAt).toLocaleString()}
+            {trip.name && (
+              <span className="ml-2 text-xs font-normal px-2 py-0.5 rounded bg-purple-900/50 text-purple-200">
+                Imported: {trip.name}
+              </span>
+            )}
+          </p>
+          <p className="text-xs text-slate-400 mt-1">
+            until {new Date(trip.endedAt).toLocaleTimeString()} •{" "}
+            {formatDuration(trip.endedAt - trip.startedAt)} • {trip.frameCount}{" "}
+            frames
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          {summary ? (
+            <>
+              <span
+                className={cn(
+                  "px-2 py-1 rounded border text-slate-900",
+                  STATUS_COLORS[speedStatus],
+                )}
+              >
+                Max {formatSpeed(summary.maxSpeed, speedUnit)}
+              </span>
+              <span className="px-2 py-1 rounded bg-blue-900/50 text-blue-200">
+                Avg {formatSpeed(summary.averageSpeed, speedUnit)}
+              </span>
+              {(Object.keys(summary.eventCounts) as TripEventType[]).map(
+                (type) => (
+                  <span
+                    key={type}
+                    className={cn(
+                      "px-2 py-1 rounded border text-slate-900",
+                      summary.eventCounts[type] > 0
+                        ? STATUS_COLORS[TRIP_EVENT_STATUS[type]]
+                        : STATUS_COLORS.safe,
+                    )}
+                  >
+                    {TRIP_EVENT_LABELS[type]}: {summary.eventCounts[type]}
+                  </span>
+                ),
+              )}
+            </>
+          ) : (
+            <span className="text-slate-500">Loading summary…</span>
+          )}
+          <ChevronRight className="w-4 h-4 text-slate-500" />
+        </div>
+      </div>
+    </Link>
+  );
+};
+
+export default function Trips() {
+  const { data: trips, isLoading, isError } = useTrips();
+  const queryClient = useQueryClient();
+  const navigate = useNavigate();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importing, setImporting] = useState(false);
+  const { can } = useAuth();
+
+  const importFile = async (file: File) => {
+    setImporting(true);
+    try {
+      const entries = parseEntries(await file.text());
+      const trip = await (
+        await getTripStorage()
+      ).importTrip(entries, file.name);
+      await queryClient.invalidateQueries({ queryKey: ["trips"] });
+      toast.success(`Imported ${entries.length} frames from ${file.name}`);
+      navigate(`/trips/${trip.id}`);
+    } catch (err) {
+      console.error("Import failed:", err);
+      toast.error(`Could not import ${file.name}`, {
+        description: err instanceof Error ? err.message : undefined,
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <PageLayout title="Trips" subtitle="Recorded driving sessions">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4 sm:mb-6">
+        <h2 className="text-xl sm:text-2xl font-bold flex items-center gap-2">
+          <RouteIcon className="w-6 h-6" />
+          Recorded Trips {trips && `(${trips.length})`}
+        </h2>
+        {can(REQUIRED_ROLES.importData) && (
+          <>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={importing || isError}
+              className="px-3 py-1 rounded border border-slate-600 text-slate-300 text-sm flex items-center gap-1 disabled:opacity-50"
+            >
+              <FileUp className="w-4 h-4" />
+              Import CSV / JSON / NDJSON
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.json,.ndjson,.jsonl,text/csv,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = "";
+                if (file) importFile(file);
+              }}
+            />
+          </>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-3">
+          {[1, 2, 3].map((i) => (
+            <div
+              key={i}
+              className="h-20 bg-slate-700 rounded-lg animate-pulse"
+            />
+          ))}
+        </div>
+      ) : isError || !trips || trips.length === 0 ? (
+        <div className="bg-slate-700/30 border border-slate-600 rounded-lg p-8 text-center">
+          <AlertCircle className="w-12 h-12 text-slate-400 mx-auto mb-3" />
+          <p className="text-slate-400">
+            {isError
+              ? "Trip history is not available in this browser"
+              : "No trips recorded yet"}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {trips.map((trip) => (
+            <TripRow key={trip.id} trip={trip} />
+          ))}
+        </div>
+      )}
+    </PageLayout>
+  );
+}
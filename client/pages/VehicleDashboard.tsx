@@ -0,0 +1,8 @@
+import { useParams } from "react-router-dom";
+import Dashboard from "@/components/Dashboard";
+
+export default function VehicleDashboard() {
+  const { vehicleId } = useParams();
+  // Remount so the stream, rules and history switch with the vehicle
+  return <Dashboard key={vehicleId} vehicleId={vehicleId} />;
+}
@@ -1 +1,11 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_URL?: string;
+  /** `stream`, `sim:<scenario>` or `replay:<url>` */
+  readonly VITE_TELEMETRY_SOURCE?: string;
+  /** Endpoint commands are posted to; defaults to the stream's server */
+  readonly VITE_COMMAND_URL?: string;
+  /** Base of the login and session endpoints; defaults to the stream's server */
+  readonly VITE_AUTH_URL?: string;
+}
@@ -0,0 +1,149 @@
+/**
+ * Service worker for the dashboard's app shell. Pages are fetched from the
+ * network first and fall back to the cached shell, so a reload without
+ * network still starts the app. Hashed build assets never change; all of
+ * them are cached on install from the build's `asset-manifest.json`, so the
+ * shell always has its bundle, and served from the cache. Telemetry,
+ * commands and other API traffic always go to the network.
+ */
+
+// Replaced by the build, so every deploy installs a new worker that
+// precaches its own assets
+const BUILD_VERSION = "__BUILD_VERSION__";
+const SHELL_CACHE = `dsd-shell-${BUILD_VERSION}`;
+// Shared by all builds: unchanged assets keep their hashed names
+const ASSET_CACHE = "dsd-assets-v1";
+const SHELL_URLS = [
+  "/",
+  "/manifest.webmanifest",
+  "/favicon.ico",
+  "/icon-192.png",
+  "/icon-512.png",
+];
+// Written by the build: every file under /assets/
+const ASSET_MANIFEST_URL = "/asset-manifest.json";
+// Old builds' assets are dropped oldest first past this count; the current
+// build's are always kept
+const MAX_ASSETS = 80;
+// A page request slower than this is answered from the cache, if it can be
+const PAGE_TIMEOUT_MS = 4000;
+
+// Failing here fails the install, so the previous worker and its complete
+// cache stay in charge
+async function precache() {
+  const shell = await caches.open(SHELL_CACHE);
+  await shell.addAll(SHELL_URLS);
+
+  const response = await fetch(ASSET_MANIFEST_URL, { cache: "no-cache" });
+  if (!response.ok)
+    throw new Error(`${ASSET_MANIFEST_URL}: ${response.status}`);
+  // Kept with the shell so trimming knows which assets are current
+  await shell.put(ASSET_MANIFEST_URL, response.clone());
+  const assets = await response.json();
+  const cache = await caches.open(ASSET_CACHE);
+  const cached = await Promise.all(assets.map((url) => cache.match(url)));
+  await cache.addAll(assets.filter((_, i) => !cached[i]));
+}
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(precache().then(() => self.skipWaiting()));
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key !== SHELL_CACHE && key !== ASSET_CACHE)
+            .map((key) => caches.delete(key)),
+        ),
+      )
+      .then(trimAssets)
+      .then(() => self.clients.claim()),
+  );
+});
+
+const isLiveData = (url) =>
+  url.pathname.startsWith("/api/") || url.pathname.startsWith("/dashboard/");
+
+async function trimAssets() {
+  const shell = await caches.open(SHELL_CACHE);
+  const manifest = await shell.match(ASSET_MANIFEST_URL);
+  if (!manifest) return;
+  const current = new Set(await manifest.json());
+  const cache = await caches.open(ASSET_CACHE);
+  const old = (await cache.keys()).filter(
+    (request) => !current.has(new URL(request.url).pathname),
+  );
+  await Promise.all(
+    old.slice(0, -MAX_ASSETS).map((request) => cache.delete(request)),
+  );
+}
+
+const wait = (ms) => new Promise((resolve) => setTimeout(resolve, ms, null));
+
+async function networkFirstPage(request) {
+  const network = fetch(request).then(async (response) => {
+    if (response.ok) {
+      const cache = await caches.open(SHELL_CACHE);
+      await cache.put("/", response.clone());
+    }
+    return response;
+  });
+  // Still cached for next time when the timeout answered first
+  network.catch(() => undefined);
+
+  try {
+    const response = await Promise.race([network, wait(PAGE_TIMEOUT_MS)]);
+    if (response) return response;
+  } catch (err) {
+    // Every route is the same SPA shell
+    const cached = await caches.match("/");
+    if (cached) return cached;
+    throw err;
+  }
+  // A connection this slow gets the shell; without one, keep waiting
+  const cached = await caches.match("/");
+  return cached ?? network;
+}
+
+async function cacheFirstAsset(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(ASSET_CACHE);
+    await cache.put(request, response.clone());
+    trimAssets();
+  }
+  return response;
+}
+
+async function staleWhileRevalidate(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  const fresh = fetch(request)
+    .then((response) => {
+      if (response.ok) cache.put(request, response.clone());
+      return response;
+    })
+    .catch(() => cached);
+  return cached ?? fresh;
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin || isLiveData(url)) return;
+
+  if (request.mode === "navigate") {
+    event.respondWith(networkFirstPage(request));
+  } else if (url.pathname.startsWith("/assets/")) {
+    event.respondWith(cacheFirstAsset(request));
+  } else {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+});
@@ -0,0 +1,277 @@
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import type { AuthSession } from "../shared/api";
+import {
+  createAuth,
+  loadAuthConfig,
+  parseAuthUsers,
+  type AuthConfig,
+} from "./auth";
+import { createServer } from "./index";
+
+const config: AuthConfig = {
+  users: parseAuthUsers(
+    "vera:view-pass:viewer, sam:super:pass:supervisor, ada:admin-pass:admin",
+  ),
+  secret: "test-secret",
+  tokenTtlMs: 60000,
+};
+
+describe("parseAuthUsers", () => {
+  it("should read name, password and role, allowing colons in passwords", () => {
+    expect(config.users).toEqual([
+      { name: "vera", password: "view-pass", role: "viewer" },
+      { name: "sam", password: "super:pass", role: "supervisor" },
+      { name: "ada", password: "admin-pass", role: "admin" },
+    ]);
+  });
+
+  it("should reject malformed entries", () => {
+    expect(() => parseAuthUsers("vera:view-pass")).toThrow(/vera/);
+    expect(() => parseAuthUsers("vera:pass:owner")).toThrow();
+    expect(() => parseAuthUsers(":pass:viewer")).toThrow();
+  });
+});
+
+describe("loadAuthConfig", () => {
+  it("should disable auth without users", () => {
+    expect(loadAuthConfig({})).toBeNull();
+    expect(loadAuthConfig({ AUTH_USERS: " " })).toBeNull();
+  });
+
+  it("should read the secret and token lifetime", () => {
+    expect(
+      loadAuthConfig({
+        AUTH_USERS: "vera:pw:viewer",
+        AUTH_SECRET: "s",
+        AUTH_TOKEN_TTL_MS: "5000",
+      }),
+    ).toMatchObject({ secret: "s", tokenTtlMs: 5000 });
+    expect(
+      loadAuthConfig({ AUTH_USERS: "vera:pw:viewer" }).secret,
+    ).toHaveLength(64);
+  });
+});
+
+describe("createAuth", () => {
+  it("should issue tokens only for matching credentials", () => {
+    const auth = createAuth(config, () => 1000);
+
+    expect(auth.login("vera", "wrong")).toBeNull();
+    expect(auth.login("nobody", "view-pass")).toBeNull();
+    const session = auth.login("vera", "view-pass");
+    expect(session).toMatchObject({
+      user: { name: "vera", role: "viewer" },
+      expiresAt: 61000,
+    });
+    expect(auth.verify(session.token)).toEqual({
+      user: { name: "vera", role: "viewer" },
+      expiresAt: 61000,
+    });
+  });
+
+  it("should refuse expired, tampered and foreign tokens", () => {
+    let time = 1000;
+    const auth = createAuth(config, () => time);
+    const { token } = auth.login("vera", "view-pass");
+    const [payload, signature] = token.split(".");
+    const forged = Buffer.from(
+      JSON.stringify({ sub: "vera", role: "admin", exp: 61000 }),
+    ).toString("base64url");
+
+    expect(auth.verify(`${forged}.${signature}`)).toBeNull();
+    expect(auth.verify(payload)).toBeNull();
+    expect(createAuth({ ...config, secret: "other" }).verify(token)).toBeNull();
+    time = 61000;
+    expect(auth.verify(token)).toBeNull();
+  });
+
+  it("should revoke tokens when the user's role changes", () => {
+    const { token } = createAuth(config).login("sam", "super:pass");
+    const demoted = createAuth({
+      ...config,
+      users: parseAuthUsers("sam:super:pass:viewer"),
+    });
+
+    expect(demoted.verify(token)).toBeNull();
+  });
+});
+
+// The real server with test users acts as the mock auth server
+describe("createServer with auth", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  const login = async (username: string, password: string) => {
+    const response = await fetch(`${baseUrl}/api/auth/login`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ username, password }),
+    });
+    return (await response.json()) as AuthSession;
+  };
+
+  const bearer = (token: string) => ({ Authorization: `Bearer ${token}` });
+
+  const postCommand = (token: string) =>
+    fetch(`${baseUrl}/api/commands`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...bearer(token) },
+      body: JSON.stringify({
+        id: `cmd-${token.length}-${Math.random()}`,
+        vehicleId: "truck-1",
+        command: { type: "buzzer", durationMs: 1000 },
+        sentBy: "Someone else",
+        sentAt: 1000,
+      }),
+    });
+
+  beforeAll(async () => {
+    server = createServer({ auth: config }).listen(0);
+    await new Promise((resolve) => server.once("listening", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("should refuse wrong credentials", async () => {
+    const response = await fetch(`${baseUrl}/api/auth/login`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ username: "vera", password: "nope" }),
+    });
+
+    expect(response.status).toBe(401);
+  });
+
+  it("should report the token's user", async () => {
+    const { token } = await login("vera", "view-pass");
+    const signedIn = await fetch(`${baseUrl}/api/auth/session`, {
+      headers: bearer(token),
+    });
+    const signedOut = await fetch(`${baseUrl}/api/auth/session`);
+
+    expect(await signedIn.json()).toMatchObject({
+      enabled: true,
+      user: { name: "vera", role: "viewer" },
+    });
+    expect(await signedOut.json()).toEqual({
+      enabled: true,
+      user: null,
+      expiresAt: null,
+    });
+  });
+
+  it("should require a token for dashboard data but not for devices", async () => {
+    const { token } = await login("vera", "view-pass");
+
+    expect((await fetch(`${baseUrl}/api/vehicles`)).status).toBe(401);
+    expect(
+      (await fetch(`${baseUrl}/api/vehicles`, { headers: bearer(token) }))
+        .status,
+    ).toBe(200);
+    const ingest = await fetch(`${baseUrl}/api/telemetry`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ speed: 50 }),
+    });
+    expect(ingest.ok).toBe(true);
+  });
+
+  it("should accept the token as a query param on the stream", async () => {
+    const { token } = await login("vera", "view-pass");
+    const controller = new AbortController();
+
+    expect((await fetch(`${baseUrl}/dashboard/stream`)).status).toBe(401);
+    const stream = await fetch(
+      `${baseUrl}/dashboard/stream?access_token=${encodeURIComponent(token)}`,
+      { signal: controller.signal },
+    );
+    expect(stream.status).toBe(200);
+    expect(stream.headers.get("content-type")).toContain("text/event-stream");
+    controller.abort();
+  });
+
+  it("should let only supervisors send commands, as themselves", async () => {
+    const viewer = await login("vera", "view-pass");
+    const supervisor = await login("sam", "super:pass");
+
+    expect((await postCommand(viewer.token)).status).toBe(403);
+    const response = await postCommand(supervisor.token);
+    expect(response.status).toBe(202);
+    expect(await response.json()).toMatchObject({ sentBy: "sam" });
+  });
+});
+
+describe("createServer with a device secret", () => {
+  it("should let only devices with the secret post and poll", async () => {
+    const server = createServer({
+      auth: null,
+      deviceSecret: "device-secret",
+    }).listen(0);
+    await new Promise((resolve) => server.once("listening", resolve));
+    const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    const device = { Authorization: "Bearer device-secret" };
+
+    try {
+      for (const headers of [{}, { Authorization: "Bearer guess" }]) {
+        expect(
+          (await fetch(`${baseUrl}/api/commands/pending`, { headers })).status,
+        ).toBe(401);
+        expect(
+          (
+            await fetch(`${baseUrl}/api/commands/cmd-1/ack`, {
+              method: "POST",
+              headers,
+            })
+          ).status,
+        ).toBe(401);
+        expect(
+          (
+            await fetch(`${baseUrl}/api/telemetry`, {
+              method: "POST",
+              headers: { "Content-Type": "application/json", ...headers },
+              body: JSON.stringify({ speed: 50 }),
+            })
+          ).status,
+        ).toBe(401);
+      }
+
+      expect(
+        (await fetch(`${baseUrl}/api/commands/pending`, { headers: device }))
+          .status,
+      ).toBe(200);
+      expect(
+        (
+          await fetch(`${baseUrl}/api/commands/cmd-1/ack`, {
+            method: "POST",
+            headers: device,
+          })
+        ).status,
+      ).toBe(404);
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
+
+describe("createServer without auth", () => {
+  it("should stay open and say so", async () => {
+    const server = createServer({ auth: null }).listen(0);
+    await new Promise((resolve) => server.once("listening", resolve));
+    const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    try {
+      expect((await fetch(`${baseUrl}/api/vehicles`)).status).toBe(200);
+      expect(
+        await (await fetch(`${baseUrl}/api/auth/session`)).json(),
+      ).toMatchObject({ enabled: false, user: null });
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,132 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import {
+  USER_ROLES,
+  type AuthSession,
+  type AuthUser,
+  type UserRole,
+} from "../shared/api";
+
+export interface AuthUserRecord extends AuthUser {
+  password: string;
+}
+
+export interface AuthConfig {
+  users: AuthUserRecord[];
+  /** Signs the tokens; they stay valid across restarts only if it is fixed */
+  secret: string;
+  tokenTtlMs: number;
+}
+
+export interface Auth {
+  /** A signed session for matching credentials, otherwise `null` */
+  login: (username: string, password: string) => AuthSession | null;
+  /** The token's user while it is valid and the user still has that role */
+  verify: (token: string) => { user: AuthUser; expiresAt: number } | null;
+}
+
+export const DEFAULT_TOKEN_TTL_MS = 12 * 60 * 60 * 1000;
+
+const isRole = (value: string): value is UserRole =>
+  (USER_ROLES as readonly string[]).includes(value);
+
+/**
+ * Users from `name:password:role` entries separated by commas. Throws on a
+ * malformed entry so a typo does not silently lock someone out.
+ */
+export function parseAuthUsers(value: string): AuthUserRecord[] {
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const first = entry.indexOf(":");
+      const last = entry.lastIndexOf(":");
+      const name = entry.slice(0, first).trim();
+      const password = entry.slice(first + 1, last);
+      const role = entry.slice(last + 1).trim();
+      if (first < 1 || first === last || !password || !isRole(role)) {
+        throw new Error(
+          `Invalid AUTH_USERS entry "${name || entry}": expected name:password:${USER_ROLES.join("|")}`,
+        );
+      }
+      return { name, password, role };
+    });
+}
+
+/**
+ * Auth settings from `AUTH_USERS`, `AUTH_SECRET` and `AUTH_TOKEN_TTL_MS`, or
+ * `null` without users: the dashboard is then open to anyone, as before.
+ */
+export function loadAuthConfig(env = process.env): AuthConfig | null {
+  const users = parseAuthUsers(env.AUTH_USERS ?? "");
+  if (users.length === 0) return null;
+
+  const ttl = Number(env.AUTH_TOKEN_TTL_MS);
+  return {
+    users,
+    // A random secret signs everyone out on restart
+    secret: env.AUTH_SECRET || randomBytes(32).toString("hex"),
+    tokenTtlMs: Number.isFinite(ttl) && ttl > 0 ? ttl : DEFAULT_TOKEN_TTL_MS,
+  };
+}
+
+// Hashing first gives equal lengths, which timingSafeEqual requires
+const safeEqual = (a: string, b: string) =>
+  timingSafeEqual(
+    createHash("sha256").update(a).digest(),
+    createHash("sha256").update(b).digest(),
+  );
+
+/** Whether a device presented the shared `DEVICE_SECRET` */
+export const isDeviceSecret = (secret: string, token: string | null) =>
+  token !== null && safeEqual(secret, token);
+
+/**
+ * Stateless HMAC-signed tokens: `base64url(payload).base64url(signature)`
+ * with the user, role and expiry in the payload.
+ */
+export function createAuth(
+  { users, secret, tokenTtlMs }: AuthConfig,
+  now = Date.now,
+): Auth {
+  const sign = (payload: string) =>
+    createHmac("sha256", secret).update(payload).digest("base64url");
+
+  return {
+    login: (username, password) => {
+      const record = users.find((user) => user.name === username.trim());
+      // Compare against something even for unknown users to keep timing flat
+      const matches = safeEqual(record?.password ?? "", password);
+      if (!record || !matches) return null;
+
+      const user: AuthUser = { name: record.name, role: record.role };
+      const expiresAt = now() + tokenTtlMs;
+      const payload = Buffer.from(
+        JSON.stringify({ sub: user.name, role: user.role, exp: expiresAt }),
+      ).toString("base64url");
+      return { token: `${payload}.${sign(payload)}`, user, expiresAt };
+    },
+
+    verify: (token) => {
+      const [payload, signature, ...rest] = token.split(".");
+      if (!payload || !signature || rest.length > 0) return null;
+      if (!safeEqual(sign(payload), signature)) return null;
+
+      let claims: { sub?: unknown; role?: unknown; exp?: unknown };
+      try {
+        claims = JSON.parse(Buffer.from(payload, "base64url").toString());
+      } catch {
+        return null;
+      }
+      if (typeof claims.exp !== "number" || claims.exp <= now()) return null;
+
+      // Removing a user or changing their role revokes older tokens
+      const record = users.find((user) => user.name === claims.sub);
+      if (!record || record.role !== claims.role) return null;
+      return {
+        user: { name: record.name, role: record.role },
+        expiresAt: claims.exp,
+      };
+    },
+  };
+}
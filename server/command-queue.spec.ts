@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import type { CommandRequest } from "../shared/api";
+import { createCommandQueue } from "./command-queue";
+
+const request = (id: string, vehicleId = "truck-1"): CommandRequest => ({
+  id,
+  vehicleId,
+  command: { type: "buzzer", durationMs: 1000 },
+  sentBy: "Dispatch",
+  sentAt: 1000,
+});
+
+describe("createCommandQueue", () => {
+  it("should queue a command once per id", () => {
+    const queue = createCommandQueue({ now: () => 2000 });
+    expect(queue.submit(request("a")).created).toBe(true);
+    const retry = queue.submit(request("a"));
+
+    expect(retry.created).toBe(false);
+    expect(retry.record).toMatchObject({ status: "queued", receivedAt: 2000 });
+    expect(queue.list()).toHaveLength(1);
+  });
+
+  it("should deliver only a vehicle's queued commands", () => {
+    const queue = createCommandQueue();
+    queue.submit(request("a"));
+    queue.submit(request("b", "bus-9"));
+
+    expect(queue.deliver("truck-1").map((record) => record.id)).toEqual(["a"]);
+    expect(queue.deliver("truck-1")).toEqual([]);
+    expect(queue.get("a").status).toBe("delivered");
+    expect(queue.get("b").status).toBe("queued");
+  });
+
+  it("should record acknowledgements", () => {
+    let time = 1000;
+    const queue = createCommandQueue({ now: () => time });
+    queue.submit(request("a"));
+    time = 3000;
+
+    expect(queue.acknowledge("a")).toMatchObject({
+      status: "acknowledged",
+      deliveredAt: 3000,
+      acknowledgedAt: 3000,
+    });
+    expect(queue.acknowledge("missing")).toBeNull();
+  });
+
+  it("should list newest first and drop the oldest past the limit", () => {
+    const queue = createCommandQueue({ maxRecords: 2 });
+    ["a", "b", "c"].forEach((id) => queue.submit(request(id)));
+
+    expect(queue.list().map((record) => record.id)).toEqual(["c", "b"]);
+    expect(queue.list("bus-9")).toEqual([]);
+  });
+});
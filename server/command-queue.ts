@@ -0,0 +1,77 @@
+import type { CommandRecord, CommandRequest } from "../shared/api";
+
+export interface CommandQueue {
+  /** Queue a command; resubmitting a known id returns the existing record */
+  submit: (request: CommandRequest) => {
+    record: CommandRecord;
+    created: boolean;
+  };
+  /** Hand a vehicle's queued commands to its device, oldest first */
+  deliver: (vehicleId: string) => CommandRecord[];
+  acknowledge: (id: string) => CommandRecord | null;
+  get: (id: string) => CommandRecord | null;
+  /** Audit log, newest first, optionally for one vehicle */
+  list: (vehicleId?: string) => CommandRecord[];
+}
+
+/**
+ * In-memory command queue and audit log. Like the telemetry hub it is lost
+ * on restart; the oldest records are dropped past `maxRecords`.
+ */
+export function createCommandQueue({
+  maxRecords = 500,
+  now = Date.now,
+} = {}): CommandQueue {
+  // Insertion order is submission order
+  const records = new Map<string, CommandRecord>();
+
+  const update = (id: string, patch: Partial<CommandRecord>) => {
+    const record = { ...records.get(id), ...patch };
+    records.set(id, record);
+    return record;
+  };
+
+  return {
+    submit: (request) => {
+      const existing = records.get(request.id);
+      if (existing) return { record: existing, created: false };
+
+      const record: CommandRecord = {
+        ...request,
+        status: "queued",
+        receivedAt: now(),
+        deliveredAt: null,
+        acknowledgedAt: null,
+      };
+      records.set(record.id, record);
+      if (records.size > maxRecords) {
+        records.delete(records.keys().next().value);
+      }
+      return { record, created: true };
+    },
+    deliver: (vehicleId) =>
+      [...records.values()]
+        .filter(
+          (record) =>
+            record.vehicleId === vehicleId && record.status === "queued",
+        )
+        .map((record) =>
+          update(record.id, { status: "delivered", deliveredAt: now() }),
+        ),
+    acknowledge: (id) => {
+      const record = records.get(id);
+      if (!record) return null;
+      if (record.status === "acknowledged") return record;
+      return update(id, {
+        status: "acknowledged",
+        deliveredAt: record.deliveredAt ?? now(),
+        acknowledgedAt: now(),
+      });
+    },
+    get: (id) => records.get(id) ?? null,
+    list: (vehicleId) =>
+      [...records.values()]
+        .filter((record) => !vehicleId || record.vehicleId === vehicleId)
+        .reverse(),
+  };
+}
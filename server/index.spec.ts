@@ -0,0 +1,44 @@
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createServer } from "./index";
+
+describe("createServer", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = createServer({ auth: null }).listen(0);
+    await new Promise((resolve) => server.once("listening", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("should answer a body that does not parse with JSON errors", async () => {
+    const response = await fetch(`${baseUrl}/api/telemetry`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: '{"rpm": 1520,',
+    });
+
+    expect(response.status).toBe(400);
+    expect(response.headers.get("content-type")).toContain("application/json");
+    const body = await response.json();
+    expect(body.errors).toHaveLength(1);
+    expect(body.errors[0]).toMatch(/^body: /);
+    expect(JSON.stringify(body)).not.toContain("node_modules");
+  });
+
+  it("should still accept valid frames", async () => {
+    const response = await fetch(`${baseUrl}/api/telemetry`, {
+      method: "POST",
+      headers: { "Content-Type": "text/plain" },
+      body: '{"rpm": 1520}',
+    });
+
+    expect(response.status).toBe(202);
+  });
+});
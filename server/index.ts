@@ -0,0 +1,89 @@
+import "dotenv/config";
+import express from "express";
+import cors from "cors";
+import { createTelemetryHub } from "./telemetry-hub";
+import {
+  createIngestHandler,
+  createLatestHandler,
+  createVehiclesHandler,
+} from "./routes/telemetry";
+import { createStreamHandler } from "./routes/stream";
+import { createCommandQueue } from "./command-queue";
+import {
+  createAcknowledgeCommandHandler,
+  createListCommandsHandler,
+  createPendingCommandsHandler,
+  createSubmitCommandHandler,
+} from "./routes/commands";
+import { createAuth, loadAuthConfig, type AuthConfig } from "./auth";
+import {
+  createLoginHandler,
+  createSessionHandler,
+  requireDevice,
+  requireRole,
+} from "./routes/auth";
+import { handleRequestErrors } from "./routes/errors";
+
+export interface ServerOptions {
+  /**
+   * Users and token settings; read from the environment when omitted,
+   * `null` leaves the dashboard open
+   */
+  auth?: AuthConfig | null;
+  /**
+   * Bearer token devices post and poll with; `DEVICE_SECRET` when omitted,
+   * `null` leaves the device endpoints open
+   */
+  deviceSecret?: string | null;
+}
+
+export function createServer({
+  auth: authConfig = loadAuthConfig(),
+  deviceSecret = process.env.DEVICE_SECRET || null,
+}: ServerOptions = {}) {
+  const app = express();
+  const hub = createTelemetryHub();
+  const commands = createCommandQueue();
+  const auth = authConfig ? createAuth(authConfig) : null;
+  const viewer = requireRole(auth, "viewer");
+  const supervisor = requireRole(auth, "supervisor");
+  const device = requireDevice(deviceSecret);
+
+  // Middleware
+  app.use(cors());
+  // ESP32 HTTP clients frequently post JSON without a JSON content type
+  app.use(express.json({ type: ["application/json", "text/plain"] }));
+  app.use(express.urlencoded({ extended: true }));
+
+  // API routes
+  app.get("/api/ping", (_req, res) => {
+    const ping = process.env.PING_MESSAGE ?? "ping";
+    res.json({ message: ping, subscribers: hub.subscriberCount() });
+  });
+
+  app.post("/api/auth/login", createLoginHandler(auth));
+  app.get("/api/auth/session", createSessionHandler(auth));
+
+  // Devices post and poll with the device secret instead of a user
+  app.post("/api/telemetry", device, createIngestHandler(hub));
+  app.get("/api/telemetry/latest", viewer, createLatestHandler(hub));
+  app.get("/api/vehicles", viewer, createVehiclesHandler(hub));
+  app.get("/dashboard/stream", viewer, createStreamHandler(hub));
+
+  app.post("/api/commands", supervisor, createSubmitCommandHandler(commands));
+  app.get("/api/commands", viewer, createListCommandsHandler(commands));
+  app.get(
+    "/api/commands/pending",
+    device,
+    createPendingCommandsHandler(commands),
+  );
+  app.post(
+    "/api/commands/:id/ack",
+    device,
+    createAcknowledgeCommandHandler(commands),
+  );
+
+  app.use(handleRequestErrors);
+
+  return app;
+}
@@ -0,0 +1,31 @@
+import path from "path";
+import express from "express";
+import { createServer } from "./index";
+
+const app = createServer();
+const port = process.env.PORT || 3000;
+
+// In production, serve the built SPA files
+const __dirname = import.meta.dirname;
+const distPath = path.join(__dirname, "../spa");
+
+app.use(express.static(distPath));
+
+// Handle React Router - serve index.html for all non-API routes
+app.get("/{*splat}", (req, res) => {
+  if (req.path.startsWith("/api/") || req.path.startsWith("/dashboard/")) {
+    res.status(404).json({ error: "Endpoint not found" });
+    return;
+  }
+  res.sendFile(path.join(distPath, "index.html"));
+});
+
+app.listen(port, () => {
+  console.log(`🚗 Telemetry server running on port ${port}`);
+  console.log(`📱 Frontend: http://localhost:${port}`);
+  console.log(`📡 Stream: http://localhost:${port}/dashboard/stream`);
+});
+
+// Graceful shutdown
+process.on("SIGTERM", () => process.exit(0));
+process.on("SIGINT", () => process.exit(0));
@@ -0,0 +1,98 @@
+import { RequestHandler, Request } from "express";
+import {
+  hasRole,
+  loginRequestSchema,
+  type AuthStatus,
+  type UserRole,
+} from "../../shared/api";
+import { isDeviceSecret, type Auth } from "../auth";
+
+/**
+ * Bearer token, or the `access_token` query param for EventSource, which
+ * cannot set headers.
+ */
+export function getRequestToken(req: Request): string | null {
+  const header = req.header("Authorization");
+  if (header?.startsWith("Bearer ")) return header.slice(7).trim() || null;
+  const query = req.query.access_token;
+  return typeof query === "string" && query ? query : null;
+}
+
+/**
+ * Lets the request through with at least `role`, keeping the user in
+ * `res.locals.user`. Passes everything when auth is disabled.
+ */
+export const requireRole =
+  (auth: Auth | null, role: UserRole): RequestHandler =>
+  (req, res, next) => {
+    if (!auth) {
+      next();
+      return;
+    }
+
+    const token = getRequestToken(req);
+    const session = token ? auth.verify(token) : null;
+    if (!session) {
+      res.status(401).json({ errors: ["Sign in required"] });
+      return;
+    }
+    if (!hasRole(session.user.role, role)) {
+      res.status(403).json({ errors: [`Requires the ${role} role`] });
+      return;
+    }
+    res.locals.user = session.user;
+    next();
+  };
+
+/**
+ * Lets devices through with the shared secret as their bearer token.
+ * Passes everything when no secret is configured.
+ */
+export const requireDevice =
+  (secret: string | null): RequestHandler =>
+  (req, res, next) => {
+    if (!secret || isDeviceSecret(secret, getRequestToken(req))) {
+      next();
+      return;
+    }
+    res.status(401).json({ errors: ["Device secret required"] });
+  };
+
+/**
+ * POST /api/auth/login — exchanges a username and password for a token.
+ */
+export const createLoginHandler =
+  (auth: Auth | null): RequestHandler =>
+  (req, res) => {
+    if (!auth) {
+      res.status(404).json({ errors: ["Authentication is disabled"] });
+      return;
+    }
+
+    const result = loginRequestSchema.safeParse(req.body);
+    const session = result.success
+      ? auth.login(result.data.username, result.data.password)
+      : null;
+    if (!session) {
+      res.status(401).json({ errors: ["Invalid username or password"] });
+      return;
+    }
+    res.json(session);
+  };
+
+/**
+ * GET /api/auth/session — whether sign-in is required and who the token
+ * belongs to. Never fails, so the dashboard can ask before signing in.
+ */
+export const createSessionHandler =
+  (auth: Auth | null): RequestHandler =>
+  (req, res) => {
+    const token = getRequestToken(req);
+    const session = auth && token ? auth.verify(token) : null;
+    const status: AuthStatus = {
+      enabled: auth !== null,
+      user: session?.user ?? null,
+      expiresAt: session?.expiresAt ?? null,
+    };
+    res.json(status);
+  };
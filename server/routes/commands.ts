@@ -0,0 +1,67 @@
+import { RequestHandler } from "express";
+import {
+  DEFAULT_VEHICLE_ID,
+  parseCommandRequest,
+  type AuthUser,
+} from "../../shared/api";
+import type { CommandQueue } from "../command-queue";
+
+const vehicleQuery = (value: unknown) =>
+  typeof value === "string" && value ? value : undefined;
+
+/**
+ * POST /api/commands — the dashboard queues a command for a vehicle.
+ * Resubmitting the same id (a retry) answers with the existing record.
+ * A signed-in user is recorded as the sender, whatever the request says.
+ */
+export const createSubmitCommandHandler =
+  (queue: CommandQueue): RequestHandler =>
+  (req, res) => {
+    const { request, errors } = parseCommandRequest(req.body);
+    if (!request) {
+      res.status(400).json({ errors });
+      return;
+    }
+
+    const user: AuthUser | undefined = res.locals.user;
+    const { record, created } = queue.submit(
+      user ? { ...request, sentBy: user.name } : request,
+    );
+    res.status(created ? 202 : 200).json(record);
+  };
+
+/**
+ * GET /api/commands — audit log of sent commands, newest first.
+ * `?vehicleId=` limits it to one vehicle.
+ */
+export const createListCommandsHandler =
+  (queue: CommandQueue): RequestHandler =>
+  (req, res) => {
+    res.json(queue.list(vehicleQuery(req.query.vehicleId)));
+  };
+
+/**
+ * GET /api/commands/pending?vehicleId= — devices poll for their queued
+ * commands. Returned commands count as delivered.
+ */
+export const createPendingCommandsHandler =
+  (queue: CommandQueue): RequestHandler =>
+  (req, res) => {
+    res.json(
+      queue.deliver(vehicleQuery(req.query.vehicleId) ?? DEFAULT_VEHICLE_ID),
+    );
+  };
+
+/**
+ * POST /api/commands/:id/ack — the device reports a command carried out.
+ */
+export const createAcknowledgeCommandHandler =
+  (queue: CommandQueue): RequestHandler =>
+  (req, res) => {
+    const record = queue.acknowledge(String(req.params.id));
+    if (!record) {
+      res.status(404).json({ errors: ["Unknown command"] });
+      return;
+    }
+    res.json(record);
+  };
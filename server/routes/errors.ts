@@ -0,0 +1,27 @@
+import { ErrorRequestHandler } from "express";
+
+/**
+ * Errors raised before a route runs, mostly bodies that do not parse, as
+ * JSON `{ errors }` like the routes' own validation errors rather than
+ * Express's HTML page with a stack trace.
+ */
+export const handleRequestErrors: ErrorRequestHandler = (
+  err,
+  _req,
+  res,
+  next,
+) => {
+  if (res.headersSent) {
+    next(err);
+    return;
+  }
+
+  // Body parser errors carry a 4xx status and a message safe to show
+  const status = Number(err?.status ?? err?.statusCode);
+  if (err?.expose && status >= 400 && status < 500) {
+    res.status(status).json({ errors: [`body: ${err.message}`] });
+    return;
+  }
+  console.error("Request failed:", err);
+  res.status(500).json({ errors: ["Internal server error"] });
+};
@@ -0,0 +1,52 @@
+import { RequestHandler } from "express";
+import { getVehicleId } from "../../shared/api";
+import type { TelemetryEvent, TelemetryHub } from "../telemetry-hub";
+
+const HEARTBEAT_INTERVAL = 15000;
+const CLIENT_RETRY_MS = 3000;
+
+const formatEvent = (event: TelemetryEvent) =>
+  `id: ${event.id}\ndata: ${JSON.stringify(event.frame)}\n\n`;
+
+/**
+ * GET /dashboard/stream — Server-Sent Events feed of ingested frames.
+ * Resumes after `Last-Event-ID` (header or `lastEventId` query param).
+ * `?vehicleId=` limits the feed to one vehicle.
+ */
+export const createStreamHandler =
+  (hub: TelemetryHub): RequestHandler =>
+  (req, res) => {
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+    res.write(`retry: ${CLIENT_RETRY_MS}\n\n`);
+
+    const vehicleId =
+      typeof req.query.vehicleId === "string" ? req.query.vehicleId : null;
+    const send = (event: TelemetryEvent) => {
+      if (vehicleId && getVehicleId(event.frame) !== vehicleId) return;
+      res.write(formatEvent(event));
+    };
+
+    const resumeFrom = Number(
+      req.header("Last-Event-ID") ?? req.query.lastEventId,
+    );
+    if (Number.isFinite(resumeFrom)) {
+      hub.since(resumeFrom).forEach(send);
+    }
+
+    const unsubscribe = hub.subscribe(send);
+    // Comments keep proxies from closing an idle connection
+    const heartbeat = setInterval(
+      () => res.write(": ping\n\n"),
+      HEARTBEAT_INTERVAL,
+    );
+
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  };
@@ -0,0 +1,46 @@
+import { RequestHandler } from "express";
+import { parseTelemetryFrame } from "../../shared/api";
+import type { TelemetryHub } from "../telemetry-hub";
+
+/**
+ * POST /api/telemetry — ESP32 devices push one frame per request.
+ * Invalid fields are dropped and reported back; the rest is broadcast.
+ */
+export const createIngestHandler =
+  (hub: TelemetryHub): RequestHandler =>
+  (req, res) => {
+    const { frame, errors } = parseTelemetryFrame(req.body);
+    if (!frame || Object.keys(frame).length === 0) {
+      res.status(400).json({ errors });
+      return;
+    }
+
+    const event = hub.publish(frame);
+    res.status(202).json({ id: event.id, errors });
+  };
+
+/**
+ * GET /api/telemetry/latest — last ingested frame, for health checks.
+ * `?vehicleId=` returns the last frame of that vehicle.
+ */
+export const createLatestHandler =
+  (hub: TelemetryHub): RequestHandler =>
+  (req, res) => {
+    const latest = hub.latest(
+      typeof req.query.vehicleId === "string" ? req.query.vehicleId : undefined,
+    );
+    if (!latest) {
+      res.status(204).end();
+      return;
+    }
+    res.json(latest);
+  };
+
+/**
+ * GET /api/vehicles — last event of every vehicle, for the fleet overview.
+ */
+export const createVehiclesHandler =
+  (hub: TelemetryHub): RequestHandler =>
+  (_req, res) => {
+    res.json(hub.vehicles());
+  };
@@ -0,0 +1,41 @@
+import { describe, it, expect, vi } from "vitest";
+import { createTelemetryHub } from "./telemetry-hub";
+
+describe("createTelemetryHub", () => {
+  it("should fan out published frames to every subscriber", () => {
+    const hub = createTelemetryHub();
+    const first = vi.fn();
+    const second = vi.fn();
+    hub.subscribe(first);
+    const unsubscribe = hub.subscribe(second);
+
+    hub.publish({ rpm: 100 });
+    unsubscribe();
+    hub.publish({ rpm: 200 });
+
+    expect(first).toHaveBeenCalledTimes(2);
+    expect(second).toHaveBeenCalledTimes(1);
+    expect(hub.subscriberCount()).toBe(1);
+  });
+
+  it("should replay buffered events after a given id", () => {
+    const hub = createTelemetryHub({ bufferSize: 3 });
+    [1, 2, 3, 4].forEach((rpm) => hub.publish({ rpm }));
+
+    expect(hub.since(0).map((event) => event.id)).toEqual([2, 3, 4]);
+    expect(hub.since(3).map((event) => event.frame)).toEqual([{ rpm: 4 }]);
+    expect(hub.latest()?.id).toBe(4);
+  });
+
+  it("should keep the last event of every vehicle", () => {
+    const hub = createTelemetryHub({ bufferSize: 1 });
+    hub.publish({ vehicleId: "truck-1", rpm: 100 });
+    hub.publish({ rpm: 200 });
+    hub.publish({ vehicleId: "truck-1", rpm: 300 });
+
+    expect(hub.latest("truck-1")?.frame.rpm).toBe(300);
+    expect(hub.latest("default")?.frame.rpm).toBe(200);
+    expect(hub.latest("bus-9")).toBeNull();
+    expect(hub.vehicles().map((event) => event.id)).toEqual([3, 2]);
+  });
+});
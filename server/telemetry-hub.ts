@@ -0,0 +1,55 @@
+import { getVehicleId, type TelemetryFrame } from "../shared/api";
+
+export interface TelemetryEvent {
+  id: number;
+  receivedAt: number;
+  frame: TelemetryFrame;
+}
+
+type Listener = (event: TelemetryEvent) => void;
+
+export interface TelemetryHub {
+  publish: (frame: TelemetryFrame) => TelemetryEvent;
+  subscribe: (listener: Listener) => () => void;
+  /** Buffered events newer than `lastEventId`, oldest first */
+  since: (lastEventId: number) => TelemetryEvent[];
+  /** Last event overall, or of one vehicle */
+  latest: (vehicleId?: string) => TelemetryEvent | null;
+  /** Last event of every vehicle seen since the server started */
+  vehicles: () => TelemetryEvent[];
+  subscriberCount: () => number;
+}
+
+/**
+ * In-memory fan-out of ingested frames to every connected dashboard. A short
+ * replay buffer lets reconnecting clients resume via Last-Event-ID.
+ */
+export function createTelemetryHub({ bufferSize = 200 } = {}): TelemetryHub {
+  const buffer: TelemetryEvent[] = [];
+  const listeners = new Set<Listener>();
+  // Kept outside the ring buffer so quiet vehicles still show when last seen
+  const latestByVehicle = new Map<string, TelemetryEvent>();
+  let nextId = 1;
+
+  return {
+    publish: (frame) => {
+      const event = { id: nextId++, receivedAt: Date.now(), frame };
+      buffer.push(event);
+      if (buffer.length > bufferSize) buffer.shift();
+      latestByVehicle.set(getVehicleId(frame), event);
+      listeners.forEach((listener) => listener(event));
+      return event;
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    since: (lastEventId) => buffer.filter((event) => event.id > lastEventId),
+    latest: (vehicleId) =>
+      vehicleId === undefined
+        ? (buffer[buffer.length - 1] ?? null)
+        : (latestByVehicle.get(vehicleId) ?? null),
+    vehicles: () => [...latestByVehicle.values()],
+    subscriberCount: () => listeners.size,
+  };
+}
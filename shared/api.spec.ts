@@ -0,0 +1,151 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseCommandRequest,
+  parseTelemetryFrame,
+  parseTelemetryMessage,
+} from "./api";
+
+describe("parseTelemetryFrame", () => {
+  it("should normalize rpm strings and device flags", () => {
+    const { frame, errors } = parseTelemetryFrame({
+      rpm: "1520",
+      eyeDrowsy: 0,
+      steerInactive: "true",
+      rolloverDetected: false,
+    });
+    expect(errors).toEqual([]);
+    expect(frame).toEqual({
+      rpm: 1520,
+      eyeDrowsy: false,
+      steerInactive: true,
+      rolloverDetected: false,
+    });
+  });
+
+  it("should keep valid fields and report the ones that failed", () => {
+    const { frame, errors } = parseTelemetryFrame({
+      rpm: "fast",
+      speed: 900,
+      eyeDrowsy: true,
+    });
+    expect(frame).toEqual({ eyeDrowsy: true });
+    expect(errors.map((error) => error.field)).toEqual(["rpm", "speed"]);
+  });
+
+  it("should preserve explicit nulls as unavailable readings", () => {
+    expect(parseTelemetryFrame({ rpm: null }).frame).toEqual({ rpm: null });
+  });
+
+  it("should accept a vehicle id sent as deviceId", () => {
+    const { frame, errors } = parseTelemetryFrame({ deviceId: 42, rpm: 100 });
+    expect(errors).toEqual([]);
+    expect(frame).toEqual({ vehicleId: "42", rpm: 100 });
+  });
+
+  it("should drop vehicle ids that cannot be used in a URL", () => {
+    const { frame, errors } = parseTelemetryFrame({
+      vehicleId: "truck 7/a",
+      rpm: 100,
+    });
+    expect(frame).toEqual({ rpm: 100 });
+    expect(errors[0].field).toBe("vehicleId");
+  });
+
+  it("should range-check the newer sensor channels", () => {
+    const { frame, errors } = parseTelemetryFrame({
+      temperature: "87.5",
+      batteryVoltage: 12.6,
+      seatbelt: 1,
+      latitude: 91,
+      accelY: -0.4,
+    });
+    expect(frame).toEqual({
+      temperature: 87.5,
+      batteryVoltage: 12.6,
+      seatbelt: true,
+      accelY: -0.4,
+    });
+    expect(errors.map((error) => error.field)).toEqual(["latitude"]);
+  });
+
+  it("should accept short accelerometer names", () => {
+    const { frame } = parseTelemetryFrame({ ax: "0.2", ay: -0.1, accelZ: 1 });
+    expect(frame).toEqual({ accelX: 0.2, accelY: -0.1, accelZ: 1 });
+  });
+
+  it("should keep unknown primitive fields as extras", () => {
+    const { frame, errors } = parseTelemetryFrame({
+      rpm: 100,
+      tirePressure: 2.4,
+      cabin: "x".repeat(500),
+      gps: { fix: true },
+      extra: { oilLevel: "low" },
+    });
+    expect(errors).toEqual([]);
+    expect(frame).toEqual({
+      rpm: 100,
+      extra: { oilLevel: "low", tirePressure: 2.4, cabin: "x".repeat(128) },
+    });
+  });
+
+  it("should cap the number of extras", () => {
+    const raw = Object.fromEntries(
+      Array.from({ length: 40 }, (_, i) => [`sensor${i}`, i]),
+    );
+    const { frame, errors } = parseTelemetryFrame(raw);
+    expect(Object.keys(frame.extra)).toHaveLength(32);
+    expect(errors[0].field).toBe("extra");
+  });
+
+  it("should reject unsupported schema versions", () => {
+    const { frame, errors } = parseTelemetryFrame({ v: 2, rpm: 100 });
+    expect(frame).toBeNull();
+    expect(errors[0].field).toBe("v");
+  });
+
+  it("should reject payloads that are not objects", () => {
+    expect(parseTelemetryFrame([1, 2]).frame).toBeNull();
+    expect(parseTelemetryFrame("rpm").errors[0].field).toBe("frame");
+  });
+});
+
+describe("parseTelemetryMessage", () => {
+  it("should report invalid JSON as a frame error", () => {
+    const { frame, errors } = parseTelemetryMessage("{rpm:");
+    expect(frame).toBeNull();
+    expect(errors[0]).toMatchObject({
+      field: "frame",
+      message: "Invalid JSON",
+    });
+  });
+});
+
+describe("parseCommandRequest", () => {
+  const request = {
+    id: "cmd-1",
+    vehicleId: "truck-1",
+    command: { type: "buzzer", durationMs: 2000 },
+    sentBy: "Dispatch",
+    sentAt: 1700000000000,
+  };
+
+  it("should accept a typed command", () => {
+    expect(parseCommandRequest(request)).toEqual({ request, errors: null });
+  });
+
+  it("should report what is wrong with a command", () => {
+    const { request: parsed, errors } = parseCommandRequest({
+      ...request,
+      command: { type: "message", text: "x".repeat(65) },
+    });
+    expect(parsed).toBeNull();
+    expect(errors).toEqual([expect.stringMatching(/^command\.text:/)]);
+  });
+
+  it("should reject unknown command types", () => {
+    expect(
+      parseCommandRequest({ ...request, command: { type: "selfDestruct" } })
+        .errors,
+    ).toHaveLength(1);
+  });
+});
@@ -3,10 +3,424 @@
  * Useful to share types between client and server
  * and/or small pure JS functions that can be used on both client and server
  */
+import { z } from "zod";
 
 /**
- * Example response type for /api/demo
+ * Version of the telemetry frame format. Devices may send it as `v`;
+ * frames without it are treated as the current version.
  */
-export interface DemoResponse {
+export const TELEMETRY_SCHEMA_VERSION = 1;
+
+// ESP32 firmware sends numbers as strings ("1520") and flags as 0/1
+const numeric = (min: number, max: number) =>
+  z.preprocess(
+    (value) =>
+      typeof value === "string" && value.trim() !== "" ? Number(value) : value,
+    z.number().finite().min(min).max(max),
+  );
+
+const flag = z.preprocess((value) => {
+  if (value === 0 || value === "0" || value === "false") return false;
+  if (value === 1 || value === "1" || value === "true") return true;
+  return value;
+}, z.boolean());
+
+// Values outside `min`-`max` are treated as sensor glitches, not readings
+const numberMetric = (label: string, unit: string, min: number, max: number) =>
+  ({
+    label,
+    unit,
+    kind: "number",
+    min,
+    max,
+    parser: numeric(min, max),
+  }) as const;
+
+const flagMetric = (label: string) =>
+  ({ label, unit: "", kind: "flag", parser: flag }) as const;
+
+/**
+ * Every sensor channel a frame can carry. Validation, the frame type, the
+ * client's cards, history, charts and exports are all derived from this
+ * list; the client adds how each one is shown in `client/lib/metrics.ts`.
+ * Fields are validated independently so one broken sensor does not discard
+ * the rest of the frame.
+ */
+export const TELEMETRY_METRICS = {
+  eyeDrowsy: flagMetric("Drowsy"),
+  steerInactive: flagMetric("Steering inactive"),
+  rolloverDetected: flagMetric("Rollover detected"),
+  rpm: numberMetric("Engine RPM", "rpm", 0, 20000),
+  speed: numberMetric("Speed", "km/h", 0, 400),
+  temperature: numberMetric("Temperature", "°C", -40, 150),
+  batteryVoltage: numberMetric("Battery voltage", "V", 0, 60),
+  seatbelt: flagMetric("Seatbelt fastened"),
+  latitude: numberMetric("Latitude", "°", -90, 90),
+  longitude: numberMetric("Longitude", "°", -180, 180),
+  // Direction of travel, clockwise from north
+  heading: numberMetric("Heading", "°", 0, 360),
+  // Body frame: X forward, Y to the right, Z up (about 1 g at rest)
+  accelX: numberMetric("Acceleration X", "g", -16, 16),
+  accelY: numberMetric("Acceleration Y", "g", -16, 16),
+  accelZ: numberMetric("Acceleration Z", "g", -16, 16),
+  // Right side down and nose up are positive
+  roll: numberMetric("Roll", "°", -180, 180),
+  pitch: numberMetric("Pitch", "°", -90, 90),
+};
+
+export type TelemetryField = keyof typeof TELEMETRY_METRICS;
+
+export const TELEMETRY_FIELDS = Object.keys(
+  TELEMETRY_METRICS,
+) as TelemetryField[];
+
+export type TelemetryMetric = (typeof TELEMETRY_METRICS)[TelemetryField];
+
+/** Fields that are not telemetry channels */
+const FRAME_KEYS = ["v", "vehicleId", "deviceId", "extra"];
+
+/** Short names IMU firmware may send instead; the full name wins */
+const FIELD_ALIASES: Partial<Record<TelemetryField, string>> = {
+  accelX: "ax",
+  accelY: "ay",
+  accelZ: "az",
+};
+
+/**
+ * Fields the dashboard does not know are kept as `extra` so they can still
+ * be shown, within these bounds.
+ */
+export const EXTRA_FIELD_LIMITS = {
+  count: 32,
+  nameLength: 64,
+  textLength: 128,
+} as const;
+
+export type ExtraValue = string | number | boolean | null;
+
+/**
+ * Identifies the vehicle (or the ESP32 device in it) a frame came from.
+ * Devices may send it as `vehicleId` or `deviceId`.
+ */
+export const vehicleIdSchema = z.preprocess(
+  (value) => (typeof value === "number" ? String(value) : value),
+  z
+    .string()
+    .trim()
+    .min(1)
+    .max(64)
+    .regex(/^[\w.:-]+$/, "Only letters, digits, _ . : - are allowed"),
+);
+
+/** Frames without a vehicle id belong to this vehicle */
+export const DEFAULT_VEHICLE_ID = "default";
+
+/**
+ * A normalized telemetry frame. `null` means the device reported the field
+ * as unavailable; a missing key means it was not sent or failed validation.
+ */
+export type TelemetryFrame = {
+  v?: number;
+  vehicleId?: string;
+  /** Fields not in `TELEMETRY_METRICS`, by the name the device sent */
+  extra?: Record<string, ExtraValue>;
+} & {
+  [K in TelemetryField]?: z.output<
+    (typeof TELEMETRY_METRICS)[K]["parser"]
+  > | null;
+};
+
+export interface TelemetryFieldError {
+  /** Field name, or `"frame"` when the payload as a whole is unusable */
+  field: TelemetryField | "v" | "vehicleId" | "extra" | "frame";
   message: string;
+  value: unknown;
+}
+
+export interface TelemetryParseResult {
+  /** Valid fields of the frame, or `null` when nothing could be used */
+  frame: TelemetryFrame | null;
+  errors: TelemetryFieldError[];
+}
+
+/**
+ * Validate and normalize a decoded telemetry payload field by field.
+ */
+export function parseTelemetryFrame(input: unknown): TelemetryParseResult {
+  if (input === null || typeof input !== "object" || Array.isArray(input)) {
+    return {
+      frame: null,
+      errors: [{ field: "frame", message: "Expected an object", value: input }],
+    };
+  }
+
+  const raw = input as Record<string, unknown>;
+  if (raw.v != null && raw.v !== TELEMETRY_SCHEMA_VERSION) {
+    return {
+      frame: null,
+      errors: [
+        {
+          field: "v",
+          message: `Unsupported schema version (expected ${TELEMETRY_SCHEMA_VERSION})`,
+          value: raw.v,
+        },
+      ],
+    };
+  }
+
+  const frame: Record<string, unknown> = {};
+  const errors: TelemetryFieldError[] = [];
+
+  const vehicleId = raw.vehicleId ?? raw.deviceId;
+  if (vehicleId != null) {
+    const result = vehicleIdSchema.safeParse(vehicleId);
+    if (result.success) {
+      frame.vehicleId = result.data;
+    } else {
+      errors.push({
+        field: "vehicleId",
+        message: result.error.issues[0]?.message ?? "Invalid value",
+        value: vehicleId,
+      });
+    }
+  }
+
+  for (const field of TELEMETRY_FIELDS) {
+    const alias = FIELD_ALIASES[field];
+    const value =
+      raw[field] === undefined && alias !== undefined ? raw[alias] : raw[field];
+    if (value === undefined) continue;
+    if (value === null) {
+      frame[field] = null;
+      continue;
+    }
+
+    const result = TELEMETRY_METRICS[field].parser.safeParse(value);
+    if (result.success) {
+      frame[field] = result.data;
+    } else {
+      errors.push({
+        field,
+        message: result.error.issues[0]?.message ?? "Invalid value",
+        value,
+      });
+    }
+  }
+
+  const extra = parseExtraFields(raw, errors);
+  if (extra) frame.extra = extra;
+
+  return { frame: frame as TelemetryFrame, errors };
 }
+
+const hasOwn = (object: object, key: string) =>
+  Object.prototype.hasOwnProperty.call(object, key);
+
+const isExtraValue = (value: unknown): value is ExtraValue =>
+  value === null ||
+  typeof value === "boolean" ||
+  (typeof value === "number" && Number.isFinite(value)) ||
+  typeof value === "string";
+
+// Unknown top-level fields, plus an `extra` object from exported frames
+function parseExtraFields(
+  raw: Record<string, unknown>,
+  errors: TelemetryFieldError[],
+): Record<string, ExtraValue> | null {
+  const nested =
+    raw.extra !== null &&
+    typeof raw.extra === "object" &&
+    !Array.isArray(raw.extra)
+      ? (raw.extra as Record<string, unknown>)
+      : {};
+  const candidates = [
+    ...Object.entries(nested),
+    ...Object.entries(raw).filter(
+      ([name]) =>
+        !FRAME_KEYS.includes(name) &&
+        !hasOwn(TELEMETRY_METRICS, name) &&
+        !Object.values(FIELD_ALIASES).includes(name),
+    ),
+  ];
+
+  const extra: Record<string, ExtraValue> = {};
+  let count = 0;
+  for (const [name, value] of candidates) {
+    if (
+      name.length > EXTRA_FIELD_LIMITS.nameLength ||
+      name === "__proto__" ||
+      !isExtraValue(value) ||
+      hasOwn(extra, name)
+    ) {
+      continue;
+    }
+    if (count === EXTRA_FIELD_LIMITS.count) {
+      errors.push({
+        field: "extra",
+        message: `More than ${EXTRA_FIELD_LIMITS.count} unknown fields`,
+        value: name,
+      });
+      break;
+    }
+    extra[name] =
+      typeof value === "string"
+        ? value.slice(0, EXTRA_FIELD_LIMITS.textLength)
+        : value;
+    count++;
+  }
+  return count > 0 ? extra : null;
+}
+
+export const getVehicleId = (frame: TelemetryFrame) =>
+  frame.vehicleId ?? DEFAULT_VEHICLE_ID;
+
+/**
+ * Decode and validate a raw stream message (the `data` of an SSE event).
+ */
+export function parseTelemetryMessage(data: string): TelemetryParseResult {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(data);
+  } catch {
+    return {
+      frame: null,
+      errors: [{ field: "frame", message: "Invalid JSON", value: data }],
+    };
+  }
+  return parseTelemetryFrame(decoded);
+}
+
+/**
+ * Commands the dashboard can send back to a vehicle's device. The ESP32
+ * polls for queued commands and acknowledges each one it has carried out.
+ */
+export type VehicleCommand =
+  /** Tell the driver a supervisor has seen the alert */
+  | { type: "acknowledgeAlert"; ruleId: string; alertName: string }
+  /** Sound the in-cab buzzer */
+  | { type: "buzzer"; durationMs: number }
+  /** Show a short text on the in-cab display */
+  | { type: "message"; text: string };
+
+export type VehicleCommandType = VehicleCommand["type"];
+
+export const COMMAND_LIMITS = {
+  buzzerMs: { min: 100, max: 10000 },
+  // Fits a 4x16 character display
+  messageLength: 64,
+} as const;
+
+export const vehicleCommandSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("acknowledgeAlert"),
+    ruleId: z.string().min(1).max(64),
+    alertName: z.string().min(1).max(COMMAND_LIMITS.messageLength),
+  }),
+  z.object({
+    type: z.literal("buzzer"),
+    durationMs: z
+      .number()
+      .int()
+      .min(COMMAND_LIMITS.buzzerMs.min)
+      .max(COMMAND_LIMITS.buzzerMs.max),
+  }),
+  z.object({
+    type: z.literal("message"),
+    text: z.string().trim().min(1).max(COMMAND_LIMITS.messageLength),
+  }),
+]);
+
+/** A command as submitted by the dashboard */
+export interface CommandRequest {
+  /** Chosen by the sender so retried submissions are not queued twice */
+  id: string;
+  vehicleId: string;
+  command: VehicleCommand;
+  /** Who sent the command, for the audit log */
+  sentBy: string;
+  /** Epoch ms when the sender issued the command */
+  sentAt: number;
+}
+
+export const commandRequestSchema = z.object({
+  id: vehicleIdSchema,
+  vehicleId: vehicleIdSchema,
+  command: vehicleCommandSchema,
+  sentBy: z.string().trim().min(1).max(64),
+  sentAt: z.number().int().positive(),
+});
+
+/**
+ * `queued` until the device polls for it, `delivered` once handed over,
+ * `acknowledged` when the device reports it carried it out.
+ */
+export type CommandStatus = "queued" | "delivered" | "acknowledged";
+
+/** A command with its delivery state, as kept in the server's audit log */
+export interface CommandRecord extends CommandRequest {
+  status: CommandStatus;
+  receivedAt: number;
+  deliveredAt: number | null;
+  acknowledgedAt: number | null;
+}
+
+export type CommandParseResult =
+  | { request: CommandRequest; errors: null }
+  | { request: null; errors: string[] };
+
+export function parseCommandRequest(input: unknown): CommandParseResult {
+  const result = commandRequestSchema.safeParse(input);
+  if (result.success) {
+    return { request: result.data as CommandRequest, errors: null };
+  }
+  return {
+    request: null,
+    errors: result.error.issues.map(
+      (issue) => `${issue.path.join(".") || "request"}: ${issue.message}`,
+    ),
+  };
+}
+
+/**
+ * Dashboard roles, least privileged first; each role may do everything the
+ * roles before it may. Viewers watch, supervisors also send commands and
+ * export data, admins also change settings.
+ */
+export const USER_ROLES = ["viewer", "supervisor", "admin"] as const;
+
+export type UserRole = (typeof USER_ROLES)[number];
+
+export const hasRole = (role: UserRole | null, required: UserRole) =>
+  role !== null && USER_ROLES.indexOf(role) >= USER_ROLES.indexOf(required);
+
+export interface AuthUser {
+  name: string;
+  role: UserRole;
+}
+
+/** POST /api/auth/login response */
+export interface AuthSession {
+  /** Sent as `Authorization: Bearer` or the stream's `access_token` */
+  token: string;
+  user: AuthUser;
+  /** Epoch ms after which the token is refused */
+  expiresAt: number;
+}
+
+/**
+ * GET /api/auth/session response. `enabled` is false when the server runs
+ * without users, in which case everything is open.
+ */
+export interface AuthStatus {
+  enabled: boolean;
+  /** The token's user, `null` without a valid token */
+  user: AuthUser | null;
+  expiresAt: number | null;
+}
+
+export const loginRequestSchema = z.object({
+  username: z.string().trim().min(1).max(64),
+  password: z.string().min(1).max(256),
+});
+
+export type LoginRequest = z.infer<typeof loginRequestSchema>;
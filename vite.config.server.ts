@@ -0,0 +1,51 @@
+import { defineConfig } from "vite";
+import path from "path";
+
+// Server build configuration
+export default defineConfig({
+  build: {
+    lib: {
+      entry: path.resolve(__dirname, "server/node-build.ts"),
+      name: "server",
+      fileName: "production",
+      formats: ["es"],
+    },
+    outDir: "dist/server",
+    target: "node20",
+    ssr: true,
+    rollupOptions: {
+      external: [
+        // Node.js built-ins
+        "fs",
+        "path",
+        "url",
+        "http",
+        "https",
+        "os",
+        "crypto",
+        "stream",
+        "util",
+        "events",
+        "buffer",
+        "querystring",
+        "child_process",
+        // External dependencies that should not be bundled
+        "express",
+        "cors",
+        "dotenv",
+      ],
+      output: {
+        format: "es",
+        entryFileNames: "[name].mjs",
+      },
+    },
+    minify: false,
+    sourcemap: true,
+  },
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "./client"),
+      "@shared": path.resolve(__dirname, "./shared"),
+    },
+  },
+});
@@ -1,6 +1,9 @@
-import { defineConfig } from "vite";
+import { defineConfig, Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
+import { createHash } from "crypto";
+import { readFile, writeFile } from "fs/promises";
+import { createServer } from "./server";
 
 export default defineConfig({
   server: {
@@ -8,13 +11,13 @@ export default defineConfig({
     port: 8080,
     fs: {
       allow: ["./","./client", "./shared"],
-      deny: [".env", ".env.*", "*.{crt,pem}", "**/.git/**"],
+      deny: [".env", ".env.*", "*.{crt,pem}", "**/.git/**", "server/**"],
     },
   },
   build: {
     outDir: "dist/spa",
   },
-  plugins: [react()],
+  plugins: [react(), expressPlugin(), assetManifestPlugin()],
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./client"),
@@ -22,3 +25,45 @@ export default defineConfig({
     },
   },
 });
+
+function expressPlugin(): Plugin {
+  return {
+    name: "express-plugin",
+    apply: "serve", // Only apply during development (serve mode)
+    configureServer(server) {
+      const app = createServer();
+
+      // Add Express app as middleware to Vite dev server
+      server.middlewares.use(app);
+    },
+  };
+}
+
+function assetManifestPlugin(): Plugin {
+  let version = "dev";
+  return {
+    name: "asset-manifest",
+    apply: "build",
+    // Lets public/sw.js precache every hashed asset, lazy chunks included
+    generateBundle(_options, bundle) {
+      const assets = Object.keys(bundle)
+        .filter((fileName) => fileName.startsWith("assets/"))
+        .map((fileName) => `/${fileName}`)
+        .sort();
+      const source = JSON.stringify(assets);
+      version = createHash("sha256").update(source).digest("hex").slice(0, 12);
+      this.emitFile({
+        type: "asset",
+        fileName: "asset-manifest.json",
+        source,
+      });
+    },
+    // Browsers only install a new worker when sw.js changes, so every build
+    // stamps its version into the copy from public/
+    async writeBundle(options) {
+      const file = path.join(options.dir!, "sw.js");
+      const worker = await readFile(file, "utf8");
+      await writeFile(file, worker.replace('"__BUILD_VERSION__"', JSON.stringify(version)));
+    },
+  };
+}